@@ -18,6 +18,20 @@ import RecordsPage from "@/pages/records";
 import AdminPage from "@/pages/admin";
 import SettingsPage from "@/pages/settings";
 import AIAnalysisPage from "@/pages/ai-analysis";
+import CentralStationPage from "@/pages/central-station";
+import AlarmsPage from "@/pages/alarms";
+import EscalationPage from "@/pages/escalation";
+import { PatientContextBar } from "@/components/patient-context-bar";
+import { ActivePatientProvider } from "@/hooks/use-active-patient";
+
+// Pages under /patients/:id/, by the last path segment
+const patientPages: Record<string, React.ComponentType> = {
+  dashboard: DashboardPage,
+  records: RecordsPage,
+  profile: ProfilePage,
+  "ai-analysis": AIAnalysisPage,
+  alarms: AlarmsPage,
+};
 
 function ThemeToggle() {
   const toggleTheme = () => {
@@ -153,6 +167,16 @@ function Router() {
         )}
       </Route>
       
+      <Route path="/alarms">
+        {authToken ? (
+          <AuthenticatedLayout>
+            <AlarmsPage />
+          </AuthenticatedLayout>
+        ) : (
+          <Redirect to="/login" />
+        )}
+      </Route>
+      
       <Route path="/settings">
         {authToken ? (
           <AuthenticatedLayout>
@@ -174,6 +198,43 @@ function Router() {
         )}
       </Route>
       
+      <Route path="/central-station">
+        {authToken && userRole === "admin" ? (
+          <AuthenticatedLayout>
+            <CentralStationPage />
+          </AuthenticatedLayout>
+        ) : (
+          <Redirect to="/login" />
+        )}
+      </Route>
+
+      <Route path="/escalation">
+        {authToken && userRole === "admin" ? (
+          <AuthenticatedLayout>
+            <EscalationPage />
+          </AuthenticatedLayout>
+        ) : (
+          <Redirect to="/login" />
+        )}
+      </Route>
+
+      {/* Admin drill-down: a patient's own pages, for the patient in the URL */}
+      <Route path="/patients/:id/:section">
+        {(params) => {
+          const Page = patientPages[params.section];
+          if (!authToken || userRole !== "admin") return <Redirect to="/login" />;
+          if (!Page) return <NotFound />;
+          return (
+            <AuthenticatedLayout>
+              <ActivePatientProvider key={params.id} patientId={params.id}>
+                <PatientContextBar patientId={params.id} />
+                <Page />
+              </ActivePatientProvider>
+            </AuthenticatedLayout>
+          );
+        }}
+      </Route>
+      
       <Route component={NotFound} />
     </Switch>
   );
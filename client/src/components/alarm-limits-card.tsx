@@ -0,0 +1,211 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { SlidersHorizontal } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  VITAL_METRIC_CODES,
+  alarmPriorities,
+  vitalMetrics,
+  type AlarmLimit,
+  type AlarmLimitOverrides,
+  type AlarmPriority,
+  type ResolvedAlarmLimits,
+  type VitalMetric,
+} from "@shared/schema";
+
+// Numbers are edited as text so a limit can be left blank (no limit)
+type DraftLimit = { enabled: boolean; priority: AlarmPriority; low: string; high: string; delaySeconds: string; hysteresis: string };
+
+function toDraft(limit: AlarmLimit): DraftLimit {
+  return {
+    enabled: limit.enabled,
+    priority: limit.priority,
+    low: limit.low === null ? "" : String(limit.low),
+    high: limit.high === null ? "" : String(limit.high),
+    delaySeconds: String(limit.delaySeconds),
+    hysteresis: String(limit.hysteresis),
+  };
+}
+
+function fromDraft(draft: DraftLimit): AlarmLimit {
+  return {
+    enabled: draft.enabled,
+    priority: draft.priority,
+    low: draft.low.trim() === "" ? null : Number(draft.low),
+    high: draft.high.trim() === "" ? null : Number(draft.high),
+    delaySeconds: Number(draft.delaySeconds),
+    hysteresis: Number(draft.hysteresis),
+  };
+}
+
+// Only the fields that differ from the defaults are saved, so later changes to the
+// defaults still reach this patient
+function toOverrides(drafts: Record<VitalMetric, DraftLimit>, defaults: Record<VitalMetric, AlarmLimit>): AlarmLimitOverrides {
+  const overrides: AlarmLimitOverrides = {};
+  for (const metric of VITAL_METRIC_CODES) {
+    const limit = fromDraft(drafts[metric]);
+    const changed = Object.fromEntries(
+      (Object.keys(limit) as (keyof AlarmLimit)[])
+        .filter((key) => limit[key] !== defaults[metric][key])
+        .map((key) => [key, limit[key]])
+    );
+    if (Object.keys(changed).length > 0) overrides[metric] = changed;
+  }
+  return overrides;
+}
+
+// Alarm limits in force for a patient. Admins can edit them; patients see them read-only.
+export function AlarmLimitsCard({ patientId, editable }: { patientId: string; editable: boolean }) {
+  const { toast } = useToast();
+  const limitsKey = `/api/patients/${patientId}/alarm-limits`;
+  const [drafts, setDrafts] = useState<Record<VitalMetric, DraftLimit> | null>(null);
+
+  const { data: resolved, isLoading } = useQuery<ResolvedAlarmLimits>({
+    queryKey: [limitsKey],
+  });
+
+  useEffect(() => {
+    if (resolved) {
+      setDrafts(Object.fromEntries(
+        VITAL_METRIC_CODES.map((metric) => [metric, toDraft(resolved.limits[metric])])
+      ) as Record<VitalMetric, DraftLimit>);
+    }
+  }, [resolved]);
+
+  const saveMutation = useMutation({
+    mutationFn: (overrides: AlarmLimitOverrides) =>
+      apiRequest("PUT", `/api/admin/patients/${patientId}/alarm-limits`, overrides),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [limitsKey] });
+      // New limits may have raised or cleared alarms
+      queryClient.invalidateQueries({ queryKey: [`/api/patients/${patientId}/alarms`] });
+      toast({ title: "Alarm limits saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save alarm limits", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const update = (metric: VitalMetric, changes: Partial<DraftLimit>) => {
+    setDrafts((prev) => prev && { ...prev, [metric]: { ...prev[metric], ...changes } });
+  };
+
+  const numberInput = (metric: VitalMetric, field: "low" | "high" | "delaySeconds" | "hysteresis", className = "w-20") => (
+    <Input
+      type="number"
+      className={`h-8 ${className}`}
+      value={drafts![metric][field]}
+      onChange={(e) => update(metric, { [field]: e.target.value })}
+      disabled={!editable}
+      data-testid={`input-alarm-${field}-${metric}`}
+    />
+  );
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-start gap-4 mb-4">
+        <SlidersHorizontal className="h-5 w-5 text-primary mt-1" />
+        <div className="flex-1">
+          <h3 className="text-base font-semibold">Alarm Limits</h3>
+          <p className="text-sm text-muted-foreground mt-1">
+            An alarm fires when a value stays outside its limits for the delay, and clears once it is back inside by
+            the hysteresis. Values are in the unit shown under each metric; leave a limit blank for none.
+          </p>
+        </div>
+      </div>
+
+      {isLoading || !resolved || !drafts ? (
+        <Skeleton className="h-64" />
+      ) : (
+        <>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Metric</TableHead>
+                  <TableHead>On</TableHead>
+                  <TableHead>Low</TableHead>
+                  <TableHead>High</TableHead>
+                  <TableHead>Priority</TableHead>
+                  <TableHead>Delay (s)</TableHead>
+                  <TableHead>Hysteresis</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {VITAL_METRIC_CODES.map((metric) => (
+                  <TableRow key={metric}>
+                    <TableCell className="text-sm">
+                      {vitalMetrics[metric].label}
+                      <span className="block text-xs text-muted-foreground">
+                        {vitalMetrics[metric].unit}
+                        {resolved.overrides[metric] && " · customised"}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={drafts[metric].enabled}
+                        onCheckedChange={(checked) => update(metric, { enabled: checked })}
+                        disabled={!editable}
+                        data-testid={`switch-alarm-${metric}`}
+                      />
+                    </TableCell>
+                    <TableCell>{numberInput(metric, "low")}</TableCell>
+                    <TableCell>{numberInput(metric, "high")}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={drafts[metric].priority}
+                        onValueChange={(value) => update(metric, { priority: value as AlarmPriority })}
+                        disabled={!editable}
+                      >
+                        <SelectTrigger className="h-8 w-28" data-testid={`select-alarm-priority-${metric}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {alarmPriorities.map((priority) => (
+                            <SelectItem key={priority} value={priority} className="capitalize">
+                              {priority}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>{numberInput(metric, "delaySeconds")}</TableCell>
+                    <TableCell>{numberInput(metric, "hysteresis")}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          {editable && (
+            <div className="flex justify-end gap-2 mt-4">
+              <Button
+                variant="outline"
+                onClick={() => saveMutation.mutate({})}
+                disabled={saveMutation.isPending || Object.keys(resolved.overrides).length === 0}
+                data-testid="button-reset-alarm-limits"
+              >
+                Reset to Defaults
+              </Button>
+              <Button
+                onClick={() => saveMutation.mutate(toOverrides(drafts, resolved.defaults))}
+                disabled={saveMutation.isPending}
+                data-testid="button-save-alarm-limits"
+              >
+                Save Limits
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </Card>
+  );
+}
@@ -1,4 +1,4 @@
-import { LayoutDashboard, LineChart, User, Settings, LogOut, Brain, Activity } from "lucide-react";
+import { LayoutDashboard, LineChart, User, Settings, LogOut, Brain, Activity, MonitorDot, Shield, BellRing, Siren } from "lucide-react";
 import {
   Sidebar,
   SidebarContent,
@@ -37,6 +37,12 @@ const menuItems = [
     icon: Brain,
     testId: "link-ai-analysis",
   },
+  {
+    title: "Alarms",
+    url: "/alarms",
+    icon: BellRing,
+    testId: "link-alarms",
+  },
   {
     title: "Profile",
     url: "/profile",
@@ -51,8 +57,31 @@ const menuItems = [
   },
 ];
 
+// Shown to admins only
+const adminMenuItems = [
+  {
+    title: "Central Station",
+    url: "/central-station",
+    icon: MonitorDot,
+    testId: "link-central-station",
+  },
+  {
+    title: "Escalation",
+    url: "/escalation",
+    icon: Siren,
+    testId: "link-escalation",
+  },
+  {
+    title: "Admin",
+    url: "/admin",
+    icon: Shield,
+    testId: "link-admin",
+  },
+];
+
 export function AppSidebar() {
   const [location, setLocation] = useLocation();
+  const isAdmin = localStorage.getItem("userRole") === "admin";
 
   const handleLogout = () => {
     localStorage.removeItem("authToken");
@@ -100,6 +129,25 @@ export function AppSidebar() {
             </SidebarMenu>
           </SidebarGroupContent>
         </SidebarGroup>
+        {isAdmin && (
+          <SidebarGroup>
+            <SidebarGroupLabel>Administration</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {adminMenuItems.map((item) => (
+                  <SidebarMenuItem key={item.title}>
+                    <SidebarMenuButton asChild isActive={location === item.url} data-testid={item.testId}>
+                      <a href={item.url}>
+                        <item.icon className="h-4 w-4" />
+                        <span>{item.title}</span>
+                      </a>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
       </SidebarContent>
       <SidebarFooter>
         <SidebarMenu>
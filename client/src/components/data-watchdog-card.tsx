@@ -0,0 +1,118 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { WifiOff } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { DataWatchdogSettings, DataWatchdogStatus } from "@shared/schema";
+
+const WATCHDOG_REFRESH_MS = 10 * 1000;
+
+// The no-data alarm of one patient: how often readings are expected and whether they
+// are arriving. Admins can switch it off or set the interval.
+export function DataWatchdogCard({ patientId, editable }: { patientId: string; editable: boolean }) {
+  const { toast } = useToast();
+  const statusKey = `/api/patients/${patientId}/data-watchdog`;
+  const [enabled, setEnabled] = useState(true);
+  // Blank leaves the patient unwatched
+  const [intervalDraft, setIntervalDraft] = useState("");
+
+  const { data: status, isError } = useQuery<DataWatchdogStatus>({
+    queryKey: [statusKey],
+    refetchInterval: WATCHDOG_REFRESH_MS,
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (status) {
+      setEnabled(status.settings.enabled);
+      setIntervalDraft(status.settings.expectedIntervalSeconds === null ? "" : String(status.settings.expectedIntervalSeconds));
+    }
+  }, [status?.settings.enabled, status?.settings.expectedIntervalSeconds]);
+
+  const saveMutation = useMutation({
+    mutationFn: (settings: DataWatchdogSettings) => apiRequest("PUT", `/api/admin/patients/${patientId}/data-watchdog`, settings),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [statusKey] });
+      // The new settings may have raised or cleared the alarm
+      queryClient.invalidateQueries({ queryKey: [`/api/patients/${patientId}/alarms`] });
+      toast({ title: "No-data alarm saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save the no-data alarm", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Only patients are watched
+  if (isError || !status) return null;
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-start gap-4 mb-4">
+        <WifiOff className="h-5 w-5 text-primary mt-1" />
+        <div className="flex-1">
+          <h3 className="text-base font-semibold">No-data Alarm</h3>
+          <p className="text-sm text-muted-foreground mt-1">
+            A technical alarm fires when readings stop for longer than the limit, and clears when they return.
+          </p>
+        </div>
+        {status.stale ? (
+          <Badge variant="secondary" className="bg-vital-yellow/20 text-vital-yellow" data-testid="badge-data-stale">No recent data</Badge>
+        ) : status.lastObservedAt ? (
+          <Badge variant="secondary" className="bg-vital-green/20 text-vital-green" data-testid="badge-data-current">Reporting</Badge>
+        ) : null}
+      </div>
+
+      <div className="space-y-2 text-sm mb-4" data-testid="text-data-watchdog">
+        <p>
+          {status.expectedIntervalSeconds === null
+            ? "Not watched: no expected interval is set for this patient."
+            : `Readings expected every ${status.expectedIntervalSeconds} s; the alarm fires after ${status.alarmAfterSeconds} s without one.`}
+        </p>
+        <p className="text-muted-foreground">
+          Last reading: {status.lastObservedAt ? new Date(status.lastObservedAt).toLocaleString() : "never"}
+          {status.deviceId && (
+            <>
+              {" "}· Device {status.deviceId} last in contact{" "}
+              {status.deviceLastSeenAt ? new Date(status.deviceLastSeenAt).toLocaleString() : "never"}
+            </>
+          )}
+        </p>
+      </div>
+
+      {editable && (
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="flex items-center gap-2 h-10">
+            <Switch id="switch-data-gap" checked={enabled} onCheckedChange={setEnabled} data-testid="switch-data-gap" />
+            <Label htmlFor="switch-data-gap" className="text-sm">Enabled</Label>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="input-expected-interval" className="text-sm">Expected interval (s)</Label>
+            <Input
+              id="input-expected-interval"
+              type="number"
+              min={1}
+              className="h-8 w-40"
+              value={intervalDraft}
+              placeholder="Not watched"
+              onChange={(e) => setIntervalDraft(e.target.value)}
+              data-testid="input-expected-interval"
+            />
+          </div>
+          <Button
+            onClick={() => saveMutation.mutate({ enabled, expectedIntervalSeconds: intervalDraft.trim() === "" ? null : Number(intervalDraft) })}
+            disabled={saveMutation.isPending}
+            data-testid="button-save-data-watchdog"
+          >
+            Save
+          </Button>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,236 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Gauge } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { VITAL_METRIC_CODES, vitalMetrics, type Device, type DeviceCalibration, type VitalMetric } from "@shared/schema";
+
+const ALL_METRICS = "all";
+
+// <input type="datetime-local"> works in local time without a zone
+function toLocalInput(date: Date): string {
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
+function metricLabel(metric: string): string {
+  return metric in vitalMetrics ? vitalMetrics[metric as VitalMetric].label : metric;
+}
+
+export function DeviceCalibrationDialog({ device }: { device: Device }) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [metric, setMetric] = useState<VitalMetric>("temperature");
+  const [offset, setOffset] = useState("0");
+  const [gain, setGain] = useState("1");
+  const [effectiveFrom, setEffectiveFrom] = useState(() => toLocalInput(new Date()));
+  const [notes, setNotes] = useState("");
+  const [reapplyMetric, setReapplyMetric] = useState<string>(ALL_METRICS);
+  const [reapplyFrom, setReapplyFrom] = useState(() => toLocalInput(new Date(Date.now() - 24 * 60 * 60 * 1000)));
+  const [reapplyTo, setReapplyTo] = useState(() => toLocalInput(new Date()));
+  const calibrationsKey = `/api/admin/devices/${device.id}/calibrations`;
+
+  const { data: calibrations, isLoading } = useQuery<DeviceCalibration[]>({
+    queryKey: [calibrationsKey],
+    enabled: open,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", calibrationsKey, {
+        metric,
+        offset: Number(offset),
+        gain: Number(gain),
+        effectiveFrom: new Date(effectiveFrom).toISOString(),
+        notes: notes.trim() || undefined,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [calibrationsKey] });
+      setNotes("");
+      toast({ title: "Calibration recorded", description: "New readings from this device are calibrated with it" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not record calibration", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const reapplyMutation = useMutation({
+    mutationFn: (): Promise<{ updated: number }> =>
+      apiRequest("POST", `${calibrationsKey}/reapply`, {
+        metric: reapplyMetric === ALL_METRICS ? undefined : reapplyMetric,
+        from: new Date(reapplyFrom).toISOString(),
+        to: new Date(reapplyTo).toISOString(),
+      }),
+    onSuccess: ({ updated }) => {
+      queryClient.invalidateQueries();
+      toast({ title: "Calibration re-applied", description: `${updated} stored value${updated === 1 ? "" : "s"} updated` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not re-apply calibration", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="ghost" data-testid={`button-calibration-${device.id}`}>
+          <Gauge className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Calibration for {device.deviceId}</DialogTitle>
+          <DialogDescription>
+            Readings are stored as raw × gain + offset, in the metric's standard unit. The raw value is kept alongside
+            the calibrated one. To correct a calibration, record a new one and re-apply it to the affected period.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div className="space-y-1">
+            <Label>Metric</Label>
+            <Select value={metric} onValueChange={(value) => setMetric(value as VitalMetric)}>
+              <SelectTrigger data-testid="select-calibration-metric">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {VITAL_METRIC_CODES.map((code) => (
+                  <SelectItem key={code} value={code}>{vitalMetrics[code].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="calibration-offset">Offset ({vitalMetrics[metric].unit})</Label>
+            <Input
+              id="calibration-offset"
+              type="number"
+              step="0.1"
+              value={offset}
+              onChange={(e) => setOffset(e.target.value)}
+              data-testid="input-calibration-offset"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="calibration-gain">Gain</Label>
+            <Input
+              id="calibration-gain"
+              type="number"
+              step="0.01"
+              value={gain}
+              onChange={(e) => setGain(e.target.value)}
+              data-testid="input-calibration-gain"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="calibration-effective-from">Effective from</Label>
+            <Input
+              id="calibration-effective-from"
+              type="datetime-local"
+              value={effectiveFrom}
+              onChange={(e) => setEffectiveFrom(e.target.value)}
+              data-testid="input-calibration-effective-from"
+            />
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Input
+            placeholder="Notes (e.g. reference thermometer used)"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            data-testid="input-calibration-notes"
+          />
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={createMutation.isPending || !effectiveFrom}
+            data-testid="button-save-calibration"
+          >
+            Record Calibration
+          </Button>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-semibold mb-2">History</h3>
+          {isLoading ? (
+            <Skeleton className="h-24" />
+          ) : !calibrations || calibrations.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No calibrations recorded; readings are stored as measured.</p>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Metric</TableHead>
+                    <TableHead>Offset</TableHead>
+                    <TableHead>Gain</TableHead>
+                    <TableHead>Effective from</TableHead>
+                    <TableHead>Notes</TableHead>
+                    <TableHead>Recorded</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {calibrations.map((calibration) => (
+                    <TableRow key={calibration.id} data-testid={`row-calibration-${calibration.id}`}>
+                      <TableCell className="text-sm">{metricLabel(calibration.metric)}</TableCell>
+                      <TableCell className="font-mono text-xs">{calibration.offset}</TableCell>
+                      <TableCell className="font-mono text-xs">{calibration.gain}</TableCell>
+                      <TableCell className="text-xs">{new Date(calibration.effectiveFrom).toLocaleString()}</TableCell>
+                      <TableCell className="text-xs">{calibration.notes ?? "—"}</TableCell>
+                      <TableCell className="text-xs">
+                        {calibration.createdAt ? new Date(calibration.createdAt).toLocaleString() : "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+
+        <div>
+          <h3 className="text-sm font-semibold mb-2">Re-apply to past readings</h3>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+            <Select value={reapplyMetric} onValueChange={setReapplyMetric}>
+              <SelectTrigger data-testid="select-reapply-metric">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_METRICS}>All metrics</SelectItem>
+                {VITAL_METRIC_CODES.map((code) => (
+                  <SelectItem key={code} value={code}>{vitalMetrics[code].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="datetime-local"
+              value={reapplyFrom}
+              onChange={(e) => setReapplyFrom(e.target.value)}
+              data-testid="input-reapply-from"
+            />
+            <Input
+              type="datetime-local"
+              value={reapplyTo}
+              onChange={(e) => setReapplyTo(e.target.value)}
+              data-testid="input-reapply-to"
+            />
+            <Button
+              variant="outline"
+              onClick={() => reapplyMutation.mutate()}
+              disabled={reapplyMutation.isPending || !reapplyFrom || !reapplyTo}
+              data-testid="button-reapply-calibration"
+            >
+              Re-apply
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,227 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Settings2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type {
+  Device,
+  DeviceConfigAck,
+  DeviceConfigStatus,
+  DeviceSettings,
+  DeviceSettingsOverride,
+  ResolvedDeviceConfig,
+} from "@shared/schema";
+
+type DeviceConfigDetails = ResolvedDeviceConfig & { status: DeviceConfigStatus; acks: DeviceConfigAck[] };
+
+const settingFields: { key: keyof DeviceSettings; label: string; unit: string }[] = [
+  { key: "vitals_sampling_duration_ms", label: "Vitals sampling duration", unit: "ms" },
+  { key: "sensor_read_interval_ms", label: "Sensor read interval", unit: "ms" },
+  { key: "touch_threshold_temp_c", label: "Touch threshold (temperature)", unit: "°C" },
+  { key: "touch_threshold_ir", label: "Touch threshold (IR)", unit: "" },
+  { key: "pending_flush_interval_ms", label: "Buffered upload interval", unit: "ms" },
+  { key: "config_poll_interval_ms", label: "Config poll interval", unit: "ms" },
+];
+
+type DraftValues = Partial<Record<keyof DeviceSettings, string>>;
+
+function toDraft(overrides: DeviceSettingsOverride): DraftValues {
+  return Object.fromEntries(Object.entries(overrides).map(([key, value]) => [key, String(value)]));
+}
+
+// Blank fields inherit from the group or the firmware defaults
+function fromDraft(draft: DraftValues): DeviceSettingsOverride {
+  return Object.fromEntries(
+    Object.entries(draft)
+      .filter(([, value]) => value !== undefined && value.trim() !== "")
+      .map(([key, value]) => [key, Number(value)])
+  );
+}
+
+export function DeviceConfigDialog({ device }: { device: Device }) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [deviceDraft, setDeviceDraft] = useState<DraftValues>({});
+  const [groupDraft, setGroupDraft] = useState<DraftValues>({});
+  const configKey = `/api/admin/devices/${device.id}/config`;
+
+  const { data: config, isLoading } = useQuery<DeviceConfigDetails>({
+    queryKey: [configKey],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (config) {
+      setDeviceDraft(toDraft(config.deviceOverrides));
+      setGroupDraft(toDraft(config.groupOverrides));
+    }
+  }, [config]);
+
+  const onSaved = (title: string) => () => {
+    queryClient.invalidateQueries({ queryKey: [configKey] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/devices"] });
+    toast({ title, description: "Devices pick up the change on their next config poll" });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Could not save configuration", description: error.message, variant: "destructive" });
+  };
+
+  const deviceMutation = useMutation({
+    mutationFn: () => apiRequest("PUT", configKey, fromDraft(deviceDraft)),
+    onSuccess: onSaved("Device configuration saved"),
+    onError,
+  });
+
+  const groupMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("PUT", `/api/admin/device-groups/${encodeURIComponent(device.groupName!)}/config`, fromDraft(groupDraft)),
+    onSuccess: onSaved(`Group ${device.groupName} configuration saved`),
+    onError,
+  });
+
+  const sourceOf = (key: keyof DeviceSettings) => {
+    if (config?.deviceOverrides[key] !== undefined) return "device";
+    if (config?.groupOverrides[key] !== undefined) return "group";
+    return "default";
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="ghost" data-testid={`button-config-${device.id}`}>
+          <Settings2 className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Configuration for {device.deviceId}</DialogTitle>
+          <DialogDescription>
+            Values are merged from the firmware defaults, the device group and this device. Leave a field blank to
+            inherit it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !config ? (
+          <Skeleton className="h-64" />
+        ) : (
+          <>
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-muted-foreground">Current version</span>
+              <code className="font-mono text-xs">{config.status.etag}</code>
+              {config.status.inSync ? (
+                <Badge variant="secondary" className="bg-vital-green/20 text-vital-green">Acknowledged</Badge>
+              ) : (
+                <Badge variant="secondary" className="bg-vital-yellow/20 text-vital-yellow" data-testid="badge-config-pending">
+                  Pending{config.status.acknowledgedEtag && ` (device runs ${config.status.acknowledgedEtag})`}
+                </Badge>
+              )}
+            </div>
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Setting</TableHead>
+                    <TableHead>Effective</TableHead>
+                    {device.groupName && <TableHead>Group {device.groupName}</TableHead>}
+                    <TableHead>This device</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {settingFields.map((field) => (
+                    <TableRow key={field.key}>
+                      <TableCell className="text-sm">{field.label}</TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {config.settings[field.key]} {field.unit}
+                        <span className="block text-muted-foreground">{sourceOf(field.key)}</span>
+                      </TableCell>
+                      {device.groupName && (
+                        <TableCell>
+                          <Input
+                            type="number"
+                            className="h-8 w-28"
+                            value={groupDraft[field.key] ?? ""}
+                            onChange={(e) => setGroupDraft((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                            data-testid={`input-group-${field.key}`}
+                          />
+                        </TableCell>
+                      )}
+                      <TableCell>
+                        <Input
+                          type="number"
+                          className="h-8 w-28"
+                          value={deviceDraft[field.key] ?? ""}
+                          onChange={(e) => setDeviceDraft((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                          data-testid={`input-device-${field.key}`}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              {device.groupName && (
+                <Button
+                  variant="outline"
+                  onClick={() => groupMutation.mutate()}
+                  disabled={groupMutation.isPending}
+                  data-testid="button-save-group-config"
+                >
+                  Roll Out to Group
+                </Button>
+              )}
+              <Button
+                onClick={() => deviceMutation.mutate()}
+                disabled={deviceMutation.isPending}
+                data-testid="button-save-device-config"
+              >
+                Roll Out to Device
+              </Button>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-semibold mb-2">Acknowledgements</h3>
+              {config.acks.length === 0 ? (
+                <p className="text-sm text-muted-foreground">The device has not acknowledged any configuration yet.</p>
+              ) : (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Version</TableHead>
+                        <TableHead>Result</TableHead>
+                        <TableHead>When</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {config.acks.map((ack) => (
+                        <TableRow key={ack.id}>
+                          <TableCell className="font-mono text-xs">{ack.etag}</TableCell>
+                          <TableCell className="text-xs">
+                            {ack.status === "applied" ? "Applied" : `Rejected${ack.message ? `: ${ack.message}` : ""}`}
+                          </TableCell>
+                          <TableCell className="text-xs">
+                            {ack.ackedAt ? new Date(ack.ackedAt).toLocaleString() : "—"}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
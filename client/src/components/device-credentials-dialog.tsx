@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { KeyRound, RotateCw, Ban, Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Device, PublicDeviceCredential } from "@shared/schema";
+
+type IssuedCredential = PublicDeviceCredential & { secret: string };
+
+function credentialState(credential: PublicDeviceCredential): { label: string; className: string } {
+  if (credential.status === "revoked") {
+    return { label: "Revoked", className: "bg-destructive/20 text-destructive" };
+  }
+  if (credential.expiresAt && new Date(credential.expiresAt) <= new Date()) {
+    return { label: "Expired", className: "" };
+  }
+  if (credential.expiresAt) {
+    return { label: "Rotating out", className: "bg-vital-yellow/20 text-vital-yellow" };
+  }
+  return { label: "Active", className: "bg-vital-green/20 text-vital-green" };
+}
+
+export function DeviceCredentialsDialog({ device }: { device: Device }) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [issued, setIssued] = useState<IssuedCredential | null>(null);
+  const credentialsKey = `/api/admin/devices/${device.id}/credentials`;
+
+  const { data: credentials, isLoading } = useQuery<PublicDeviceCredential[]>({
+    queryKey: [credentialsKey],
+    enabled: open,
+  });
+
+  const issueMutation = useMutation({
+    mutationFn: (revokePrevious: boolean) => apiRequest("POST", credentialsKey, { revokePrevious }),
+    onSuccess: (data: IssuedCredential) => {
+      setIssued(data);
+      queryClient.invalidateQueries({ queryKey: [credentialsKey] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not issue credentials", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (credentialId: string) => apiRequest("POST", `${credentialsKey}/${credentialId}/revoke`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [credentialsKey] });
+      toast({ title: "Key revoked" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Revoke failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const copySecret = async () => {
+    if (!issued) return;
+    await navigator.clipboard.writeText(issued.secret);
+    toast({ title: "Secret copied to clipboard" });
+  };
+
+  const hasActiveKey = credentials?.some((credential) => credentialState(credential).label === "Active");
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        if (!value) setIssued(null);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button size="sm" variant="ghost" data-testid={`button-credentials-${device.id}`}>
+          <KeyRound className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Signing keys for {device.deviceId}</DialogTitle>
+          <DialogDescription>
+            The device signs every payload with HMAC-SHA256. Rotated keys keep working for a grace period so the
+            device can be updated; revoked keys stop working immediately.
+          </DialogDescription>
+        </DialogHeader>
+
+        {issued && (
+          <Alert>
+            <KeyRound className="h-4 w-4" />
+            <AlertTitle>New key {issued.keyId}</AlertTitle>
+            <AlertDescription>
+              <p className="mb-2">Copy this secret into the device firmware now. It will not be shown again.</p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 break-all rounded bg-muted px-2 py-1 font-mono text-xs" data-testid="text-device-secret">
+                  {issued.secret}
+                </code>
+                <Button size="icon" variant="ghost" onClick={copySecret} data-testid="button-copy-secret">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex gap-2">
+          <Button
+            onClick={() => issueMutation.mutate(false)}
+            disabled={issueMutation.isPending}
+            data-testid="button-issue-key"
+          >
+            {hasActiveKey ? <RotateCw className="h-4 w-4 mr-1" /> : <KeyRound className="h-4 w-4 mr-1" />}
+            {hasActiveKey ? "Rotate Key" : "Issue Key"}
+          </Button>
+          {hasActiveKey && (
+            <Button
+              variant="outline"
+              onClick={() => issueMutation.mutate(true)}
+              disabled={issueMutation.isPending}
+              data-testid="button-replace-key"
+            >
+              Replace &amp; Revoke Old
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-24" />
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Key ID</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Issued</TableHead>
+                  <TableHead>Last Used</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {!credentials || credentials.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      No keys issued. The device cannot submit data until it has one.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  credentials.map((credential) => {
+                    const state = credentialState(credential);
+                    return (
+                      <TableRow key={credential.id}>
+                        <TableCell className="font-mono text-xs">{credential.keyId}</TableCell>
+                        <TableCell>
+                          <Badge variant="secondary" className={state.className}>
+                            {state.label}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-xs">
+                          {credential.createdAt ? new Date(credential.createdAt).toLocaleString() : "—"}
+                        </TableCell>
+                        <TableCell className="text-xs">
+                          {credential.lastUsedAt ? new Date(credential.lastUsedAt).toLocaleString() : "Never"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {credential.status === "active" && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="text-destructive hover:text-destructive"
+                              onClick={() => revokeMutation.mutate(credential.id)}
+                              disabled={revokeMutation.isPending}
+                              data-testid={`button-revoke-${credential.id}`}
+                            >
+                              <Ban className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,169 @@
+import { useQuery } from "@tanstack/react-query";
+import { HeartPulse, AlertTriangle, RotateCcw } from "lucide-react";
+import { LineChart, Line, YAxis, ResponsiveContainer } from "recharts";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { DeviceHealth, TelemetryPoint } from "@shared/schema";
+
+const statusStyles: Record<DeviceHealth["status"], { label: string; className: string }> = {
+  online: { label: "Online", className: "bg-vital-green/20 text-vital-green" },
+  silent: { label: "Silent", className: "bg-destructive/20 text-destructive" },
+  never_seen: { label: "Never seen", className: "bg-vital-yellow/20 text-vital-yellow" },
+  retired: { label: "Retired", className: "" },
+};
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)} min`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)} h`;
+  return `${Math.floor(seconds / 86400)} d`;
+}
+
+function Sparkline({ points, color }: { points: TelemetryPoint[]; color: string }) {
+  if (points.length < 2) {
+    return <span className="text-xs text-muted-foreground">—</span>;
+  }
+
+  return (
+    <div className="h-8 w-28">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={points}>
+          <YAxis hide domain={["dataMin", "dataMax"]} />
+          <Line type="monotone" dataKey="value" stroke={color} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+export function DeviceHealthPanel() {
+  const { data: health, isLoading } = useQuery<DeviceHealth[]>({
+    queryKey: ["/api/admin/devices/health"],
+    refetchInterval: 10000,
+  });
+
+  const silentCount = health?.filter((entry) => entry.status === "silent").length || 0;
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <HeartPulse className="h-5 w-5 text-primary" />
+          <h2 className="text-xl font-semibold text-foreground">Device Health</h2>
+        </div>
+        {silentCount > 0 && (
+          <Badge variant="secondary" className="bg-destructive/20 text-destructive" data-testid="badge-silent-devices">
+            <AlertTriangle className="h-3 w-3 mr-1" />
+            {silentCount} silent
+          </Badge>
+        )}
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-40" />
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Device</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Last Seen</TableHead>
+                <TableHead>Wi-Fi RSSI</TableHead>
+                <TableHead>Free Heap</TableHead>
+                <TableHead>Reboots (24h)</TableHead>
+                <TableHead>Errors (24h)</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {!health || health.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    No devices registered yet.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                health.map((entry) => {
+                  const style = statusStyles[entry.status];
+                  return (
+                    <TableRow key={entry.device.id} data-testid={`row-device-health-${entry.device.id}`}>
+                      <TableCell>
+                        <span className="font-mono text-xs">{entry.device.deviceId}</span>
+                        {entry.latest?.sensorType && (
+                          <span className="block text-xs text-muted-foreground">{entry.latest.sensorType}</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="secondary" className={style.className}>
+                          {style.label}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {entry.lastSeenAt ? (
+                          <>
+                            {formatDuration(entry.silentForSeconds ?? 0)} ago
+                            <span className="block text-muted-foreground">{new Date(entry.lastSeenAt).toLocaleString()}</span>
+                          </>
+                        ) : (
+                          "Never"
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Sparkline points={entry.rssiTrend} color="hsl(var(--vital-cyan))" />
+                          {entry.latest?.wifiRssi != null && (
+                            <span className="font-mono text-xs">{entry.latest.wifiRssi} dBm</span>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Sparkline points={entry.heapTrend} color="hsl(var(--vital-yellow))" />
+                          {entry.latest?.freeHeap != null && (
+                            <span className="font-mono text-xs">{Math.round(entry.latest.freeHeap / 1024)} KB</span>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {entry.rebootsLast24h > 0 ? (
+                          <span className="flex items-center gap-1 text-vital-yellow">
+                            <RotateCcw className="h-3 w-3" />
+                            {entry.rebootsLast24h}
+                            {entry.lastRebootAt && (
+                              <span className="text-muted-foreground">
+                                (last {new Date(entry.lastRebootAt).toLocaleTimeString()})
+                              </span>
+                            )}
+                          </span>
+                        ) : (
+                          "0"
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        <span className={entry.errorsLast24h > 0 ? "text-destructive font-semibold" : ""}>
+                          {entry.errorsLast24h}
+                        </span>
+                        {entry.lastError && (
+                          <span className="block text-muted-foreground truncate max-w-48" title={entry.lastError.message}>
+                            {entry.lastError.status}: {entry.lastError.message}
+                          </span>
+                        )}
+                        {entry.authFailuresLast24h > 0 && (
+                          <span className="block text-vital-yellow" title={entry.lastAuthFailure?.message}>
+                            {entry.authFailuresLast24h} failed authentication{entry.authFailuresLast24h === 1 ? "" : "s"}
+                          </span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,311 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Cpu, Link2, Unlink, Trash2, Archive } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { DeviceCredentialsDialog } from "@/components/device-credentials-dialog";
+import { DeviceConfigDialog } from "@/components/device-config-dialog";
+import { DeviceCalibrationDialog } from "@/components/device-calibration-dialog";
+import {
+  insertDeviceSchema,
+  type InsertDevice,
+  type Device,
+  type DeviceAssignment,
+  type DeviceConfigStatus,
+  type User,
+} from "@shared/schema";
+
+export type DeviceWithAssignment = Device & { activeAssignment: DeviceAssignment | null; config: DeviceConfigStatus };
+
+interface DeviceManagementProps {
+  patients: Omit<User, "password">[];
+}
+
+export function DeviceManagement({ patients }: DeviceManagementProps) {
+  const { toast } = useToast();
+  const [selectedPatients, setSelectedPatients] = useState<Record<string, string>>({});
+
+  const { data: devices, isLoading } = useQuery<DeviceWithAssignment[]>({
+    queryKey: ["/api/admin/devices"],
+  });
+
+  const form = useForm<InsertDevice>({
+    resolver: zodResolver(insertDeviceSchema),
+    defaultValues: {
+      deviceId: "",
+      name: "",
+      model: "",
+      groupName: "",
+      status: "active",
+    },
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const invalidateDevices = () => queryClient.invalidateQueries({ queryKey: ["/api/admin/devices"] });
+
+  const createMutation = useMutation({
+    mutationFn: (data: InsertDevice) => apiRequest("POST", "/api/admin/devices", data),
+    onSuccess: (device: Device) => {
+      form.reset();
+      invalidateDevices();
+      toast({ title: "Device registered", description: `${device.deviceId} added to the fleet` });
+    },
+    onError: onError("Registration failed"),
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: ({ deviceId, userId }: { deviceId: string; userId: string }) =>
+      apiRequest("POST", `/api/admin/devices/${deviceId}/assign`, { userId }),
+    onSuccess: () => {
+      invalidateDevices();
+      toast({ title: "Device assigned" });
+    },
+    onError: onError("Assignment failed"),
+  });
+
+  const unassignMutation = useMutation({
+    mutationFn: (deviceId: string) => apiRequest("POST", `/api/admin/devices/${deviceId}/unassign`, {}),
+    onSuccess: () => {
+      invalidateDevices();
+      toast({ title: "Device unassigned" });
+    },
+    onError: onError("Unassign failed"),
+  });
+
+  const retireMutation = useMutation({
+    mutationFn: (deviceId: string) => apiRequest("PATCH", `/api/admin/devices/${deviceId}`, { status: "retired" }),
+    onSuccess: () => {
+      invalidateDevices();
+      toast({ title: "Device retired" });
+    },
+    onError: onError("Retire failed"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (deviceId: string) => apiRequest("DELETE", `/api/admin/devices/${deviceId}`),
+    onSuccess: () => {
+      invalidateDevices();
+      toast({ title: "Device deleted" });
+    },
+    onError: onError("Delete failed"),
+  });
+
+  const patientLabel = (userId: string) => patients.find((p) => p.id === userId)?.email || userId.substring(0, 8);
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <Cpu className="h-5 w-5 text-primary" />
+        <h2 className="text-xl font-semibold text-foreground">Device Fleet</h2>
+      </div>
+
+      <Form {...form}>
+        <form
+          onSubmit={form.handleSubmit((data) => createMutation.mutate(data))}
+          className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end mb-6"
+        >
+          <FormField
+            control={form.control}
+            name="deviceId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-sm font-medium">Device ID</FormLabel>
+                <FormControl>
+                  <Input {...field} placeholder="esp32_vitals_01" data-testid="input-device-id" />
+                </FormControl>
+                <FormMessage className="text-xs" />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-sm font-medium">Name</FormLabel>
+                <FormControl>
+                  <Input {...field} placeholder="Ward A monitor" data-testid="input-device-name" />
+                </FormControl>
+                <FormMessage className="text-xs" />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="model"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-sm font-medium">Model</FormLabel>
+                <FormControl>
+                  <Input {...field} value={field.value ?? ""} placeholder="ESP32 + MAX30105" data-testid="input-device-model" />
+                </FormControl>
+                <FormMessage className="text-xs" />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="groupName"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-sm font-medium">Group</FormLabel>
+                <FormControl>
+                  <Input {...field} value={field.value ?? ""} placeholder="ward-a" data-testid="input-device-group" />
+                </FormControl>
+                <FormMessage className="text-xs" />
+              </FormItem>
+            )}
+          />
+          <Button type="submit" disabled={createMutation.isPending} data-testid="button-register-device">
+            Register Device
+          </Button>
+        </form>
+      </Form>
+
+      {isLoading ? (
+        <Skeleton className="h-40" />
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Device ID</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Assigned Patient</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {!devices || devices.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    No devices registered yet.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                devices.map((device) => (
+                  <TableRow key={device.id} data-testid={`row-device-${device.id}`}>
+                    <TableCell className="font-mono text-xs">{device.deviceId}</TableCell>
+                    <TableCell>
+                      {device.name}
+                      {device.model && <span className="block text-xs text-muted-foreground">{device.model}</span>}
+                      {device.groupName && <span className="block text-xs text-muted-foreground">Group: {device.groupName}</span>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        variant="secondary"
+                        className={device.status === "active" ? "bg-vital-green/20 text-vital-green" : ""}
+                      >
+                        {device.status === "active" ? "Active" : "Retired"}
+                      </Badge>
+                      {device.status === "active" && !device.config.inSync && (
+                        <Badge variant="secondary" className="ml-1 bg-vital-yellow/20 text-vital-yellow">
+                          Config pending
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {device.activeAssignment ? (
+                        <div>
+                          <span>{patientLabel(device.activeAssignment.userId)}</span>
+                          <span className="block text-xs text-muted-foreground">
+                            since {new Date(device.activeAssignment.effectiveFrom).toLocaleString()}
+                            {device.activeAssignment.effectiveTo &&
+                              ` until ${new Date(device.activeAssignment.effectiveTo).toLocaleString()}`}
+                          </span>
+                        </div>
+                      ) : device.status === "active" ? (
+                        <Select
+                          value={selectedPatients[device.id] || ""}
+                          onValueChange={(value) => setSelectedPatients((prev) => ({ ...prev, [device.id]: value }))}
+                        >
+                          <SelectTrigger className="h-9 w-56" data-testid={`select-patient-${device.id}`}>
+                            <SelectValue placeholder="Select patient" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {patients.map((patient) => (
+                              <SelectItem key={patient.id} value={patient.id}>
+                                {patient.email}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-2">
+                        {device.activeAssignment ? (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => unassignMutation.mutate(device.id)}
+                            disabled={unassignMutation.isPending}
+                            data-testid={`button-unassign-${device.id}`}
+                          >
+                            <Unlink className="h-4 w-4 mr-1" />
+                            Unassign
+                          </Button>
+                        ) : device.status === "active" && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => assignMutation.mutate({ deviceId: device.id, userId: selectedPatients[device.id] })}
+                            disabled={!selectedPatients[device.id] || assignMutation.isPending}
+                            data-testid={`button-assign-${device.id}`}
+                          >
+                            <Link2 className="h-4 w-4 mr-1" />
+                            Assign
+                          </Button>
+                        )}
+                        {device.status === "active" && <DeviceConfigDialog device={device} />}
+                        {device.status === "active" && <DeviceCalibrationDialog device={device} />}
+                        {device.status === "active" && <DeviceCredentialsDialog device={device} />}
+                        {device.status === "active" && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => retireMutation.mutate(device.id)}
+                            disabled={retireMutation.isPending}
+                            data-testid={`button-retire-${device.id}`}
+                          >
+                            <Archive className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="text-destructive hover:text-destructive"
+                          onClick={() => deleteMutation.mutate(device.id)}
+                          disabled={deleteMutation.isPending}
+                          data-testid={`button-delete-${device.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </Card>
+  );
+}
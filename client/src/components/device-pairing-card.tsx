@@ -0,0 +1,89 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link2, CheckCircle2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { PairingCodeStatus } from "@shared/schema";
+
+function formatCountdown(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+export function DevicePairingCard() {
+  const { toast } = useToast();
+  const [codeId, setCodeId] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  // Poll until the device has used the code or it has run out
+  const { data: pairingCode } = useQuery<PairingCodeStatus>({
+    queryKey: [`/api/pairing-codes/${codeId}`],
+    enabled: !!codeId,
+    refetchInterval: (query) => (query.state.data?.status === "pending" ? 3000 : false),
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: (): Promise<PairingCodeStatus> => apiRequest("POST", "/api/pairing-codes"),
+    onSuccess: (created) => setCodeId(created.id),
+    onError: (error: Error) => {
+      toast({ title: "Could not create a pairing code", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const isPending = pairingCode?.status === "pending";
+
+  useEffect(() => {
+    if (!isPending) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isPending]);
+
+  const secondsLeft = pairingCode
+    ? Math.max(0, Math.round((new Date(pairingCode.expiresAt).getTime() - now) / 1000))
+    : 0;
+  const expired = pairingCode?.status === "expired" || (isPending && secondsLeft === 0);
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-start gap-4 mb-4">
+        <Link2 className="h-5 w-5 text-primary mt-1" />
+        <div className="flex-1">
+          <h3 className="text-base font-semibold">Pair a Monitor</h3>
+          <p className="text-sm text-muted-foreground mt-1">
+            Generate a code and enter it on your new monitor during setup. It links the monitor to your account.
+          </p>
+        </div>
+      </div>
+
+      {pairingCode?.status === "used" ? (
+        <div className="flex items-center gap-2 text-sm text-vital-green mb-4" data-testid="text-pairing-complete">
+          <CheckCircle2 className="h-4 w-4" />
+          Paired with {pairingCode.device?.name ?? "your monitor"}
+        </div>
+      ) : pairingCode && !expired ? (
+        <div className="mb-4">
+          <span className="text-4xl font-bold font-mono tracking-[0.3em]" data-testid="text-pairing-code">
+            {pairingCode.code}
+          </span>
+          <p className="text-sm text-muted-foreground mt-1" data-testid="text-pairing-expiry">
+            Expires in {formatCountdown(secondsLeft)}
+          </p>
+        </div>
+      ) : pairingCode ? (
+        <p className="text-sm text-muted-foreground mb-4">This code has expired. Generate a new one.</p>
+      ) : null}
+
+      <Button
+        variant="outline"
+        className="w-full sm:w-auto"
+        onClick={() => generateMutation.mutate()}
+        disabled={generateMutation.isPending}
+        data-testid="button-generate-pairing-code"
+      >
+        {isPending && !expired ? "Generate New Code" : "Generate Pairing Code"}
+      </Button>
+    </Card>
+  );
+}
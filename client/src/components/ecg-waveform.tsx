@@ -1,76 +1,250 @@
-import { useEffect, useRef } from "react";
+import { useEffect, useRef, useState } from "react";
+import { Pause, Play } from "lucide-react";
+import type { WaveformStrip } from "@shared/schema";
+
+// Draws a channel like a bedside monitor: the trace sweeps left to right at a fixed
+// paper speed over a millimetre grid, overwriting the previous pass behind an erase
+// bar. Only the trace canvas is touched per frame; the grid lives on its own canvas.
+
+// CSS defines 96 px per inch, so these are nominal millimetres on screen
+const PX_PER_MM = 96 / 25.4;
+const SPEEDS_MM_PER_SEC = [12.5, 25, 50];
+const DEFAULT_SPEED_MM_PER_SEC = 25;
+const GAINS = [0.5, 1, 2, 4];
+const ERASE_BAR_MM = 4;
+// Samples waiting longer than this are dropped so the trace stays near real time
+const MAX_LAG_SECONDS = 15;
+// Backlog kept when a frozen trace is resumed
+const RESUME_BACKLOG_SECONDS = 5;
+// Fitted signals fill this share of the half-height at gain 1
+const FIT_FILL = 0.8;
+
+const colorMap = {
+  cyan: "rgb(0, 255, 255)",
+  green: "rgb(0, 255, 0)",
+  yellow: "rgb(255, 255, 0)",
+  red: "rgb(255, 0, 0)",
+};
 
 interface ECGWaveformProps {
-  data?: number[];
+  strip?: WaveformStrip | null; // Latest window of the channel; missing or empty means no signal
   color: "cyan" | "green" | "yellow" | "red";
   label: string;
   value?: string | number;
   height?: number;
+  // Calibrated amplitude in mm per sample unit (10 for ECG in mV). Without it each
+  // window is scaled to fit, for signals like raw PPG counts that have no physical unit.
+  mmPerUnit?: number;
+  unit?: string; // Unit of calibrated samples, e.g. "mV"
+  invert?: boolean; // Draw larger sample values lower (PPG counts fall as blood volume rises)
+}
+
+// Mutable playback state, kept out of React so frames never wait on a render
+interface SweepState {
+  queue: number[]; // Amplitudes in mm at gain 1, oldest first
+  sampleRateHz: number;
+  lastEndMs: number | null; // End time of the newest sample received
+  x: number; // Cursor position in CSS px
+  lastY: number | null; // Where the trace left off; null starts a new line
+  owed: number; // Fractional samples due but not yet drawn
+  lastFrameMs: number | null;
+  width: number; // CSS px
+}
+
+// Amplitudes in mm at gain 1 for samples taken from a strip
+function toMillimetres(strip: WaveformStrip, samples: number[], height: number, mmPerUnit?: number, invert?: boolean): number[] {
+  const sign = invert ? -1 : 1;
+  if (mmPerUnit !== undefined) {
+    return samples.map((sample) => sign * sample * mmPerUnit);
+  }
+  const mean = strip.samples.reduce((sum, sample) => sum + sample, 0) / strip.samples.length;
+  const peak = Math.max(...strip.samples.map((sample) => Math.abs(sample - mean))) || 1;
+  const halfHeightMm = height / 2 / PX_PER_MM;
+  return samples.map((sample) => sign * ((sample - mean) / peak) * halfHeightMm * FIT_FILL);
+}
+
+function drawGrid(ctx: CanvasRenderingContext2D, width: number, height: number) {
+  ctx.clearRect(0, 0, width, height);
+  for (let mm = 0; mm * PX_PER_MM <= Math.max(width, height); mm++) {
+    ctx.strokeStyle = mm % 5 === 0 ? "rgba(255, 255, 255, 0.12)" : "rgba(255, 255, 255, 0.04)";
+    ctx.lineWidth = 1;
+    const offset = Math.round(mm * PX_PER_MM) + 0.5;
+    ctx.beginPath();
+    if (offset <= width) {
+      ctx.moveTo(offset, 0);
+      ctx.lineTo(offset, height);
+    }
+    if (offset <= height) {
+      ctx.moveTo(0, offset);
+      ctx.lineTo(width, offset);
+    }
+    ctx.stroke();
+  }
 }
 
-export function ECGWaveform({ data, color, label, value, height = 160 }: ECGWaveformProps) {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+export function ECGWaveform({ strip, color, label, value, height = 160, mmPerUnit, unit, invert }: ECGWaveformProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const gridRef = useRef<HTMLCanvasElement>(null);
+  const traceRef = useRef<HTMLCanvasElement>(null);
+  const [speed, setSpeed] = useState(DEFAULT_SPEED_MM_PER_SEC);
+  const [gain, setGain] = useState(1);
+  const [frozen, setFrozen] = useState(false);
+  const hasSignal = !!strip && strip.samples.length > 0;
 
-  const colorMap = {
-    cyan: "rgb(0, 255, 255)",
-    green: "rgb(0, 255, 0)",
-    yellow: "rgb(255, 255, 0)",
-    red: "rgb(255, 0, 0)",
+  const state = useRef<SweepState>({
+    queue: [],
+    sampleRateHz: 0,
+    lastEndMs: null,
+    x: 0,
+    lastY: null,
+    owed: 0,
+    lastFrameMs: null,
+    width: 0,
+  });
+  // Read by the animation loop, which outlives any single render
+  const settings = useRef({ speed, gain, frozen, color });
+  settings.current = { speed, gain, frozen, color };
+
+  const clearTrace = () => {
+    const ctx = traceRef.current?.getContext("2d");
+    ctx?.clearRect(0, 0, state.current.width, height);
+    state.current.x = 0;
+    state.current.lastY = null;
   };
 
-  useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return;
-
-    const draw = () => {
-      const width = canvas.width;
-      const height = canvas.height;
-
-      ctx.fillStyle = "rgba(0, 0, 0, 0.05)";
-      ctx.fillRect(0, 0, width, height);
-
-      ctx.strokeStyle = "rgba(255, 255, 255, 0.05)";
-      ctx.lineWidth = 0.5;
-      for (let x = 0; x < width; x += 20) {
-        ctx.beginPath();
-        ctx.moveTo(x, 0);
-        ctx.lineTo(x, height);
-        ctx.stroke();
+  // Sweeps samples onto the trace from the cursor, erasing just ahead of it
+  const drawSamples = (amplitudes: number[]) => {
+    const ctx = traceRef.current?.getContext("2d");
+    const sweep = state.current;
+    if (!ctx || sweep.width === 0 || amplitudes.length === 0) return;
+
+    const { speed, gain, color } = settings.current;
+    const pxPerSample = (speed * PX_PER_MM) / sweep.sampleRateHz;
+    const eraseFrom = sweep.x;
+    const eraseTo = sweep.x + amplitudes.length * pxPerSample + ERASE_BAR_MM * PX_PER_MM;
+    ctx.clearRect(eraseFrom, 0, Math.min(eraseTo, sweep.width) - eraseFrom, height);
+    if (eraseTo > sweep.width) ctx.clearRect(0, 0, eraseTo - sweep.width, height);
+
+    ctx.strokeStyle = colorMap[color];
+    ctx.lineWidth = 1.5;
+    ctx.lineJoin = "round";
+    ctx.beginPath();
+    let x = sweep.x;
+    let y = sweep.lastY;
+    if (y !== null) ctx.moveTo(x, y);
+    for (const amplitude of amplitudes) {
+      x += pxPerSample;
+      const nextY = Math.max(0, Math.min(height, height / 2 - amplitude * PX_PER_MM * gain));
+      if (x >= sweep.width) {
+        x -= sweep.width;
+        ctx.moveTo(x, nextY);
+      } else if (y === null) {
+        ctx.moveTo(x, nextY);
+      } else {
+        ctx.lineTo(x, nextY);
       }
-      for (let y = 0; y < height; y += 20) {
-        ctx.beginPath();
-        ctx.moveTo(0, y);
-        ctx.lineTo(width, y);
-        ctx.stroke();
+      y = nextY;
+    }
+    ctx.stroke();
+    sweep.x = x;
+    sweep.lastY = y;
+  };
+
+  // Canvas backing stores follow the element size and the screen's pixel density
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const resize = () => {
+      const width = container.clientWidth;
+      const ratio = window.devicePixelRatio || 1;
+      for (const canvas of [gridRef.current, traceRef.current]) {
+        if (!canvas) continue;
+        canvas.width = Math.round(width * ratio);
+        canvas.height = Math.round(height * ratio);
+        canvas.getContext("2d")?.setTransform(ratio, 0, 0, ratio, 0, 0);
       }
+      state.current.width = width;
+      const gridCtx = gridRef.current?.getContext("2d");
+      if (gridCtx) drawGrid(gridCtx, width, height);
+      clearTrace();
+    };
+
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [height]);
 
-      if (data && data.length > 0) {
-        ctx.strokeStyle = colorMap[color];
-        ctx.lineWidth = 2;
-        ctx.beginPath();
-        
-        const step = width / data.length;
-        data.forEach((point, index) => {
-          const x = index * step;
-          const y = height / 2 - (point * height) / 2;
-          if (index === 0) {
-            ctx.moveTo(x, y);
-          } else {
-            ctx.lineTo(x, y);
-          }
-        });
-        ctx.stroke();
+  // Plays queued samples at their real rate, however often frames come
+  useEffect(() => {
+    let frame = 0;
+    const tick = (now: number) => {
+      const sweep = state.current;
+      if (!settings.current.frozen && sweep.queue.length > 0 && sweep.lastFrameMs !== null) {
+        sweep.owed += ((now - sweep.lastFrameMs) / 1000) * sweep.sampleRateHz;
+        const due = Math.min(Math.floor(sweep.owed), sweep.queue.length);
+        sweep.owed -= due;
+        drawSamples(sweep.queue.splice(0, due));
+        if (sweep.queue.length === 0) sweep.owed = 0;
       }
+      sweep.lastFrameMs = now;
+      frame = requestAnimationFrame(tick);
     };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [height]);
 
-    draw();
-  }, [data, color]);
+  // Queues the part of each new window that follows what was already received
+  useEffect(() => {
+    const sweep = state.current;
+    if (!strip || strip.samples.length === 0) {
+      sweep.queue = [];
+      sweep.lastEndMs = null;
+      clearTrace();
+      return;
+    }
+
+    const endMs = new Date(strip.endedAt).getTime();
+    const continues = sweep.lastEndMs !== null && strip.sampleRateHz === sweep.sampleRateHz && endMs >= sweep.lastEndMs;
+    if (!continues) {
+      // First window, or the source changed: show the most recent screenful at once
+      sweep.sampleRateHz = strip.sampleRateHz;
+      sweep.queue = [];
+      sweep.owed = 0;
+      clearTrace();
+      const screenSamples = Math.floor((sweep.width / (settings.current.speed * PX_PER_MM)) * strip.sampleRateHz);
+      const recent = strip.samples.slice(-Math.max(1, screenSamples));
+      drawSamples(toMillimetres(strip, recent, height, mmPerUnit, invert));
+    } else {
+      const newCount = Math.min(strip.samples.length, Math.round(((endMs - sweep.lastEndMs!) / 1000) * strip.sampleRateHz));
+      if (newCount > 0) {
+        sweep.queue.push(...toMillimetres(strip, strip.samples.slice(-newCount), height, mmPerUnit, invert));
+        const maxQueued = MAX_LAG_SECONDS * strip.sampleRateHz;
+        if (sweep.queue.length > maxQueued) sweep.queue.splice(0, sweep.queue.length - maxQueued);
+      }
+    }
+    sweep.lastEndMs = endMs;
+  }, [strip, height, mmPerUnit, invert]);
+
+  const changeSpeed = () => {
+    setSpeed(SPEEDS_MM_PER_SEC[(SPEEDS_MM_PER_SEC.indexOf(speed) + 1) % SPEEDS_MM_PER_SEC.length]);
+    // The old pass was drawn at another scale
+    clearTrace();
+  };
+
+  const toggleFrozen = () => {
+    if (frozen) {
+      const sweep = state.current;
+      const keep = RESUME_BACKLOG_SECONDS * sweep.sampleRateHz;
+      if (sweep.queue.length > keep) sweep.queue.splice(0, sweep.queue.length - keep);
+      sweep.owed = 0;
+    }
+    setFrozen(!frozen);
+  };
 
   return (
-    <div className="relative bg-monitor-bg rounded-md border border-monitor-grid overflow-hidden">
+    <div ref={containerRef} className="relative bg-monitor-bg rounded-md border border-monitor-grid overflow-hidden" style={{ height: `${height}px` }}>
       <div className="absolute top-2 left-3 z-10">
         <span className={`text-xs font-semibold uppercase tracking-wider text-vital-${color}`}>
           {label}
@@ -83,13 +257,45 @@ export function ECGWaveform({ data, color, label, value, height = 160 }: ECGWave
           </span>
         </div>
       )}
-      <canvas
-        ref={canvasRef}
-        width={800}
-        height={height}
-        className="w-full"
-        style={{ height: `${height}px` }}
-      />
+      {!hasSignal && (
+        <div className="absolute inset-0 flex items-center justify-center z-10">
+          <span className="text-sm font-semibold uppercase tracking-wider text-muted-foreground" data-testid={`text-no-signal-${label.toLowerCase()}`}>
+            No signal
+          </span>
+        </div>
+      )}
+      {hasSignal && (
+        <div className="absolute bottom-1 left-3 right-3 z-10 flex items-center justify-between text-[10px] font-mono text-muted-foreground">
+          <span data-testid={`text-scale-${label.toLowerCase()}`}>
+            {mmPerUnit !== undefined ? `${mmPerUnit * gain} mm/${unit ?? "unit"}` : `auto ×${gain}`}
+            {frozen && <span className="ml-2 text-vital-yellow">FROZEN</span>}
+          </span>
+          <span className="flex items-center gap-2">
+            <button type="button" onClick={changeSpeed} className="hover:text-foreground" data-testid={`button-speed-${label.toLowerCase()}`}>
+              {speed} mm/s
+            </button>
+            <button
+              type="button"
+              onClick={() => setGain(GAINS[(GAINS.indexOf(gain) + 1) % GAINS.length])}
+              className="hover:text-foreground"
+              data-testid={`button-gain-${label.toLowerCase()}`}
+            >
+              ×{gain}
+            </button>
+            <button
+              type="button"
+              onClick={toggleFrozen}
+              className="hover:text-foreground"
+              aria-label={frozen ? "Resume" : "Freeze"}
+              data-testid={`button-freeze-${label.toLowerCase()}`}
+            >
+              {frozen ? <Play className="h-3 w-3" /> : <Pause className="h-3 w-3" />}
+            </button>
+          </span>
+        </div>
+      )}
+      <canvas ref={gridRef} className="absolute inset-0 w-full" style={{ height: `${height}px` }} />
+      <canvas ref={traceRef} className="absolute inset-0 w-full" style={{ height: `${height}px` }} />
     </div>
   );
 }
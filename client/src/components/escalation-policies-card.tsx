@@ -0,0 +1,265 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Plus, Siren, Trash2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  alarmPriorities,
+  escalationTargets,
+  type EscalationPolicy,
+  type EscalationPolicyData,
+  type EscalationStep,
+  type EscalationTarget,
+  type OnCallSchedule,
+  type User,
+} from "@shared/schema";
+
+const POLICIES_KEY = "/api/admin/escalation-policies";
+
+export const escalationTargetLabels: Record<EscalationTarget, string> = {
+  assigned_clinician: "Assigned clinician",
+  on_call: "On-call clinician",
+  admins: "All admins",
+  user: "A specific clinician",
+};
+
+const emptyStep: EscalationStep = { delayMinutes: 0, target: "assigned_clinician", scheduleId: null, userId: null };
+
+const emptyPolicy: EscalationPolicyData = { name: "", enabled: true, priorities: ["high"], steps: [emptyStep] };
+
+interface EscalationPoliciesCardProps {
+  clinicians: Omit<User, "password">[];
+  schedules: OnCallSchedule[];
+}
+
+export function EscalationPoliciesCard({ clinicians, schedules }: EscalationPoliciesCardProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<EscalationPolicyData>(emptyPolicy);
+  // Policy being edited; null while creating a new one
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const { data: policies, isLoading } = useQuery<EscalationPolicy[]>({
+    queryKey: [POLICIES_KEY],
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: [POLICIES_KEY] });
+
+  const saveMutation = useMutation({
+    mutationFn: ({ id, policy }: { id: string | null; policy: EscalationPolicyData }) =>
+      id ? apiRequest("PUT", `${POLICIES_KEY}/${id}`, policy) : apiRequest("POST", POLICIES_KEY, policy),
+    onSuccess: (_policy, { id }) => {
+      setDraft(emptyPolicy);
+      setEditingId(null);
+      invalidate();
+      toast({ title: id ? "Escalation policy saved" : "Escalation policy created" });
+    },
+    onError: onError("Could not save escalation policy"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `${POLICIES_KEY}/${id}`),
+    onSuccess: invalidate,
+    onError: onError("Could not delete escalation policy"),
+  });
+
+  const edit = (policy: EscalationPolicy) => {
+    setEditingId(policy.id);
+    setDraft({ name: policy.name, enabled: policy.enabled, priorities: policy.priorities, steps: policy.steps });
+  };
+
+  const updateStep = (index: number, changes: Partial<EscalationStep>) =>
+    setDraft((prev) => ({ ...prev, steps: prev.steps.map((step, i) => (i === index ? { ...step, ...changes } : step)) }));
+
+  const togglePriority = (priority: EscalationPolicyData["priorities"][number], checked: boolean) =>
+    setDraft((prev) => ({
+      ...prev,
+      priorities: checked ? [...prev.priorities, priority] : prev.priorities.filter((p) => p !== priority),
+    }));
+
+  const clinicianLabel = (userId: string | null) => clinicians.find((c) => c.id === userId)?.email || "unknown clinician";
+  const scheduleLabel = (scheduleId: string | null) => schedules.find((s) => s.id === scheduleId)?.name || "unknown schedule";
+
+  const describeStep = (step: EscalationStep) => {
+    const who =
+      step.target === "on_call" ? `on call for ${scheduleLabel(step.scheduleId)}`
+      : step.target === "user" ? clinicianLabel(step.userId)
+      : escalationTargetLabels[step.target].toLowerCase();
+    return `after ${step.delayMinutes} min: ${who}`;
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-start gap-4 mb-4">
+        <Siren className="h-5 w-5 text-primary mt-1" />
+        <div className="flex-1">
+          <h2 className="text-xl font-semibold text-foreground">Escalation Policies</h2>
+          <p className="text-sm text-muted-foreground mt-1">
+            While an alarm stays unacknowledged, the policy covering its priority notifies each step in turn. A step's
+            delay counts from the previous step, or from the alarm for the first one.
+          </p>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-32 mb-6" />
+      ) : !policies || policies.length === 0 ? (
+        <p className="text-sm text-muted-foreground mb-6">No escalation policies yet; alarms are not escalated.</p>
+      ) : (
+        <div className="space-y-3 mb-6">
+          {policies.map((policy) => (
+            <div key={policy.id} className="rounded-md border p-4 flex flex-wrap items-start gap-4" data-testid={`policy-${policy.id}`}>
+              <div className="flex-1 min-w-64">
+                <div className="flex flex-wrap items-center gap-2">
+                  <p className="font-semibold">{policy.name}</p>
+                  {policy.priorities.map((priority) => (
+                    <Badge key={priority} variant="outline" className="capitalize">{priority}</Badge>
+                  ))}
+                  {!policy.enabled && <Badge variant="secondary">Disabled</Badge>}
+                </div>
+                <ol className="text-sm text-muted-foreground mt-2 list-decimal list-inside">
+                  {policy.steps.map((step, index) => (
+                    <li key={index}>{describeStep(step)}</li>
+                  ))}
+                </ol>
+              </div>
+              <Button size="sm" variant="outline" onClick={() => edit(policy)} data-testid={`button-edit-policy-${policy.id}`}>
+                Edit
+              </Button>
+              <Button size="icon" variant="ghost" onClick={() => deleteMutation.mutate(policy.id)} disabled={deleteMutation.isPending} data-testid={`button-delete-policy-${policy.id}`}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="rounded-md border p-4 space-y-4">
+        <p className="text-sm font-semibold">{editingId ? "Edit policy" : "New policy"}</p>
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1 flex-1 min-w-48">
+            <Label htmlFor="input-policy-name" className="text-sm">Name</Label>
+            <Input
+              id="input-policy-name"
+              value={draft.name}
+              onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+              placeholder="Critical alarms"
+              data-testid="input-policy-name"
+            />
+          </div>
+          <div className="flex items-center gap-4 h-10">
+            {alarmPriorities.map((priority) => (
+              <label key={priority} className="flex items-center gap-2 text-sm capitalize">
+                <Checkbox
+                  checked={draft.priorities.includes(priority)}
+                  onCheckedChange={(checked) => togglePriority(priority, checked === true)}
+                  data-testid={`checkbox-policy-priority-${priority}`}
+                />
+                {priority}
+              </label>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-sm h-10">
+            <Switch checked={draft.enabled} onCheckedChange={(checked) => setDraft((prev) => ({ ...prev, enabled: checked }))} />
+            Enabled
+          </label>
+        </div>
+
+        <div className="space-y-2">
+          {draft.steps.map((step, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2" data-testid={`row-step-${index}`}>
+              <span className="text-sm w-14">Step {index + 1}</span>
+              <Input
+                type="number"
+                min={0}
+                className="h-8 w-20"
+                value={step.delayMinutes}
+                onChange={(e) => updateStep(index, { delayMinutes: Number(e.target.value) })}
+                data-testid={`input-step-delay-${index}`}
+              />
+              <span className="text-sm text-muted-foreground">min, then notify</span>
+              <Select value={step.target} onValueChange={(value) => updateStep(index, { target: value as EscalationTarget })}>
+                <SelectTrigger className="h-8 w-48" data-testid={`select-step-target-${index}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {escalationTargets.map((target) => (
+                    <SelectItem key={target} value={target}>{escalationTargetLabels[target]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {step.target === "on_call" && (
+                <Select value={step.scheduleId ?? ""} onValueChange={(value) => updateStep(index, { scheduleId: value })}>
+                  <SelectTrigger className="h-8 w-48" data-testid={`select-step-schedule-${index}`}>
+                    <SelectValue placeholder="Schedule" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {schedules.map((schedule) => (
+                      <SelectItem key={schedule.id} value={schedule.id}>{schedule.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {step.target === "user" && (
+                <Select value={step.userId ?? ""} onValueChange={(value) => updateStep(index, { userId: value })}>
+                  <SelectTrigger className="h-8 w-56" data-testid={`select-step-user-${index}`}>
+                    <SelectValue placeholder="Clinician" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {clinicians.map((clinician) => (
+                      <SelectItem key={clinician.id} value={clinician.id}>{clinician.email}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => setDraft((prev) => ({ ...prev, steps: prev.steps.filter((_, i) => i !== index) }))}
+                disabled={draft.steps.length === 1}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setDraft((prev) => ({ ...prev, steps: [...prev.steps, { ...emptyStep, delayMinutes: 5 }] }))}
+            disabled={draft.steps.length >= 10}
+            data-testid="button-add-step"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Step
+          </Button>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          {editingId && (
+            <Button variant="outline" onClick={() => { setEditingId(null); setDraft(emptyPolicy); }}>
+              Cancel
+            </Button>
+          )}
+          <Button
+            onClick={() => saveMutation.mutate({ id: editingId, policy: draft })}
+            disabled={saveMutation.isPending}
+            data-testid="button-save-policy"
+          >
+            {editingId ? "Save Policy" : "Create Policy"}
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+}
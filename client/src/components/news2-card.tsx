@@ -0,0 +1,75 @@
+import { ShieldAlert } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { news2BandLabels } from "@shared/news2";
+import type { News2Band, News2Parameter, News2Score } from "@shared/schema";
+
+export const news2BandStyles: Record<News2Band, { badge: string; text: string }> = {
+  high: { badge: "bg-vital-red/20 text-vital-red", text: "text-vital-red" },
+  medium: { badge: "bg-vital-red/20 text-vital-red", text: "text-vital-red" },
+  "low-medium": { badge: "bg-vital-yellow/20 text-vital-yellow", text: "text-vital-yellow" },
+  low: { badge: "bg-vital-green/20 text-vital-green", text: "text-vital-green" },
+};
+
+const parameterLabels: Record<News2Parameter, string> = {
+  respiratory_rate: "Respiration",
+  spo2: "SpO2",
+  supplemental_oxygen: "Air or oxygen",
+  systolic_bp: "Systolic BP",
+  heart_rate: "Pulse",
+  temperature: "Temperature",
+};
+
+// Aggregate score with its band, e.g. "NEWS2 3 · Low-medium"; "incomplete" when
+// parameters were missing
+export function News2Badge({ news2, testId }: { news2: Pick<News2Score, "score" | "band" | "missing">; testId?: string }) {
+  return (
+    <Badge variant="secondary" className={news2BandStyles[news2.band].badge} data-testid={testId}>
+      NEWS2 {news2.score} · {news2BandLabels[news2.band]}
+      {news2.missing.length > 0 && <span className="ml-1 font-normal opacity-80">(incomplete)</span>}
+    </Badge>
+  );
+}
+
+export function News2Card({ news2 }: { news2: News2Score | undefined }) {
+  if (!news2) return null;
+  const style = news2BandStyles[news2.band];
+
+  return (
+    <Card className="p-6" data-testid="card-news2">
+      <div className="flex flex-wrap items-start gap-6">
+        <div className="flex items-center gap-4">
+          <ShieldAlert className={`h-8 w-8 ${style.text}`} />
+          <div>
+            <p className="text-sm font-semibold uppercase tracking-wider text-muted-foreground">NEWS2</p>
+            <p className={`text-4xl font-bold font-mono ${style.text}`} data-testid="text-news2-score">{news2.score}</p>
+          </div>
+        </div>
+
+        <div className="flex-1 min-w-64 space-y-2">
+          <Badge variant="secondary" className={style.badge} data-testid="badge-news2-band">
+            {news2BandLabels[news2.band]} clinical risk
+          </Badge>
+          <p className="text-sm text-foreground">{news2.response}</p>
+          {news2.missing.length > 0 && (
+            <p className="text-xs text-muted-foreground" data-testid="text-news2-missing">
+              Not scored: {news2.missing.map((parameter) => parameterLabels[parameter]).join(", ")}. The score may
+              understate the risk.
+            </p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-3 gap-x-6 gap-y-1 text-sm">
+          {(Object.keys(parameterLabels) as News2Parameter[]).map((parameter) => (
+            <div key={parameter} className="flex justify-between gap-3">
+              <span className="text-muted-foreground">{parameterLabels[parameter]}</span>
+              <span className={`font-mono font-semibold ${news2.parameters[parameter] === 3 ? "text-vital-red" : ""}`}>
+                {news2.parameters[parameter] ?? "—"}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,235 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Bell } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  alarmPriorities,
+  type AlarmPriority,
+  type Notification,
+  type NotificationChannel,
+  type NotificationPreferencesData,
+  type NotificationSettings,
+} from "@shared/schema";
+
+// Delivery status is updated by the server's outbox worker
+const NOTIFICATIONS_REFRESH_MS = 10 * 1000;
+
+const priorityLabels: Record<AlarmPriority, string> = {
+  high: "High priority only",
+  medium: "Medium and high",
+  low: "All alarms",
+};
+
+const statusStyles: Record<string, string> = {
+  sent: "bg-vital-green/20 text-vital-green",
+  pending: "bg-vital-yellow/20 text-vital-yellow",
+  failed: "bg-vital-red/20 text-vital-red",
+};
+
+// Destinations are edited as text; a blank one is saved as null
+type Draft = Omit<NotificationPreferencesData, "email" | "phone" | "webhookUrl"> & {
+  email: string;
+  phone: string;
+  webhookUrl: string;
+};
+
+function toDraft(preferences: NotificationPreferencesData): Draft {
+  return {
+    ...preferences,
+    email: preferences.email ?? "",
+    phone: preferences.phone ?? "",
+    webhookUrl: preferences.webhookUrl ?? "",
+  };
+}
+
+function fromDraft(draft: Draft): NotificationPreferencesData {
+  return {
+    ...draft,
+    email: draft.email.trim() || null,
+    phone: draft.phone.trim() || null,
+    webhookUrl: draft.webhookUrl.trim() || null,
+  };
+}
+
+// Which alarms reach the user, and on which channels. The main switch turns them all off.
+export function NotificationPreferencesCard() {
+  const { toast } = useToast();
+  const userId = localStorage.getItem("userId");
+  const settingsKey = `/api/users/${userId}/notification-preferences`;
+  const notificationsKey = `/api/users/${userId}/notifications`;
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  const { data: settings, isLoading } = useQuery<NotificationSettings>({
+    queryKey: [settingsKey],
+    enabled: !!userId,
+  });
+
+  const { data: recent } = useQuery<Notification[]>({
+    queryKey: [notificationsKey],
+    enabled: !!userId,
+    refetchInterval: NOTIFICATIONS_REFRESH_MS,
+  });
+
+  useEffect(() => {
+    if (settings) setDraft(toDraft(settings.preferences));
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: (preferences: NotificationPreferencesData) => apiRequest("PUT", settingsKey, preferences),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [settingsKey] });
+      toast({ title: "Notification preferences saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save notification preferences", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `${settingsKey}/test`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [notificationsKey] });
+      toast({ title: "Test notification sent", description: "Check the list below for its delivery status" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not send a test notification", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const update = (changes: Partial<Draft>) => setDraft((prev) => prev && { ...prev, ...changes });
+
+  const channelRow = (
+    channel: NotificationChannel,
+    label: string,
+    enabledKey: "emailEnabled" | "smsEnabled" | "webhookEnabled",
+    destinationKey: "email" | "phone" | "webhookUrl",
+    placeholder: string,
+  ) => {
+    const available = settings!.availableChannels.includes(channel);
+    return (
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4">
+        <div className="flex items-center gap-3 w-32">
+          <Switch
+            id={`switch-notify-${channel}`}
+            checked={draft![enabledKey]}
+            onCheckedChange={(checked) => update({ [enabledKey]: checked })}
+            disabled={!available || !draft!.enabled}
+            data-testid={`switch-notify-${channel}`}
+          />
+          <Label htmlFor={`switch-notify-${channel}`} className="text-sm">{label}</Label>
+        </div>
+        {available ? (
+          <Input
+            className="h-8 flex-1"
+            value={draft![destinationKey]}
+            placeholder={placeholder}
+            onChange={(e) => update({ [destinationKey]: e.target.value })}
+            disabled={!draft!.enabled}
+            data-testid={`input-notify-${channel}`}
+          />
+        ) : (
+          <span className="text-xs text-muted-foreground">Not configured on this server</span>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div className="flex items-start gap-4">
+          <Bell className="h-5 w-5 text-primary mt-1" />
+          <div>
+            <Label htmlFor="notifications" className="text-base font-semibold cursor-pointer">
+              Notifications
+            </Label>
+            <p className="text-sm text-muted-foreground mt-1">
+              Get alarms by email, SMS or webhook, even when the app is closed
+            </p>
+          </div>
+        </div>
+        {draft && (
+          <Switch
+            id="notifications"
+            checked={draft.enabled}
+            onCheckedChange={(checked) => update({ enabled: checked })}
+            data-testid="switch-notifications"
+          />
+        )}
+      </div>
+
+      {isLoading || !settings || !draft ? (
+        <Skeleton className="h-40" />
+      ) : (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="select-min-priority" className="text-sm">Alarms to send</Label>
+            <Select
+              value={draft.minPriority}
+              onValueChange={(value) => update({ minPriority: value as AlarmPriority })}
+              disabled={!draft.enabled}
+            >
+              <SelectTrigger id="select-min-priority" className="w-56" data-testid="select-min-priority">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[...alarmPriorities].reverse().map((priority) => (
+                  <SelectItem key={priority} value={priority}>{priorityLabels[priority]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-3">
+            {channelRow("email", "Email", "emailEnabled", "email", settings.accountEmail)}
+            {channelRow("sms", "SMS", "smsEnabled", "phone", settings.accountPhone)}
+            {channelRow("webhook", "Webhook", "webhookEnabled", "webhookUrl", "https://example.com/alarms")}
+          </div>
+
+          <div className="flex flex-col sm:flex-row justify-end gap-2">
+            <Button
+              variant="outline"
+              onClick={() => testMutation.mutate()}
+              disabled={testMutation.isPending}
+              data-testid="button-test-notification"
+            >
+              Send Test
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate(fromDraft(draft))}
+              disabled={saveMutation.isPending}
+              data-testid="button-save-notifications"
+            >
+              Save Preferences
+            </Button>
+          </div>
+
+          {recent && recent.length > 0 && (
+            <div className="border-t pt-4 space-y-2">
+              <p className="text-sm font-semibold">Recent notifications</p>
+              {recent.slice(0, 5).map((notification) => (
+                <div key={notification.id} className="flex items-center gap-3 text-sm" data-testid={`row-notification-${notification.id}`}>
+                  <Badge variant="secondary" className={statusStyles[notification.status]}>{notification.status}</Badge>
+                  <span className="uppercase text-xs text-muted-foreground w-16">{notification.channel}</span>
+                  <span className="flex-1 truncate" title={notification.lastError ?? undefined}>{notification.subject}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {notification.createdAt && new Date(notification.createdAt).toLocaleString()}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
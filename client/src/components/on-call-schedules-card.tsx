@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CalendarClock, Trash2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { OnCallSchedule, User } from "@shared/schema";
+
+const SCHEDULES_KEY = "/api/admin/on-call-schedules";
+
+type OverrideDraft = { userId: string; startsAt: string; endsAt: string; reason: string };
+
+const emptyOverride: OverrideDraft = { userId: "", startsAt: "", endsAt: "", reason: "" };
+
+// datetime-local inputs are in local time; the API takes ISO timestamps
+const toIso = (local: string) => new Date(local).toISOString();
+
+export function OnCallSchedulesCard({ clinicians }: { clinicians: Omit<User, "password">[] }) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [rotationStart, setRotationStart] = useState("");
+  // In the order they were ticked, which is the rotation order
+  const [members, setMembers] = useState<string[]>([]);
+  const [overrides, setOverrides] = useState<Record<string, OverrideDraft>>({});
+
+  const { data: schedules, isLoading } = useQuery<OnCallSchedule[]>({
+    queryKey: [SCHEDULES_KEY],
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: [SCHEDULES_KEY] });
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest("POST", SCHEDULES_KEY, { name, rotationStart: toIso(rotationStart), members }),
+    onSuccess: () => {
+      setName("");
+      setRotationStart("");
+      setMembers([]);
+      invalidate();
+      toast({ title: "On-call schedule created" });
+    },
+    onError: onError("Could not create schedule"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `${SCHEDULES_KEY}/${id}`),
+    onSuccess: invalidate,
+    onError: onError("Could not delete schedule"),
+  });
+
+  const addOverrideMutation = useMutation({
+    mutationFn: ({ scheduleId, draft }: { scheduleId: string; draft: OverrideDraft }) =>
+      apiRequest("POST", `${SCHEDULES_KEY}/${scheduleId}/overrides`, {
+        userId: draft.userId,
+        startsAt: toIso(draft.startsAt),
+        endsAt: toIso(draft.endsAt),
+        reason: draft.reason || undefined,
+      }),
+    onSuccess: (_schedule, { scheduleId }) => {
+      setOverrides((prev) => ({ ...prev, [scheduleId]: emptyOverride }));
+      invalidate();
+      toast({ title: "Override added" });
+    },
+    onError: onError("Could not add override"),
+  });
+
+  const removeOverrideMutation = useMutation({
+    mutationFn: ({ scheduleId, overrideId }: { scheduleId: string; overrideId: string }) =>
+      apiRequest("DELETE", `${SCHEDULES_KEY}/${scheduleId}/overrides/${overrideId}`),
+    onSuccess: invalidate,
+    onError: onError("Could not remove override"),
+  });
+
+  const clinicianLabel = (userId: string) => clinicians.find((c) => c.id === userId)?.email || userId.substring(0, 8);
+
+  const toggleMember = (userId: string, checked: boolean) =>
+    setMembers((prev) => (checked ? [...prev, userId] : prev.filter((id) => id !== userId)));
+
+  const updateOverride = (scheduleId: string, changes: Partial<OverrideDraft>) =>
+    setOverrides((prev) => ({ ...prev, [scheduleId]: { ...(prev[scheduleId] ?? emptyOverride), ...changes } }));
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-start gap-4 mb-4">
+        <CalendarClock className="h-5 w-5 text-primary mt-1" />
+        <div className="flex-1">
+          <h2 className="text-xl font-semibold text-foreground">On-call Schedules</h2>
+          <p className="text-sm text-muted-foreground mt-1">
+            Members take turns a week at a time from the rotation start. An override puts someone else on call for a
+            period.
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end mb-6">
+        <div className="space-y-1">
+          <Label htmlFor="input-schedule-name" className="text-sm">Name</Label>
+          <Input id="input-schedule-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Ward A nights" data-testid="input-schedule-name" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="input-rotation-start" className="text-sm">Rotation start</Label>
+          <Input id="input-rotation-start" type="datetime-local" value={rotationStart} onChange={(e) => setRotationStart(e.target.value)} data-testid="input-rotation-start" />
+        </div>
+        <Button
+          onClick={() => createMutation.mutate()}
+          disabled={createMutation.isPending || !name || !rotationStart || members.length === 0}
+          data-testid="button-create-schedule"
+        >
+          Add Schedule
+        </Button>
+        <div className="md:col-span-3 flex flex-wrap gap-4">
+          {clinicians.map((clinician) => (
+            <label key={clinician.id} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={members.includes(clinician.id)}
+                onCheckedChange={(checked) => toggleMember(clinician.id, checked === true)}
+                data-testid={`checkbox-member-${clinician.id}`}
+              />
+              {clinician.email}
+              {members.includes(clinician.id) && (
+                <span className="text-xs text-muted-foreground">#{members.indexOf(clinician.id) + 1}</span>
+              )}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-32" />
+      ) : !schedules || schedules.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No on-call schedules yet.</p>
+      ) : (
+        <div className="space-y-4">
+          {schedules.map((schedule) => {
+            const draft = overrides[schedule.id] ?? emptyOverride;
+            return (
+              <div key={schedule.id} className="rounded-md border p-4 space-y-3" data-testid={`schedule-${schedule.id}`}>
+                <div className="flex flex-wrap items-center gap-3">
+                  <p className="font-semibold flex-1">{schedule.name}</p>
+                  {schedule.onCallUserId ? (
+                    <Badge variant="secondary" className="bg-vital-green/20 text-vital-green" data-testid={`badge-on-call-${schedule.id}`}>
+                      On call: {clinicianLabel(schedule.onCallUserId)} until {new Date(schedule.onCallUntil!).toLocaleString()}
+                    </Badge>
+                  ) : (
+                    <Badge variant="outline">Nobody on call</Badge>
+                  )}
+                  <Button size="icon" variant="ghost" onClick={() => deleteMutation.mutate(schedule.id)} disabled={deleteMutation.isPending} data-testid={`button-delete-schedule-${schedule.id}`}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Weekly from {new Date(schedule.rotationStart).toLocaleString()}:{" "}
+                  {schedule.members.map((member, index) => `${index + 1}. ${clinicianLabel(member)}`).join(", ")}
+                </p>
+
+                {schedule.overrides.length > 0 && (
+                  <div className="space-y-1">
+                    {schedule.overrides.map((override) => (
+                      <div key={override.id} className="flex items-center gap-3 text-sm">
+                        <span className="flex-1">
+                          {clinicianLabel(override.userId)} from {new Date(override.startsAt).toLocaleString()} to{" "}
+                          {new Date(override.endsAt).toLocaleString()}
+                          {override.reason && <span className="text-muted-foreground"> · {override.reason}</span>}
+                        </span>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => removeOverrideMutation.mutate({ scheduleId: schedule.id, overrideId: override.id })}
+                          disabled={removeOverrideMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-5 gap-2 items-center">
+                  <Select value={draft.userId} onValueChange={(value) => updateOverride(schedule.id, { userId: value })}>
+                    <SelectTrigger className="h-8" data-testid={`select-override-user-${schedule.id}`}>
+                      <SelectValue placeholder="Cover with…" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {clinicians.map((clinician) => (
+                        <SelectItem key={clinician.id} value={clinician.id}>{clinician.email}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input className="h-8" type="datetime-local" value={draft.startsAt} onChange={(e) => updateOverride(schedule.id, { startsAt: e.target.value })} />
+                  <Input className="h-8" type="datetime-local" value={draft.endsAt} onChange={(e) => updateOverride(schedule.id, { endsAt: e.target.value })} />
+                  <Input className="h-8" value={draft.reason} placeholder="Reason (optional)" onChange={(e) => updateOverride(schedule.id, { reason: e.target.value })} />
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => addOverrideMutation.mutate({ scheduleId: schedule.id, draft })}
+                    disabled={addOverrideMutation.isPending || !draft.userId || !draft.startsAt || !draft.endsAt}
+                    data-testid={`button-add-override-${schedule.id}`}
+                  >
+                    Add Override
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+}
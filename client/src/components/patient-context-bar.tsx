@@ -0,0 +1,70 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { ArrowLeft } from "lucide-react";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { User } from "@shared/schema";
+
+export const patientSections = [
+  { path: "dashboard", title: "Dashboard" },
+  { path: "records", title: "Health Records" },
+  { path: "profile", title: "Profile" },
+  { path: "ai-analysis", title: "AI Analysis" },
+  { path: "alarms", title: "Alarms" },
+] as const;
+
+// Header shown above a patient page an admin opened, naming the patient and linking
+// to their other pages
+export function PatientContextBar({ patientId }: { patientId: string }) {
+  const [location] = useLocation();
+  const { data: patient, isLoading } = useQuery<Omit<User, "password">>({
+    queryKey: [`/api/users/${patientId}`],
+  });
+
+  return (
+    <div className="border-b bg-card/50 px-6 py-3 flex flex-wrap items-center gap-4" data-testid="patient-context-bar">
+      <Button variant="ghost" size="sm" asChild>
+        <Link href="/central-station" data-testid="link-back-central-station">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Central Station
+        </Link>
+      </Button>
+
+      {isLoading ? (
+        <Skeleton className="h-10 w-64" />
+      ) : patient ? (
+        <div className="flex items-center gap-3">
+          <Avatar className="h-9 w-9">
+            <AvatarFallback className="text-xs bg-primary text-primary-foreground">
+              {patient.email.substring(0, 2).toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+          <div>
+            <p className="font-semibold text-foreground leading-tight" data-testid="text-context-patient">{patient.email}</p>
+            <p className="text-xs text-muted-foreground">
+              {patient.gender} · {patient.phone} · ID {patient.id.substring(0, 8)}
+            </p>
+          </div>
+          <Badge variant="outline">
+            {patient.bloodGroup === "Others" ? patient.customBloodGroup : patient.bloodGroup}
+          </Badge>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">Patient not found</p>
+      )}
+
+      <nav className="flex gap-1 ml-auto">
+        {patientSections.map((section) => {
+          const href = `/patients/${patientId}/${section.path}`;
+          return (
+            <Button key={section.path} variant={location === href ? "secondary" : "ghost"} size="sm" asChild>
+              <Link href={href} data-testid={`link-patient-${section.path}`}>{section.title}</Link>
+            </Button>
+          );
+        })}
+      </nav>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { Line, LineChart, ResponsiveContainer, YAxis } from "recharts";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { News2Badge } from "@/components/news2-card";
+import { classifySnapshot, isStale, monitoringState, type MonitoringState, type VitalSeverity } from "@shared/clinical-ranges";
+import { vitalMetrics, type CentralStationTile, type TrendPoint, type VitalMetric, type VitalsSnapshot } from "@shared/schema";
+
+const TILE_METRICS: VitalMetric[] = ["heart_rate", "spo2", "temperature"];
+
+const stateStyles: Record<MonitoringState, { label: string; card: string; badge: string }> = {
+  critical: { label: "Critical", card: "border-vital-red", badge: "bg-vital-red/20 text-vital-red" },
+  warning: { label: "Warning", card: "border-vital-yellow", badge: "bg-vital-yellow/20 text-vital-yellow" },
+  normal: { label: "Normal", card: "border-vital-green/40", badge: "bg-vital-green/20 text-vital-green" },
+  stale: { label: "No recent data", card: "border-muted opacity-60", badge: "bg-muted text-muted-foreground" },
+  "no-data": { label: "No data", card: "border-muted opacity-60", badge: "bg-muted text-muted-foreground" },
+};
+
+const valueStyles: Record<VitalSeverity, string> = {
+  critical: "text-vital-red",
+  warning: "text-vital-yellow",
+  normal: "text-foreground",
+};
+
+const trendColors: Record<VitalSeverity, string> = {
+  critical: "hsl(var(--vital-red))",
+  warning: "hsl(var(--vital-yellow))",
+  normal: "hsl(var(--vital-cyan))",
+};
+
+function formatAge(observedAt: string, now: Date): string {
+  const seconds = Math.max(0, Math.round((now.getTime() - new Date(observedAt).getTime()) / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)} min ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)} h ago`;
+  return `${Math.floor(seconds / 86400)} d ago`;
+}
+
+// Trend from the last tile refresh, extended with the live value if it is newer
+function withLatest(points: TrendPoint[] | undefined, snapshot: VitalsSnapshot, metric: VitalMetric): TrendPoint[] {
+  const trend = points ?? [];
+  const latest = snapshot.metrics[metric];
+  if (!latest || (trend.length > 0 && trend[trend.length - 1].observedAt >= latest.observedAt)) return trend;
+  return [...trend, { observedAt: latest.observedAt, value: latest.value }];
+}
+
+interface PatientTileProps {
+  tile: CentralStationTile;
+  snapshot: VitalsSnapshot; // Live snapshot; may be newer than the one in the tile
+  now: Date;
+  onOpen: () => void;
+}
+
+export function PatientTile({ tile, snapshot, now, onOpen }: PatientTileProps) {
+  const state = monitoringState(snapshot, now);
+  const severities = classifySnapshot(snapshot).metrics;
+  const style = stateStyles[state];
+
+  return (
+    <Card
+      className={`p-4 border-2 cursor-pointer hover-elevate ${style.card}`}
+      onClick={onOpen}
+      data-testid={`tile-patient-${tile.patient.id}`}
+    >
+      <div className="flex items-start justify-between gap-2 mb-3">
+        <div className="min-w-0">
+          <p className="font-semibold text-foreground truncate">{tile.patient.email}</p>
+          <p className="text-xs text-muted-foreground">
+            {tile.patient.gender} · {tile.patient.bloodGroup}
+            {tile.deviceId ? ` · ${tile.deviceId}` : " · no device"}
+          </p>
+        </div>
+        <div className="flex flex-col items-end gap-1 shrink-0">
+          <Badge className={style.badge} data-testid={`badge-state-${tile.patient.id}`}>{style.label}</Badge>
+          {snapshot.lastObservedAt && snapshot.news2 && (
+            <News2Badge news2={snapshot.news2} testId={`badge-news2-${tile.patient.id}`} />
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        {TILE_METRICS.map((metric) => {
+          const entry = snapshot.metrics[metric];
+          const severity = severities[metric] ?? "normal";
+          const trend = withLatest(tile.trends[metric], snapshot, metric);
+          // An old value is still shown, greyed out, with how old it is
+          const stale = !!entry && isStale(snapshot, entry.observedAt, now);
+          return (
+            <div key={metric} className={`min-w-0 ${stale ? "opacity-50 grayscale" : ""}`} data-testid={`value-${metric}-${tile.patient.id}`}>
+              <p className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground truncate">
+                {vitalMetrics[metric].label}
+              </p>
+              <p className={`text-2xl font-bold font-mono leading-tight ${entry && !stale ? valueStyles[severity] : "text-muted-foreground"}`}>
+                {entry ? (metric === "temperature" ? entry.value.toFixed(1) : entry.value) : "—"}
+                {entry && <span className="ml-1 text-xs font-semibold opacity-70">{entry.unit}</span>}
+              </p>
+              {entry && (
+                <p className={`text-[10px] ${stale ? "text-vital-yellow" : "text-muted-foreground"}`}>{formatAge(entry.observedAt, now)}</p>
+              )}
+              <div className="h-8">
+                {trend.length > 1 && (
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={trend}>
+                      <YAxis hide domain={["dataMin - 1", "dataMax + 1"]} />
+                      <Line
+                        type="monotone"
+                        dataKey="value"
+                        stroke={trendColors[severity]}
+                        strokeWidth={1.5}
+                        dot={false}
+                        isAnimationActive={false}
+                      />
+                    </LineChart>
+                  </ResponsiveContainer>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="mt-2 text-xs text-muted-foreground" data-testid={`text-freshness-${tile.patient.id}`}>
+        {snapshot.lastObservedAt ? `Updated ${formatAge(snapshot.lastObservedAt, now)}` : "Never reported"}
+      </p>
+    </Card>
+  );
+}
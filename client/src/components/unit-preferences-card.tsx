@@ -0,0 +1,76 @@
+import { useMutation } from "@tanstack/react-query";
+import { Ruler } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useUnitPreferences } from "@/hooks/use-unit-preferences";
+import { pressureUnits, temperatureUnits, unitSymbols, type UnitPreferences } from "@shared/units";
+
+const unitLabels: Record<string, string> = {
+  celsius: "Celsius",
+  fahrenheit: "Fahrenheit",
+  mmHg: "Millimetres of mercury",
+  kPa: "Kilopascals",
+};
+
+export function UnitPreferencesCard() {
+  const { toast } = useToast();
+  const userId = localStorage.getItem("userId");
+  const units = useUnitPreferences();
+
+  const updateMutation = useMutation({
+    mutationFn: (preferences: Partial<UnitPreferences>) =>
+      apiRequest("PATCH", `/api/users/${userId}/preferences`, preferences),
+    // Every vitals response is converted on the server, so refetch them all
+    onSuccess: () => queryClient.invalidateQueries(),
+    onError: (error: Error) => {
+      toast({ title: "Could not save units", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const unitSelect = <K extends keyof UnitPreferences>(
+    key: K,
+    label: string,
+    options: readonly UnitPreferences[K][],
+  ) => (
+    <div className="flex items-center justify-between gap-4">
+      <Label htmlFor={`select-${key}`} className="text-sm">{label}</Label>
+      <Select
+        value={units[key]}
+        onValueChange={(value) => updateMutation.mutate({ [key]: value })}
+        disabled={updateMutation.isPending}
+      >
+        <SelectTrigger id={`select-${key}`} className="w-56" data-testid={`select-${key}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((option) => (
+            <SelectItem key={option} value={option}>
+              {unitLabels[option]} ({unitSymbols[option]})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-start gap-4 mb-4">
+        <Ruler className="h-5 w-5 text-primary mt-1" />
+        <div className="flex-1">
+          <h3 className="text-base font-semibold">Units</h3>
+          <p className="text-sm text-muted-foreground mt-1">
+            Units used for your vital signs on the dashboard, in records and in charts
+          </p>
+        </div>
+      </div>
+      <div className="space-y-3">
+        {unitSelect("temperatureUnit", "Temperature", temperatureUnits)}
+        {unitSelect("pressureUnit", "Blood pressure", pressureUnits)}
+      </div>
+    </Card>
+  );
+}
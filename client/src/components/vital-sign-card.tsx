@@ -1,6 +1,7 @@
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { LucideIcon, Wifi } from "lucide-react";
+import type { VitalTrend } from "@shared/schema";
 
 interface VitalSignCardProps {
   icon: LucideIcon;
@@ -8,11 +9,31 @@ interface VitalSignCardProps {
   value: string | number;
   unit: string;
   color: "cyan" | "green" | "yellow" | "red";
-  trend?: "up" | "down" | "stable";
+  trend?: VitalTrend | null; // Computed by the server from recent values; null when there are too few
   available?: boolean; // Whether this data is available from ESP32
+  observedAt?: string | null; // When the value was measured; shown as its age
+  stale?: boolean; // Too old to be current: shown greyed out
 }
 
-export function VitalSignCard({ icon: Icon, label, value, unit, color, trend, available }: VitalSignCardProps) {
+// e.g. "↑ Rising +8 BPM over 25 min"
+function describeTrend(trend: VitalTrend, unit: string): string {
+  const period =
+    trend.periodMinutes >= 120 ? `${Math.round(trend.periodMinutes / 60)} h` : trend.periodMinutes < 1 ? "under a minute" : `${trend.periodMinutes} min`;
+  const change = `${trend.change > 0 ? "+" : ""}${trend.change}${unit ? ` ${unit}` : ""}`;
+  if (trend.direction === "rising") return `↑ Rising ${change} over ${period}`;
+  if (trend.direction === "falling") return `↓ Falling ${change} over ${period}`;
+  return `→ Stable over ${period} (${change})`;
+}
+
+function formatAge(observedAt: string): string {
+  const seconds = Math.max(0, Math.round((Date.now() - new Date(observedAt).getTime()) / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)} min ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)} h ago`;
+  return `${Math.floor(seconds / 86400)} d ago`;
+}
+
+export function VitalSignCard({ icon: Icon, label, value, unit, color, trend, available, observedAt, stale }: VitalSignCardProps) {
   const colorClasses = {
     cyan: "text-vital-cyan border-vital-cyan/20",
     green: "text-vital-green border-vital-green/20",
@@ -23,7 +44,11 @@ export function VitalSignCard({ icon: Icon, label, value, unit, color, trend, av
   const isUnavailable = value === "N/A" || value === "N/A/N/A";
 
   return (
-    <Card className={`p-6 border-2 ${colorClasses[color]} bg-card/50 backdrop-blur-sm ${isUnavailable ? 'opacity-60' : ''}`} data-testid={`card-vital-${label.toLowerCase()}`}>
+    <Card
+      className={`p-6 border-2 ${colorClasses[color]} bg-card/50 backdrop-blur-sm ${isUnavailable ? 'opacity-60' : ''} ${stale && !isUnavailable ? 'opacity-50 grayscale' : ''}`}
+      data-testid={`card-vital-${label.toLowerCase()}`}
+      data-stale={stale ? "true" : undefined}
+    >
       <div className="flex items-start justify-between mb-4">
         <div className="flex items-center gap-2">
           <span className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
@@ -55,14 +80,20 @@ export function VitalSignCard({ icon: Icon, label, value, unit, color, trend, av
       </div>
       {isUnavailable && (
         <div className="mt-3 text-xs text-muted-foreground italic">
-          Not available from ESP32
+          {available ? "No measurement yet" : "Not available from ESP32"}
+        </div>
+      )}
+      {observedAt && !isUnavailable && (
+        <div className={`mt-3 text-xs ${stale ? "font-semibold text-foreground" : "text-muted-foreground"}`} data-testid={`text-age-${label.toLowerCase()}`}>
+          {stale ? `No recent data · last measured ${formatAge(observedAt)}` : `Measured ${formatAge(observedAt)}`}
         </div>
       )}
-      {trend && !isUnavailable && (
-        <div className="mt-3 text-xs text-muted-foreground">
-          {trend === "up" && "↑ Increasing"}
-          {trend === "down" && "↓ Decreasing"}
-          {trend === "stable" && "→ Stable"}
+      {trend && !isUnavailable && !stale && (
+        <div
+          className={`mt-3 text-xs ${trend.direction === "stable" ? "text-muted-foreground" : "font-semibold text-foreground"}`}
+          data-testid={`text-trend-${label.toLowerCase()}`}
+        >
+          {describeTrend(trend, unit)}
         </div>
       )}
     </Card>
@@ -0,0 +1,14 @@
+import { createContext, useContext, type ReactNode } from "react";
+
+// Patient whose data the patient pages show: the one chosen under /patients/:id/...
+// when an admin drills down, otherwise the signed-in user
+const ActivePatientContext = createContext<string | null>(null);
+
+export function ActivePatientProvider({ patientId, children }: { patientId: string; children: ReactNode }) {
+  return <ActivePatientContext.Provider value={patientId}>{children}</ActivePatientContext.Provider>;
+}
+
+export function useActivePatient(): { patientId: string | null; isSelected: boolean } {
+  const selected = useContext(ActivePatientContext);
+  return { patientId: selected ?? localStorage.getItem("userId"), isSelected: selected !== null };
+}
@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query";
+import { DEFAULT_UNIT_PREFERENCES, type UnitPreferences } from "@shared/units";
+import type { User } from "@shared/schema";
+
+// Display units of the signed-in user; the API already returns values in these units
+export function useUnitPreferences(): UnitPreferences {
+  const userId = localStorage.getItem("userId");
+  const { data: user } = useQuery<Omit<User, "password">>({
+    queryKey: [`/api/users/${userId}`],
+    enabled: !!userId,
+  });
+
+  if (!user) return DEFAULT_UNIT_PREFERENCES;
+  return {
+    temperatureUnit: user.temperatureUnit as UnitPreferences["temperatureUnit"],
+    pressureUnit: user.pressureUnit as UnitPreferences["pressureUnit"],
+  };
+}
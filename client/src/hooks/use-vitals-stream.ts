@@ -0,0 +1,108 @@
+import { useEffect, useState } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { ALL_PATIENTS, type VitalsSnapshot, type VitalsStreamServerMessage } from "@shared/schema";
+
+const RECONNECT_MIN_MS = 1000;
+const RECONNECT_MAX_MS = 30 * 1000;
+// Sent by the server for a missing or rejected token; reconnecting would not help
+const CLOSE_UNAUTHORIZED = 4401;
+
+function streamUrl(): string {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  return `${protocol}//${window.location.host}/api/stream`;
+}
+
+// Refetches the vitals queries a subscription feeds, after events may have been missed
+function refetchPatient(patientId: string) {
+  const keys = ["/api/vitals/latest", `/api/vitals/snapshot/${patientId}`, `/api/waveforms/${patientId}`];
+  queryClient.invalidateQueries({
+    predicate: ({ queryKey }) => {
+      const key = String(queryKey[0]);
+      if (patientId === ALL_PATIENTS) {
+        return key === keys[0] || key.startsWith("/api/vitals/snapshot/") || key.startsWith("/api/waveforms/");
+      }
+      return keys.includes(key);
+    },
+  });
+}
+
+// Writes each pushed event into the query cache the polling queries read from
+function applyEvent(message: VitalsStreamServerMessage) {
+  if (message.type === "vitals") {
+    queryClient.setQueryData([`/api/vitals/snapshot/${message.patientId}`], message.snapshot);
+    // The latest-vitals view follows whichever patient reported most recently
+    queryClient.setQueryData<VitalsSnapshot>(["/api/vitals/latest"], (current) =>
+      !current?.lastObservedAt || (message.snapshot.lastObservedAt ?? "") >= current.lastObservedAt
+        ? message.snapshot
+        : current
+    );
+  } else if (message.type === "waveforms") {
+    queryClient.setQueryData([`/api/waveforms/${message.patientId}`], message.waveforms);
+  }
+}
+
+// Follows a patient's live vitals (or every patient's, for admins, with "*") over the
+// server's WebSocket and keeps the vitals queries up to date. Returns whether the stream
+// is connected, so callers can fall back to polling while it is not. Reconnects resume
+// from the last event seen; if the server cannot replay the gap, the queries refetch.
+export function useVitalsStream(patientId: string | null | undefined): boolean {
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    const token = localStorage.getItem("authToken");
+    if (!patientId || !token || typeof WebSocket === "undefined") return;
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let reconnectDelay = RECONNECT_MIN_MS;
+    let streamId: string | undefined;
+    let lastSeq: number | undefined;
+    let stopped = false;
+
+    const connect = () => {
+      socket = new WebSocket(streamUrl());
+
+      socket.onopen = () => socket!.send(JSON.stringify({ type: "auth", token }));
+
+      socket.onmessage = (event) => {
+        const message = JSON.parse(event.data) as VitalsStreamServerMessage;
+        switch (message.type) {
+          case "ready":
+            // Sequence numbers from an earlier server process mean nothing to this one
+            if (message.streamId !== streamId) lastSeq = undefined;
+            streamId = message.streamId;
+            socket!.send(JSON.stringify({ type: "subscribe", patientId, streamId, lastSeq }));
+            break;
+          case "subscribed":
+            reconnectDelay = RECONNECT_MIN_MS;
+            setConnected(true);
+            if (!message.resumed) refetchPatient(patientId);
+            break;
+          case "error":
+            console.warn(`Vitals stream: ${message.message}`);
+            break;
+          default:
+            lastSeq = message.seq;
+            applyEvent(message);
+        }
+      };
+
+      socket.onclose = (event) => {
+        setConnected(false);
+        if (stopped || event.code === CLOSE_UNAUTHORIZED) return;
+        reconnectTimer = setTimeout(connect, reconnectDelay);
+        reconnectDelay = Math.min(reconnectDelay * 2, RECONNECT_MAX_MS);
+      };
+    };
+
+    connect();
+    return () => {
+      stopped = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+      setConnected(false);
+    };
+  }, [patientId]);
+
+  return connected;
+}
@@ -1,12 +1,31 @@
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Card } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { Users, Activity, Heart } from "lucide-react";
-import type { User, EcgData } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Users, Activity, Heart, ChevronRight } from "lucide-react";
+import { DeviceManagement } from "@/components/device-management";
+import { DeviceHealthPanel } from "@/components/device-health";
+import { News2Badge } from "@/components/news2-card";
+import { useUnitPreferences } from "@/hooks/use-unit-preferences";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { displayUnit } from "@shared/units";
+import type { User, EcgData, News2HistoryEntry } from "@shared/schema";
+import type { ValidationStatus } from "@shared/validation";
+
+const validationStyles: Record<ValidationStatus, string> = {
+  accepted: "bg-vital-green/20 text-vital-green",
+  flagged: "bg-vital-yellow/20 text-vital-yellow",
+  rejected: "bg-destructive/20 text-destructive",
+};
 
 export default function AdminPage() {
+  const units = useUnitPreferences();
+  const { toast } = useToast();
   const { data: allUsers, isLoading: usersLoading } = useQuery<User[]>({
     queryKey: ["/api/admin/users"],
   });
@@ -15,6 +34,21 @@ export default function AdminPage() {
     queryKey: ["/api/admin/ecg-data"],
   });
 
+  // Latest NEWS2 per patient; patients without a score are missing from the map
+  const { data: news2Scores } = useQuery<Record<string, News2HistoryEntry>>({
+    queryKey: ["/api/admin/news2"],
+  });
+
+  // The assigned clinician is the first person most escalation policies notify
+  const clinicianMutation = useMutation({
+    mutationFn: ({ patientId, clinicianId }: { patientId: string; clinicianId: string | null }) =>
+      apiRequest("PUT", `/api/admin/patients/${patientId}/clinician`, { clinicianId }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] }),
+    onError: (error: Error) => {
+      toast({ title: "Could not assign clinician", description: error.message, variant: "destructive" });
+    },
+  });
+
   if (usersLoading || ecgLoading) {
     return (
       <div className="p-6 space-y-6">
@@ -30,6 +64,7 @@ export default function AdminPage() {
   }
 
   const patients = allUsers?.filter((u) => u.role === "patient") || [];
+  const clinicians = allUsers?.filter((u) => u.role === "admin") || [];
   const latestReadings = allEcgData?.slice(0, 10) || [];
 
   return (
@@ -84,13 +119,16 @@ export default function AdminPage() {
                 <TableHead>Phone</TableHead>
                 <TableHead>Blood Group</TableHead>
                 <TableHead>Gender</TableHead>
+                <TableHead>Clinician</TableHead>
+                <TableHead>NEWS2</TableHead>
                 <TableHead>Status</TableHead>
+                <TableHead></TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {patients.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  <TableCell colSpan={9} className="text-center text-muted-foreground">
                     No patients registered yet.
                   </TableCell>
                 </TableRow>
@@ -106,11 +144,45 @@ export default function AdminPage() {
                       </Badge>
                     </TableCell>
                     <TableCell>{patient.gender}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={patient.assignedClinicianId ?? "none"}
+                        onValueChange={(value) =>
+                          clinicianMutation.mutate({ patientId: patient.id, clinicianId: value === "none" ? null : value })
+                        }
+                        disabled={clinicianMutation.isPending}
+                      >
+                        <SelectTrigger className="h-8 w-48" data-testid={`select-clinician-${patient.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">Unassigned</SelectItem>
+                          {clinicians.map((clinician) => (
+                            <SelectItem key={clinician.id} value={clinician.id}>{clinician.email}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      {news2Scores?.[patient.id] ? (
+                        <News2Badge news2={news2Scores[patient.id]} testId={`badge-news2-${patient.id}`} />
+                      ) : (
+                        <span className="text-xs text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
                     <TableCell>
                       <Badge variant="secondary" className="bg-vital-green/20 text-vital-green">
                         Active
                       </Badge>
                     </TableCell>
+                    <TableCell className="text-right">
+                      <Button size="sm" variant="ghost" asChild>
+                        <Link href={`/patients/${patient.id}/dashboard`} data-testid={`link-open-patient-${patient.id}`}>
+                          Open
+                          <ChevronRight className="h-4 w-4 ml-1" />
+                        </Link>
+                      </Button>
+                    </TableCell>
                   </TableRow>
                 ))
               )}
@@ -119,6 +191,11 @@ export default function AdminPage() {
         </div>
       </Card>
 
+      {/* Device Fleet */}
+      <DeviceManagement patients={patients} />
+
+      <DeviceHealthPanel />
+
       {/* Latest Readings Table */}
       <Card className="p-6">
         <h2 className="text-xl font-semibold mb-4 text-foreground">Latest Vital Sign Readings</h2>
@@ -130,14 +207,15 @@ export default function AdminPage() {
                 <TableHead>Patient ID</TableHead>
                 <TableHead>HR (BPM)</TableHead>
                 <TableHead>SpO2 (%)</TableHead>
-                <TableHead>BP (mmHg)</TableHead>
-                <TableHead>Temp (°C)</TableHead>
+                <TableHead>BP ({displayUnit("systolic_bp", units)})</TableHead>
+                <TableHead>Temp ({displayUnit("temperature", units)})</TableHead>
+                <TableHead>Validation</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {latestReadings.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
                     No vital sign data available.
                   </TableCell>
                 </TableRow>
@@ -148,12 +226,24 @@ export default function AdminPage() {
                       {new Date(reading.timestamp).toLocaleString()}
                     </TableCell>
                     <TableCell className="font-mono text-xs">{reading.userId.substring(0, 8)}</TableCell>
-                    <TableCell className="font-semibold text-vital-cyan">{reading.heartRate}</TableCell>
-                    <TableCell className="font-semibold text-vital-cyan">{reading.spo2}</TableCell>
+                    <TableCell className="font-semibold text-vital-cyan">{reading.heartRate ?? "—"}</TableCell>
+                    <TableCell className="font-semibold text-vital-cyan">{reading.spo2 ?? "—"}</TableCell>
                     <TableCell className="font-semibold text-vital-yellow">
-                      {reading.systolicBP}/{reading.diastolicBP}
+                      {reading.systolicBP !== null && reading.diastolicBP !== null
+                        ? `${reading.systolicBP}/${reading.diastolicBP}`
+                        : "—"}
+                    </TableCell>
+                    <TableCell className="font-semibold text-vital-red">{reading.temperature ?? "—"}</TableCell>
+                    <TableCell>
+                      <Badge
+                        variant="secondary"
+                        className={validationStyles[reading.validationStatus as ValidationStatus]}
+                        title={reading.validationReason ?? undefined}
+                        data-testid={`badge-validation-${reading.id}`}
+                      >
+                        {reading.validationStatus}
+                      </Badge>
                     </TableCell>
-                    <TableCell className="font-semibold text-vital-red">{reading.temperature}</TableCell>
                   </TableRow>
                 ))
               )}
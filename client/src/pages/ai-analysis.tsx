@@ -6,6 +6,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Brain, RefreshCw, Download, AlertCircle } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
+import { useActivePatient } from "@/hooks/use-active-patient";
 
 interface AIAnalysisResponse {
   success: boolean;
@@ -19,12 +20,19 @@ interface AIAnalysisResponse {
       temperature: string;
       respiratoryRate: string;
     };
+    news2: {
+      score: number;
+      band: string;
+      response: string;
+      supplementalOxygen: string;
+      missing: string;
+    };
   };
   generatedAt: string;
 }
 
 export default function AIAnalysisPage() {
-  const userId = localStorage.getItem("userId");
+  const { patientId: userId } = useActivePatient();
   const [generatedReport, setGeneratedReport] = useState<AIAnalysisResponse | null>(null);
 
   const { mutate: generateAnalysis, isPending, error } = useMutation<AIAnalysisResponse>({
@@ -69,6 +77,11 @@ VITAL SIGNS AT TIME OF ANALYSIS:
 - Blood Pressure: ${generatedReport.sensorData.vitalSigns.bloodPressure}
 - Temperature: ${generatedReport.sensorData.vitalSigns.temperature}
 - Respiratory Rate: ${generatedReport.sensorData.vitalSigns.respiratoryRate}
+- Supplemental Oxygen: ${generatedReport.sensorData.news2.supplementalOxygen}
+
+NEWS2: ${generatedReport.sensorData.news2.score} (${generatedReport.sensorData.news2.band} risk)
+- Response: ${generatedReport.sensorData.news2.response}
+- Missing parameters: ${generatedReport.sensorData.news2.missing}
 
 ${"=".repeat(60)}
 
@@ -251,7 +264,7 @@ This report is for informational purposes only and should not replace profession
                 </Button>
               </div>
             </div>
-            <div className="mt-4 pt-4 border-t grid grid-cols-2 md:grid-cols-5 gap-4">
+            <div className="mt-4 pt-4 border-t grid grid-cols-2 md:grid-cols-6 gap-4">
               <div>
                 <p className="text-xs text-muted-foreground mb-1">Heart Rate</p>
                 <p className="text-sm font-semibold">{generatedReport.sensorData.vitalSigns.heartRate}</p>
@@ -272,6 +285,12 @@ This report is for informational purposes only and should not replace profession
                 <p className="text-xs text-muted-foreground mb-1">Respiratory Rate</p>
                 <p className="text-sm font-semibold">{generatedReport.sensorData.vitalSigns.respiratoryRate}</p>
               </div>
+              <div>
+                <p className="text-xs text-muted-foreground mb-1">NEWS2</p>
+                <p className="text-sm font-semibold" data-testid="text-report-news2">
+                  {generatedReport.sensorData.news2.score} ({generatedReport.sensorData.news2.band})
+                </p>
+              </div>
             </div>
           </Card>
 
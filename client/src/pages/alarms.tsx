@@ -0,0 +1,193 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { BellRing, CheckCircle2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlarmLimitsCard } from "@/components/alarm-limits-card";
+import { DataWatchdogCard } from "@/components/data-watchdog-card";
+import { useActivePatient } from "@/hooks/use-active-patient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { DATA_GAP_METRIC, vitalMetrics, type Alarm, type AlarmEscalation, type AlarmPriority, type VitalMetric } from "@shared/schema";
+
+// Alarms are raised on ingestion; the list is polled so new ones show up without a reload
+const ALARMS_REFRESH_MS = 10 * 1000;
+
+const priorityStyles: Record<AlarmPriority, { label: string; badge: string; card: string }> = {
+  high: { label: "High", badge: "bg-vital-red/20 text-vital-red", card: "border-vital-red" },
+  medium: { label: "Medium", badge: "bg-vital-yellow/20 text-vital-yellow", card: "border-vital-yellow" },
+  low: { label: "Low", badge: "bg-primary/20 text-primary", card: "" },
+};
+
+function formatSilence(seconds: number): string {
+  return seconds < 120 ? `${seconds} s` : seconds < 7200 ? `${Math.floor(seconds / 60)} min` : `${Math.floor(seconds / 3600)} h`;
+}
+
+function describeAlarm(alarm: Alarm): string {
+  if (alarm.metric === DATA_GAP_METRIC) {
+    const what = alarm.condition === "device_offline" ? "Device offline" : "No readings";
+    return `${what} for over ${formatSilence(alarm.threshold)}`;
+  }
+  const label = vitalMetrics[alarm.metric as VitalMetric]?.label ?? alarm.metric;
+  return `${label} ${alarm.condition === "low" ? "below" : "above"} ${alarm.threshold} ${alarm.unit}`;
+}
+
+// Who each escalation step reached; only fetched once the alarm has escalated
+function AlarmEscalationLog({ alarm }: { alarm: Alarm }) {
+  const { data: escalations } = useQuery<AlarmEscalation[]>({
+    queryKey: [`/api/admin/alarms/${alarm.id}/escalations`],
+    refetchInterval: ALARMS_REFRESH_MS,
+  });
+
+  if (!escalations || escalations.length === 0) return null;
+
+  return (
+    <div className="w-full border-t pt-2 space-y-1 text-sm text-muted-foreground" data-testid={`list-escalations-${alarm.id}`}>
+      {escalations.map((escalation) => (
+        <p key={escalation.id}>
+          Step {escalation.step} · {new Date(escalation.createdAt).toLocaleTimeString()} · {escalation.detail ?? escalation.outcome}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+export default function AlarmsPage() {
+  const { patientId } = useActivePatient();
+  const { toast } = useToast();
+  const isAdmin = localStorage.getItem("userRole") === "admin";
+  const alarmsKey = `/api/patients/${patientId}/alarms`;
+
+  const { data: alarms, isLoading } = useQuery<Alarm[]>({
+    queryKey: [alarmsKey],
+    enabled: !!patientId,
+    refetchInterval: ALARMS_REFRESH_MS,
+  });
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/admin/alarms/${id}/acknowledge`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [alarmsKey] }),
+    onError: (error: Error) => {
+      toast({ title: "Could not acknowledge alarm", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !patientId) {
+    return (
+      <div className="p-6 space-y-6">
+        <Skeleton className="h-12 w-64" />
+        <Skeleton className="h-48" />
+        <Skeleton className="h-96" />
+      </div>
+    );
+  }
+
+  const open = (alarms ?? []).filter((alarm) => alarm.status !== "resolved");
+  const resolved = (alarms ?? []).filter((alarm) => alarm.status === "resolved");
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground mb-2">Alarms</h1>
+        <p className="text-muted-foreground">
+          Vital signs outside their alarm limits, and the limits themselves
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        <h2 className="text-lg font-semibold">Open</h2>
+        {open.length === 0 ? (
+          <Card className="p-6 flex items-center gap-3 text-muted-foreground" data-testid="text-no-open-alarms">
+            <CheckCircle2 className="h-5 w-5 text-vital-green" />
+            No open alarms
+          </Card>
+        ) : (
+          open.map((alarm) => {
+            const style = priorityStyles[alarm.priority as AlarmPriority] ?? priorityStyles.low;
+            return (
+              <Card key={alarm.id} className={`p-4 flex flex-wrap items-center gap-4 ${style.card}`} data-testid={`card-alarm-${alarm.id}`}>
+                <BellRing className={`h-5 w-5 ${alarm.status === "active" ? "animate-pulse" : ""}`} />
+                <div className="flex-1 min-w-48">
+                  <p className="font-semibold">{describeAlarm(alarm)}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {alarm.metric === DATA_GAP_METRIC
+                      ? `Last reading ${formatSilence(alarm.lastValue)} ago, at `
+                      : `Now ${alarm.lastValue} ${alarm.unit} (fired at ${alarm.triggerValue}) · since `}
+                    {new Date(alarm.onsetAt).toLocaleString()}
+                  </p>
+                </div>
+                <Badge variant="secondary" className={style.badge}>{style.label}</Badge>
+                {alarm.escalationLevel > 0 && (
+                  <Badge variant="outline" data-testid={`badge-escalated-${alarm.id}`}>
+                    Escalated to step {alarm.escalationLevel}
+                  </Badge>
+                )}
+                {alarm.status === "acknowledged" ? (
+                  <Badge variant="outline" data-testid={`badge-acknowledged-${alarm.id}`}>
+                    Acknowledged {alarm.acknowledgedAt && new Date(alarm.acknowledgedAt).toLocaleTimeString()}
+                  </Badge>
+                ) : isAdmin ? (
+                  <Button
+                    size="sm"
+                    onClick={() => acknowledgeMutation.mutate(alarm.id)}
+                    disabled={acknowledgeMutation.isPending}
+                    data-testid={`button-acknowledge-${alarm.id}`}
+                  >
+                    Acknowledge
+                  </Button>
+                ) : (
+                  <Badge variant="secondary" className={style.badge}>Active</Badge>
+                )}
+                {isAdmin && alarm.escalationLevel > 0 && <AlarmEscalationLog alarm={alarm} />}
+              </Card>
+            );
+          })
+        )}
+      </div>
+
+      <Card className="p-6">
+        <h2 className="text-lg font-semibold mb-4">History</h2>
+        {resolved.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No resolved alarms yet.</p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Alarm</TableHead>
+                  <TableHead>Priority</TableHead>
+                  <TableHead>Fired at</TableHead>
+                  <TableHead>Triggered</TableHead>
+                  <TableHead>Acknowledged</TableHead>
+                  <TableHead>Resolved</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {resolved.map((alarm) => (
+                  <TableRow key={alarm.id}>
+                    <TableCell className="text-sm">{describeAlarm(alarm)}</TableCell>
+                    <TableCell className="text-xs capitalize">{alarm.priority}</TableCell>
+                    <TableCell className="text-xs">{alarm.triggerValue} {alarm.unit}</TableCell>
+                    <TableCell className="text-xs">{new Date(alarm.triggeredAt).toLocaleString()}</TableCell>
+                    <TableCell className="text-xs">
+                      {alarm.acknowledgedAt ? new Date(alarm.acknowledgedAt).toLocaleString() : "—"}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {alarm.resolvedAt ? new Date(alarm.resolvedAt).toLocaleString() : "—"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </Card>
+
+      <AlarmLimitsCard patientId={patientId} editable={isAdmin} />
+
+      <DataWatchdogCard patientId={patientId} editable={isAdmin} />
+    </div>
+  );
+}
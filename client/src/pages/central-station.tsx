@@ -0,0 +1,97 @@
+import { useEffect, useState } from "react";
+import { useQueries, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { MonitorDot } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { PatientTile } from "@/components/patient-tile";
+import { useVitalsStream } from "@/hooks/use-vitals-stream";
+import { compareByUrgency } from "@shared/clinical-ranges";
+import { ALL_PATIENTS, type CentralStationTile, type VitalsSnapshot } from "@shared/schema";
+
+// Tiles (the patient list and trend lines) refresh slowly; current values arrive
+// over the vitals stream, or by polling while it is down
+const TILES_REFRESH_MS = 60 * 1000;
+const SNAPSHOT_POLL_MS = 5000;
+// Ages and staleness are recomputed this often even when nothing new arrives
+const CLOCK_TICK_MS = 5000;
+
+export default function CentralStationPage() {
+  const [, setLocation] = useLocation();
+  const streaming = useVitalsStream(ALL_PATIENTS);
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), CLOCK_TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const { data: tiles, isLoading } = useQuery<CentralStationTile[]>({
+    queryKey: ["/api/admin/central-station"],
+    refetchInterval: TILES_REFRESH_MS,
+  });
+
+  // The stream writes each patient's snapshot into these queries
+  const snapshots = useQueries({
+    queries: (tiles ?? []).map((tile) => ({
+      queryKey: [`/api/vitals/snapshot/${tile.patient.id}`],
+      initialData: tile.snapshot,
+      refetchInterval: streaming ? (false as const) : SNAPSHOT_POLL_MS,
+    })),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-6 space-y-6">
+        <Skeleton className="h-12 w-64" />
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+          {[...Array(6)].map((_, i) => (
+            <Skeleton key={i} className="h-44" />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const live = (tiles ?? [])
+    .map((tile, index) => ({ tile, snapshot: (snapshots[index]?.data as VitalsSnapshot | undefined) ?? tile.snapshot }))
+    .sort((a, b) => compareByUrgency(a.snapshot, b.snapshot, now));
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground mb-2">Central Station</h1>
+          <p className="text-muted-foreground">
+            Live vitals for every monitored patient, most urgent first. Click a patient to open their dashboard.
+          </p>
+        </div>
+        <Badge variant="outline" className={streaming ? "text-vital-green" : "text-muted-foreground"} data-testid="badge-stream-status">
+          {streaming ? "Live" : "Polling"}
+        </Badge>
+      </div>
+
+      {live.length === 0 ? (
+        <Card className="p-12 text-center">
+          <MonitorDot className="h-10 w-10 mx-auto mb-3 text-muted-foreground" />
+          <p className="text-muted-foreground">
+            No patients are being monitored. Patients appear here once a device is assigned to them or they report vitals.
+          </p>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+          {live.map(({ tile, snapshot }) => (
+            <PatientTile
+              key={tile.patient.id}
+              tile={tile}
+              snapshot={snapshot}
+              now={now}
+              onOpen={() => setLocation(`/patients/${tile.patient.id}/dashboard`)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,19 @@
 import { useEffect, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { Heart, Droplet, Wind, Thermometer, TrendingUp } from "lucide-react";
+import { Link } from "wouter";
+import { Heart, Droplet, Wind, Thermometer, TrendingUp, WifiOff } from "lucide-react";
 import { VitalSignCard } from "@/components/vital-sign-card";
 import { ECGWaveform } from "@/components/ecg-waveform";
+import { News2Card } from "@/components/news2-card";
 import { Card } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
-import type { EcgData } from "@shared/schema";
+import { useUnitPreferences } from "@/hooks/use-unit-preferences";
+import { useVitalsStream } from "@/hooks/use-vitals-stream";
+import { useActivePatient } from "@/hooks/use-active-patient";
+import { displayUnit } from "@shared/units";
+import { isStale } from "@shared/clinical-ranges";
+import { ALL_PATIENTS, type DataWatchdogStatus, type RecentWaveforms, type SnapshotValue, type VitalsSnapshot } from "@shared/schema";
 
 // ESP32 Available Sensors:
 // - Heart Rate (MAX30105)
@@ -14,90 +21,58 @@ import type { EcgData } from "@shared/schema";
 // - Temperature (LM35)
 // NOT Available: Blood Pressure, Respiratory Rate
 
-// Generate realistic ECG waveform data
-const generateWaveform = (type: string, count: number = 200): number[] => {
-  const data: number[] = [];
-  
-  for (let i = 0; i < count; i++) {
-    const t = (i / count) * Math.PI * 4;
-    let value = 0;
-    
-    switch (type) {
-      case "pleth":
-        value = Math.sin(t) * 0.6 + Math.random() * 0.1;
-        break;
-      case "spo2":
-        value = Math.sin(t * 1.5) * 0.5 + Math.cos(t * 0.5) * 0.3 + Math.random() * 0.1;
-        break;
-      case "resp":
-        value = Math.sin(t * 0.3) * 0.7 + Math.random() * 0.05;
-        break;
-      case "cvp":
-        value = Math.sin(t * 2) * 0.4 + Math.sin(t * 0.8) * 0.2 + Math.random() * 0.1;
-        break;
-      case "ecg":
-        const qrs = Math.abs(t % (Math.PI / 2)) < 0.1 ? Math.sin(t * 20) * 0.8 : 0;
-        value = Math.sin(t) * 0.3 + qrs + Math.random() * 0.05;
-        break;
-      case "etco2":
-        value = t % Math.PI < Math.PI / 2 ? 0.6 : 0.1 + Math.random() * 0.05;
-        break;
-      default:
-        value = Math.sin(t) * 0.5;
-    }
-    
-    data.push(value);
-  }
-  
-  return data;
-};
+// Ages and staleness are recomputed this often even when nothing new arrives
+const CLOCK_TICK_MS = 5000;
+const WATCHDOG_REFRESH_MS = 10 * 1000;
 
 export default function DashboardPage() {
-  const userId = localStorage.getItem("userId");
-  const [waveforms, setWaveforms] = useState({
-    pleth: generateWaveform("pleth"),
-    spo2: generateWaveform("spo2"),
-    resp: generateWaveform("resp"),
-    cvp: generateWaveform("cvp"),
-    ecg: generateWaveform("ecg"),
-    etco2: generateWaveform("etco2"),
-  });
+  const { patientId: userId, isSelected } = useActivePatient();
+  const units = useUnitPreferences();
+  // New readings are pushed over the vitals stream; poll every 2 seconds only while it is down
+  const isAdmin = localStorage.getItem("userRole") === "admin";
+  const streaming = useVitalsStream(isAdmin && !isSelected ? ALL_PATIENTS : userId);
+  const refetchInterval = streaming ? false : 2000;
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), CLOCK_TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
 
-  // Try to get latest ECG data from user's own data
-  const { data: latestEcg, isLoading: isLoadingUser, error: userError } = useQuery<EcgData>({
-    queryKey: [`/api/ecg-data/latest/${userId}`],
+  // Latest measured value of each metric for the signed-in patient
+  const { data: ownSnapshot, isLoading: isLoadingUser } = useQuery<VitalsSnapshot>({
+    queryKey: [`/api/vitals/snapshot/${userId}`],
     enabled: !!userId,
-    refetchInterval: 2000, // Refresh every 2 seconds to show latest ESP32 data
-    retry: false, // Don't retry on 404, we'll use fallback
+    refetchInterval,
   });
 
-  // Fallback: Get latest ESP32 data (works for all users, shows latest from any patient)
-  const { data: latestVitalsData, isLoading: isLoadingVitals } = useQuery<EcgData>({
+  // Admins who have not chosen a patient see the most recently reporting one, labelled
+  // as such. Patients only ever see their own data.
+  const { data: latestSnapshot, isLoading: isLoadingVitals } = useQuery<VitalsSnapshot>({
     queryKey: [`/api/vitals/latest`],
-    enabled: !!userId, // Always enabled when user is logged in
-    refetchInterval: 2000,
+    enabled: !!userId && isAdmin && !isSelected,
+    refetchInterval,
     retry: false,
   });
 
-  // Use user's own data if available, otherwise fallback to latest ESP32 data
-  const displayData = latestEcg || latestVitalsData;
+  const showingLatest = isAdmin && !isSelected && !ownSnapshot?.lastObservedAt;
+  const snapshot = showingLatest ? latestSnapshot : ownSnapshot;
   const isLoading = isLoadingUser || isLoadingVitals;
 
-  // Simulate real-time waveform updates
-  useEffect(() => {
-    const interval = setInterval(() => {
-      setWaveforms({
-        pleth: generateWaveform("pleth"),
-        spo2: generateWaveform("spo2"),
-        resp: generateWaveform("resp"),
-        cvp: generateWaveform("cvp"),
-        ecg: generateWaveform("ecg"),
-        etco2: generateWaveform("etco2"),
-      });
-    }, 2000);
-
-    return () => clearInterval(interval);
-  }, []);
+  // Expected reporting interval and device contact, to explain a gap in the data
+  const { data: watchdog } = useQuery<DataWatchdogStatus>({
+    queryKey: [`/api/patients/${snapshot?.userId}/data-watchdog`],
+    enabled: !!snapshot?.lastObservedAt,
+    refetchInterval: WATCHDOG_REFRESH_MS,
+    retry: false,
+  });
+
+  // Recent raw PPG signal for the patient whose vitals are shown
+  const { data: waveforms } = useQuery<RecentWaveforms>({
+    queryKey: [`/api/waveforms/${snapshot?.userId}`],
+    enabled: !!snapshot?.userId,
+    refetchInterval,
+  });
 
   if (isLoading) {
     return (
@@ -112,14 +87,17 @@ export default function DashboardPage() {
     );
   }
 
-  const ecgData = displayData || {
-    heartRate: 60,
-    spo2: 98,
-    systolicBP: 120,
-    diastolicBP: 80,
-    temperature: 37.7,
-    respiratoryRate: 20,
-  };
+  // Metrics that were never measured stay "N/A" rather than showing a made-up value
+  const metrics = snapshot?.metrics;
+  const heartRate = metrics?.heart_rate;
+  const spo2 = metrics?.spo2;
+  const temperature = metrics?.temperature;
+
+  // Old values stay on screen, greyed out, rather than passing for live ones
+  const stale = (entry: SnapshotValue | null | undefined) => !!snapshot && !!entry && isStale(snapshot, entry.observedAt, now);
+  const noRecentData = !!snapshot?.lastObservedAt && isStale(snapshot, snapshot.lastObservedAt, now);
+  const deviceOffline =
+    !!watchdog?.deviceId && (!watchdog.deviceLastSeenAt || (!!snapshot && isStale(snapshot, watchdog.deviceLastSeenAt, now)));
 
   return (
     <div className="p-6 space-y-6">
@@ -137,27 +115,57 @@ export default function DashboardPage() {
         </p>
       </div>
 
+      {showingLatest && snapshot && (
+        <Card className="p-4 text-sm text-muted-foreground" data-testid="text-showing-latest">
+          No patient selected: showing the patient who reported most recently. Choose a patient on the{" "}
+          <Link href="/central-station" className="underline">Central Station</Link>.
+        </Card>
+      )}
+
+      {noRecentData && (
+        <Card className="p-4 flex items-start gap-3 border-2 border-vital-yellow" data-testid="banner-no-recent-data">
+          <WifiOff className="h-5 w-5 text-vital-yellow mt-0.5" />
+          <div className="text-sm">
+            <p className="font-semibold text-foreground">
+              No recent data since {new Date(snapshot!.lastObservedAt!).toLocaleString()}
+            </p>
+            <p className="text-muted-foreground">
+              {watchdog?.expectedIntervalSeconds && `Readings are expected every ${watchdog.expectedIntervalSeconds} s. `}
+              {watchdog?.deviceId &&
+                (deviceOffline
+                  ? `Device ${watchdog.deviceId} has not been in contact${watchdog.deviceLastSeenAt ? ` since ${new Date(watchdog.deviceLastSeenAt).toLocaleString()}` : ""}. `
+                  : `Device ${watchdog.deviceId} is connected but sends no readings; check the sensor. `)}
+              The values below are the last ones received.
+            </p>
+          </div>
+        </Card>
+      )}
+
       {/* Vital Signs Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         {/* Heart Rate - Available from ESP32 (MAX30105) */}
         <VitalSignCard
           icon={Heart}
           label="Heart Rate"
-          value={ecgData.heartRate || 0}
+          value={heartRate ? heartRate.value : "N/A"}
           unit="BPM"
           color="cyan"
-          trend="stable"
+          trend={heartRate?.trend}
           available={true}
+          observedAt={heartRate?.observedAt}
+          stale={stale(heartRate)}
         />
         {/* SpO2 - Available from ESP32 (MAX30105) */}
         <VitalSignCard
           icon={Droplet}
           label="SpO2"
-          value={ecgData.spo2 || 0}
+          value={spo2 ? spo2.value : "N/A"}
           unit="%"
           color="cyan"
-          trend="stable"
+          trend={spo2?.trend}
           available={true}
+          observedAt={spo2?.observedAt}
+          stale={stale(spo2)}
         />
         {/* Blood Pressure - NOT Available from ESP32 */}
         <VitalSignCard
@@ -172,39 +180,49 @@ export default function DashboardPage() {
         <VitalSignCard
           icon={Thermometer}
           label="Temperature"
-          value={typeof ecgData.temperature === 'number' ? ecgData.temperature.toFixed(1) : String(ecgData.temperature || 'N/A')}
-          unit="°C"
+          value={temperature ? temperature.value.toFixed(1) : "N/A"}
+          unit={temperature?.unit ?? displayUnit("temperature", units)}
           color="red"
-          trend="stable"
+          trend={temperature?.trend}
           available={true}
+          observedAt={temperature?.observedAt}
+          stale={stale(temperature)}
         />
       </div>
 
+      {/* Early warning score from the same values */}
+      {snapshot?.lastObservedAt && (
+        <div className={noRecentData ? "opacity-50 grayscale" : ""}>
+          <News2Card news2={snapshot.news2} />
+        </div>
+      )}
+
       {/* ECG Waveforms Section */}
       <div id="ecg" className="space-y-4">
         <h2 className="text-2xl font-semibold text-foreground">ECG Parameters</h2>
         
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {/* Raw PPG counts are fitted to the trace and inverted so a pulse (more absorbed light, fewer counts) points up */}
           <ECGWaveform
-            data={waveforms.pleth}
+            strip={waveforms?.ppg_ir}
+            invert
             color="cyan"
             label="PLETH"
-            value={ecgData.spo2}
+            value={spo2 ? spo2.value : "N/A"}
           />
           <ECGWaveform
-            data={waveforms.spo2}
+            strip={waveforms?.ppg_red}
+            invert
             color="cyan"
             label="SPO2"
-            value={`${ecgData.heartRate}`}
+            value={heartRate ? `${heartRate.value}` : "N/A"}
           />
           <ECGWaveform
-            data={waveforms.resp}
             color="yellow"
             label="RESP"
             value="N/A"
           />
           <ECGWaveform
-            data={waveforms.cvp}
             color="red"
             label="CVP/ART"
             value="N/A"
@@ -215,10 +233,11 @@ export default function DashboardPage() {
         <Card className="p-4 bg-card/50 backdrop-blur-sm">
           <h3 className="text-lg font-semibold mb-3 text-foreground">ECG-OXP</h3>
           <ECGWaveform
-            data={waveforms.ecg}
             color="green"
             label="ECG"
             height={120}
+            mmPerUnit={10}
+            unit="mV"
           />
         </Card>
 
@@ -226,10 +245,8 @@ export default function DashboardPage() {
         <Card className="p-4 bg-card/50 backdrop-blur-sm">
           <h3 className="text-lg font-semibold mb-3 text-foreground">ETCO2</h3>
           <ECGWaveform
-            data={waveforms.etco2}
             color="yellow"
             label="ETCO2"
-            value="28"
             height={100}
           />
         </Card>
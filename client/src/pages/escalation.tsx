@@ -0,0 +1,36 @@
+import { useQuery } from "@tanstack/react-query";
+import { Skeleton } from "@/components/ui/skeleton";
+import { OnCallSchedulesCard } from "@/components/on-call-schedules-card";
+import { EscalationPoliciesCard } from "@/components/escalation-policies-card";
+import type { OnCallSchedule, User } from "@shared/schema";
+
+export default function EscalationPage() {
+  const { data: allUsers, isLoading } = useQuery<User[]>({
+    queryKey: ["/api/admin/users"],
+  });
+
+  const { data: schedules } = useQuery<OnCallSchedule[]>({
+    queryKey: ["/api/admin/on-call-schedules"],
+  });
+
+  // Only admins can be on call or be escalated to
+  const clinicians = allUsers?.filter((u) => u.role === "admin") || [];
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground mb-2">Escalation</h1>
+        <p className="text-muted-foreground">Who is notified when an alarm goes unacknowledged, and when</p>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-96" />
+      ) : (
+        <>
+          <EscalationPoliciesCard clinicians={clinicians} schedules={schedules || []} />
+          <OnCallSchedulesCard clinicians={clinicians} />
+        </>
+      )}
+    </div>
+  );
+}
@@ -3,10 +3,11 @@ import { Card } from "@/components/ui/card";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Phone, Mail, Droplet, User as UserIcon } from "lucide-react";
+import { useActivePatient } from "@/hooks/use-active-patient";
 import type { User, PatientRecord } from "@shared/schema";
 
 export default function ProfilePage() {
-  const userId = localStorage.getItem("userId");
+  const { patientId: userId } = useActivePatient();
 
   const { data: user, isLoading: userLoading } = useQuery<User>({
     queryKey: [`/api/users/${userId}`],
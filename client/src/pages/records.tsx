@@ -3,17 +3,38 @@ import { useQuery } from "@tanstack/react-query";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
-import type { EcgData } from "@shared/schema";
+import { useUnitPreferences } from "@/hooks/use-unit-preferences";
+import { useActivePatient } from "@/hooks/use-active-patient";
+import { displayUnit } from "@shared/units";
+import type { News2HistoryEntry, Observation, PpgComparison, VitalMetric } from "@shared/schema";
 
 type FilterPeriod = "day" | "month" | "year";
 
 export default function RecordsPage() {
-  const userId = localStorage.getItem("userId");
+  const { patientId: userId } = useActivePatient();
   const [filterPeriod, setFilterPeriod] = useState<FilterPeriod>("month");
+  const [showFlagged, setShowFlagged] = useState(false);
+  const units = useUnitPreferences();
 
-  const { data: ecgRecords, isLoading } = useQuery<EcgData[]>({
-    queryKey: [`/api/ecg-data/${userId}/${filterPeriod}`],
+  // Flagged (suspicious) values are hidden unless asked for; rejected ones never come back
+  const { data: observations, isLoading } = useQuery<Observation[]>({
+    queryKey: [`/api/observations/${userId}/${filterPeriod}${showFlagged ? "?includeFlagged=true" : ""}`],
+    enabled: !!userId,
+  });
+
+  // Server-side PPG analysis next to what the device reported for the same measurement
+  const { data: ppgAnalyses } = useQuery<PpgComparison[]>({
+    queryKey: [`/api/ppg-analyses/${userId}/${filterPeriod}`],
+    enabled: !!userId,
+  });
+
+  // NEWS2 history, one entry per change of score
+  const { data: news2History } = useQuery<News2HistoryEntry[]>({
+    queryKey: [`/api/vitals/news2/${userId}/${filterPeriod}`],
     enabled: !!userId,
   });
 
@@ -26,15 +47,37 @@ export default function RecordsPage() {
     );
   }
 
-  // Transform data for charts
-  const chartData = ecgRecords?.map((record) => ({
-    date: new Date(record.timestamp).toLocaleDateString(),
-    heartRate: record.heartRate,
-    spo2: record.spo2,
-    temperature: record.temperature,
-    systolic: record.systolicBP,
-    diastolic: record.diastolicBP,
-  })) || [];
+  // One chart row per measurement time, holding only the metrics measured at that time.
+  // Values derived on the server from raw PPG get their own "<metric>_derived" series.
+  const chartRows = (metrics: VitalMetric[]) => {
+    const rows = new Map<string, Record<string, string | number>>();
+    [...(observations || [])]
+      .filter((observation) => metrics.includes(observation.metric as VitalMetric))
+      .sort((a, b) => new Date(a.observedAt).getTime() - new Date(b.observedAt).getTime())
+      .forEach((observation) => {
+        const key = new Date(observation.observedAt).toISOString();
+        const row = rows.get(key) || { date: new Date(observation.observedAt).toLocaleString() };
+        const series = observation.source === "derived" ? `${observation.metric}_derived` : observation.metric;
+        row[series] = observation.value;
+        rows.set(key, row);
+      });
+    return Array.from(rows.values());
+  };
+
+  const heartRateData = chartRows(["heart_rate"]);
+  const spo2Data = chartRows(["spo2"]);
+  const bloodPressureData = chartRows(["systolic_bp", "diastolic_bp"]);
+  const temperatureData = chartRows(["temperature"]);
+  const news2Data = [...(news2History || [])].reverse().map((entry) => ({
+    date: new Date(entry.calculatedAt).toLocaleString(),
+    score: entry.score,
+  }));
+
+  const noMeasurements = (
+    <p className="h-[300px] flex items-center justify-center text-sm text-muted-foreground">
+      No measurements in this period.
+    </p>
+  );
 
   return (
     <div className="p-6 space-y-6">
@@ -43,7 +86,18 @@ export default function RecordsPage() {
           <h1 className="text-3xl font-bold text-foreground mb-2">Health Records</h1>
           <p className="text-muted-foreground">View and analyze your health data over time</p>
         </div>
-        <div className="flex gap-2">
+        <div className="flex items-center gap-2">
+          <div className="flex items-center gap-2 mr-4">
+            <Switch
+              id="show-flagged"
+              checked={showFlagged}
+              onCheckedChange={setShowFlagged}
+              data-testid="switch-show-flagged"
+            />
+            <Label htmlFor="show-flagged" className="text-sm cursor-pointer">
+              Show flagged readings
+            </Label>
+          </div>
           <Button
             variant={filterPeriod === "day" ? "default" : "outline"}
             onClick={() => setFilterPeriod("day")}
@@ -68,7 +122,7 @@ export default function RecordsPage() {
         </div>
       </div>
 
-      {chartData.length === 0 ? (
+      {!observations || observations.length === 0 ? (
         <Card className="p-12 text-center">
           <p className="text-muted-foreground">No health data available for the selected period.</p>
         </Card>
@@ -77,117 +131,227 @@ export default function RecordsPage() {
           {/* Heart Rate Chart */}
           <Card className="p-6">
             <h2 className="text-xl font-semibold mb-4 text-foreground">Heart Rate Trend</h2>
-            <ResponsiveContainer width="100%" height={300}>
-              <LineChart data={chartData}>
-                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
-                <XAxis dataKey="date" stroke="hsl(var(--muted-foreground))" />
-                <YAxis stroke="hsl(var(--muted-foreground))" />
-                <Tooltip
-                  contentStyle={{
-                    backgroundColor: "hsl(var(--card))",
-                    border: "1px solid hsl(var(--border))",
-                    borderRadius: "6px",
-                  }}
-                />
-                <Legend />
-                <Line
-                  type="monotone"
-                  dataKey="heartRate"
-                  stroke="hsl(var(--vital-cyan))"
-                  strokeWidth={2}
-                  name="Heart Rate (BPM)"
-                />
-              </LineChart>
-            </ResponsiveContainer>
+            {heartRateData.length === 0 ? (
+              noMeasurements
+            ) : (
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart data={heartRateData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                  <XAxis dataKey="date" stroke="hsl(var(--muted-foreground))" />
+                  <YAxis stroke="hsl(var(--muted-foreground))" />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: "hsl(var(--card))",
+                      border: "1px solid hsl(var(--border))",
+                      borderRadius: "6px",
+                    }}
+                  />
+                  <Legend />
+                  <Line
+                    type="monotone"
+                    dataKey="heart_rate"
+                    stroke="hsl(var(--vital-cyan))"
+                    strokeWidth={2}
+                    name="Heart Rate (BPM)"
+                    connectNulls
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="heart_rate_derived"
+                    stroke="hsl(var(--vital-green))"
+                    strokeWidth={2}
+                    strokeDasharray="5 5"
+                    name="Derived from PPG"
+                    connectNulls
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            )}
           </Card>
 
           {/* SpO2 Chart */}
           <Card className="p-6">
             <h2 className="text-xl font-semibold mb-4 text-foreground">Oxygen Saturation (SpO2)</h2>
-            <ResponsiveContainer width="100%" height={300}>
-              <LineChart data={chartData}>
-                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
-                <XAxis dataKey="date" stroke="hsl(var(--muted-foreground))" />
-                <YAxis stroke="hsl(var(--muted-foreground))" domain={[90, 100]} />
-                <Tooltip
-                  contentStyle={{
-                    backgroundColor: "hsl(var(--card))",
-                    border: "1px solid hsl(var(--border))",
-                    borderRadius: "6px",
-                  }}
-                />
-                <Legend />
-                <Line
-                  type="monotone"
-                  dataKey="spo2"
-                  stroke="hsl(var(--vital-cyan))"
-                  strokeWidth={2}
-                  name="SpO2 (%)"
-                />
-              </LineChart>
-            </ResponsiveContainer>
+            {spo2Data.length === 0 ? (
+              noMeasurements
+            ) : (
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart data={spo2Data}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                  <XAxis dataKey="date" stroke="hsl(var(--muted-foreground))" />
+                  <YAxis stroke="hsl(var(--muted-foreground))" domain={[90, 100]} />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: "hsl(var(--card))",
+                      border: "1px solid hsl(var(--border))",
+                      borderRadius: "6px",
+                    }}
+                  />
+                  <Legend />
+                  <Line
+                    type="monotone"
+                    dataKey="spo2"
+                    stroke="hsl(var(--vital-cyan))"
+                    strokeWidth={2}
+                    name="SpO2 (%)"
+                    connectNulls
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="spo2_derived"
+                    stroke="hsl(var(--vital-green))"
+                    strokeWidth={2}
+                    strokeDasharray="5 5"
+                    name="Derived from PPG"
+                    connectNulls
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            )}
           </Card>
 
           {/* Blood Pressure Chart */}
           <Card className="p-6">
             <h2 className="text-xl font-semibold mb-4 text-foreground">Blood Pressure</h2>
-            <ResponsiveContainer width="100%" height={300}>
-              <LineChart data={chartData}>
-                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
-                <XAxis dataKey="date" stroke="hsl(var(--muted-foreground))" />
-                <YAxis stroke="hsl(var(--muted-foreground))" />
-                <Tooltip
-                  contentStyle={{
-                    backgroundColor: "hsl(var(--card))",
-                    border: "1px solid hsl(var(--border))",
-                    borderRadius: "6px",
-                  }}
-                />
-                <Legend />
-                <Line
-                  type="monotone"
-                  dataKey="systolic"
-                  stroke="hsl(var(--vital-yellow))"
-                  strokeWidth={2}
-                  name="Systolic"
-                />
-                <Line
-                  type="monotone"
-                  dataKey="diastolic"
-                  stroke="hsl(var(--vital-red))"
-                  strokeWidth={2}
-                  name="Diastolic"
-                />
-              </LineChart>
-            </ResponsiveContainer>
+            {bloodPressureData.length === 0 ? (
+              noMeasurements
+            ) : (
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart data={bloodPressureData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                  <XAxis dataKey="date" stroke="hsl(var(--muted-foreground))" />
+                  <YAxis stroke="hsl(var(--muted-foreground))" />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: "hsl(var(--card))",
+                      border: "1px solid hsl(var(--border))",
+                      borderRadius: "6px",
+                    }}
+                  />
+                  <Legend />
+                  <Line
+                    type="monotone"
+                    dataKey="systolic_bp"
+                    stroke="hsl(var(--vital-yellow))"
+                    strokeWidth={2}
+                    connectNulls
+                    name={`Systolic (${displayUnit("systolic_bp", units)})`}
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="diastolic_bp"
+                    stroke="hsl(var(--vital-red))"
+                    strokeWidth={2}
+                    connectNulls
+                    name={`Diastolic (${displayUnit("diastolic_bp", units)})`}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            )}
           </Card>
 
           {/* Temperature Chart */}
           <Card className="p-6">
             <h2 className="text-xl font-semibold mb-4 text-foreground">Body Temperature</h2>
-            <ResponsiveContainer width="100%" height={300}>
-              <LineChart data={chartData}>
-                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
-                <XAxis dataKey="date" stroke="hsl(var(--muted-foreground))" />
-                <YAxis stroke="hsl(var(--muted-foreground))" domain={[36, 39]} />
-                <Tooltip
-                  contentStyle={{
-                    backgroundColor: "hsl(var(--card))",
-                    border: "1px solid hsl(var(--border))",
-                    borderRadius: "6px",
-                  }}
-                />
-                <Legend />
-                <Line
-                  type="monotone"
-                  dataKey="temperature"
-                  stroke="hsl(var(--vital-red))"
-                  strokeWidth={2}
-                  name="Temperature (°C)"
-                />
-              </LineChart>
-            </ResponsiveContainer>
+            {temperatureData.length === 0 ? (
+              noMeasurements
+            ) : (
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart data={temperatureData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                  <XAxis dataKey="date" stroke="hsl(var(--muted-foreground))" />
+                  <YAxis stroke="hsl(var(--muted-foreground))" domain={[36, 39]} />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: "hsl(var(--card))",
+                      border: "1px solid hsl(var(--border))",
+                      borderRadius: "6px",
+                    }}
+                  />
+                  <Legend />
+                  <Line
+                    type="monotone"
+                    dataKey="temperature"
+                    stroke="hsl(var(--vital-red))"
+                    strokeWidth={2}
+                    name={`Temperature (${displayUnit("temperature", units)})`}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            )}
+          </Card>
+
+          {/* NEWS2 Chart: the score holds until the next change */}
+          <Card className="p-6">
+            <h2 className="text-xl font-semibold mb-4 text-foreground">Early Warning Score (NEWS2)</h2>
+            {news2Data.length === 0 ? (
+              noMeasurements
+            ) : (
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart data={news2Data}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                  <XAxis dataKey="date" stroke="hsl(var(--muted-foreground))" />
+                  <YAxis stroke="hsl(var(--muted-foreground))" allowDecimals={false} domain={[0, "dataMax + 1"]} />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: "hsl(var(--card))",
+                      border: "1px solid hsl(var(--border))",
+                      borderRadius: "6px",
+                    }}
+                  />
+                  <Legend />
+                  <Line
+                    type="stepAfter"
+                    dataKey="score"
+                    stroke="hsl(var(--vital-yellow))"
+                    strokeWidth={2}
+                    name="NEWS2"
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            )}
           </Card>
+
+          {/* Derived vs device-reported PPG values */}
+          {ppgAnalyses && ppgAnalyses.length > 0 && (
+            <Card className="p-6">
+              <h2 className="text-xl font-semibold mb-4 text-foreground">PPG Analysis</h2>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Measured</TableHead>
+                      <TableHead>Heart Rate (derived / device)</TableHead>
+                      <TableHead>SpO2 (derived / device)</TableHead>
+                      <TableHead>Perfusion Index</TableHead>
+                      <TableHead>Signal Quality</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {ppgAnalyses.slice(0, 20).map((analysis) => (
+                      <TableRow key={analysis.id} data-testid={`row-ppg-analysis-${analysis.id}`}>
+                        <TableCell className="text-xs">{new Date(analysis.startedAt).toLocaleString()}</TableCell>
+                        <TableCell className="font-mono text-xs">
+                          {analysis.heartRate ?? "—"} / {analysis.reportedHeartRate ?? "—"}
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">
+                          {analysis.spo2 ?? "—"} / {analysis.reportedSpo2 ?? "—"}
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">
+                          {analysis.perfusionIndex !== null ? `${analysis.perfusionIndex}%` : "—"}
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">
+                          <span className={analysis.signalQuality < 0.6 ? "text-vital-yellow" : "text-vital-green"}>
+                            {Math.round(analysis.signalQuality * 100)}%
+                          </span>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </Card>
+          )}
         </div>
       )}
     </div>
@@ -2,12 +2,14 @@ import { Card } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Button } from "@/components/ui/button";
-import { Bell, Moon, Lock, Shield } from "lucide-react";
+import { Moon, Lock, Shield } from "lucide-react";
 import { useState, useEffect } from "react";
+import { DevicePairingCard } from "@/components/device-pairing-card";
+import { UnitPreferencesCard } from "@/components/unit-preferences-card";
+import { NotificationPreferencesCard } from "@/components/notification-preferences-card";
 
 export default function SettingsPage() {
   const [darkMode, setDarkMode] = useState(false);
-  const [notifications, setNotifications] = useState(true);
 
   useEffect(() => {
     const isDark = document.documentElement.classList.contains("dark");
@@ -57,27 +59,13 @@ export default function SettingsPage() {
         </Card>
 
         {/* Notifications */}
-        <Card className="p-6">
-          <div className="flex items-start justify-between">
-            <div className="flex items-start gap-4">
-              <Bell className="h-5 w-5 text-primary mt-1" />
-              <div>
-                <Label htmlFor="notifications" className="text-base font-semibold cursor-pointer">
-                  Notifications
-                </Label>
-                <p className="text-sm text-muted-foreground mt-1">
-                  Receive alerts for vital sign changes
-                </p>
-              </div>
-            </div>
-            <Switch
-              id="notifications"
-              checked={notifications}
-              onCheckedChange={setNotifications}
-              data-testid="switch-notifications"
-            />
-          </div>
-        </Card>
+        <NotificationPreferencesCard />
+
+        {/* Display units */}
+        <UnitPreferencesCard />
+
+        {/* Device pairing */}
+        <DevicePairingCard />
 
         {/* Security */}
         <Card className="p-6">
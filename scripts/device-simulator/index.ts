@@ -0,0 +1,336 @@
+// Simulates one or more ESP32 monitors against a running server, sending the same
+// signed JSON payloads as the firmware. Run `npm run simulate -- --help` for usage.
+import { appendFileSync, readFileSync } from "fs";
+import { randomBytes } from "crypto";
+import { parseArgs } from "util";
+import mqtt, { type MqttClient } from "mqtt";
+import { computeDeviceSignature, generateDeviceNonce } from "../../server/device-signature";
+import { scenarios, synthesizePpg, type Scenario } from "./scenarios";
+
+interface DeviceCredentials {
+  deviceId: string;
+  keyId: string;
+  secret: string;
+  scenario?: string; // Overrides --scenario for this device
+}
+
+// One request as written by --record and read by --replay (JSON lines)
+interface RecordedRequest {
+  offsetMs: number; // Since the start of the recording
+  deviceId: string;
+  path: string;
+  body: Record<string, unknown>;
+}
+
+const VITALS_SAMPLING_MS = 5000;
+const PPG_SAMPLE_RATE_HZ = 25;
+const MQTT_TOPIC_PREFIX = "devices";
+const MQTT_ACK_TIMEOUT_MS = 10000;
+
+const usage = `Usage: npm run simulate -- [options]
+
+Devices (credentials are issued from the admin device list):
+  --device-id <id> --key-id <key> --secret <secret>   Simulate a single device
+  --devices <file>         JSON array of { deviceId, keyId, secret, scenario? } for several devices
+
+Generating traffic:
+  --scenario <name>        ${Object.keys(scenarios).join(", ")} (default normal)
+  --duration <seconds>     How long to run (default 300)
+  --interval <seconds>     Time between measurements per device (default 10)
+  --waveform               Also upload raw PPG waveform chunks
+  --record <file>          Append every request to a session file
+
+Replaying a session:
+  --replay <file>          Send a recorded session instead of generating traffic
+  --speed <factor>         Replay faster (2 = twice as fast, default 1)
+
+Common:
+  --server <url>           Server to send to (default http://localhost:5000)
+  --mqtt <url>             Publish readings to this MQTT broker instead of POSTing them
+                           (waveforms still go over HTTP)
+  --list-scenarios         Describe the available scenarios
+  --help`;
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, Math.max(0, ms)));
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function loadDevices(values: Record<string, string | boolean | undefined>): DeviceCredentials[] {
+  if (typeof values.devices === "string") {
+    const devices = JSON.parse(readFileSync(values.devices, "utf8")) as DeviceCredentials[];
+    if (!Array.isArray(devices) || devices.length === 0) fail(`${values.devices} must contain a non-empty JSON array`);
+    return devices;
+  }
+  if (typeof values["device-id"] === "string" && typeof values["key-id"] === "string" && typeof values.secret === "string") {
+    return [{ deviceId: values["device-id"], keyId: values["key-id"], secret: values.secret }];
+  }
+  fail("Specify --devices <file>, or --device-id, --key-id and --secret\n\n" + usage);
+}
+
+class SignedClient {
+  // Pending MQTT publishes by nonce, resolved with the status from the server's ack
+  private pendingAcks = new Map<string, (status: number | null) => void>();
+
+  constructor(
+    private server: string,
+    private recordFile?: string,
+    private broker?: MqttClient,
+    private startedAt = Date.now(),
+  ) {
+    broker?.subscribe(`${MQTT_TOPIC_PREFIX}/+/ack`, { qos: 1 });
+    broker?.on("message", (_topic, payload) => {
+      const ack = JSON.parse(payload.toString());
+      const resolve = this.pendingAcks.get(ack.nonce);
+      if (!resolve) return;
+      if (ack.status >= 300) console.warn(`[mqtt] ${ack.status}: ${ack.message}`);
+      this.pendingAcks.delete(ack.nonce);
+      resolve(ack.status);
+    });
+  }
+
+  async post(device: DeviceCredentials, path: string, body: Record<string, unknown>): Promise<number | null> {
+    if (this.recordFile) {
+      const entry: RecordedRequest = { offsetMs: Date.now() - this.startedAt, deviceId: device.deviceId, path, body };
+      appendFileSync(this.recordFile, JSON.stringify(entry) + "\n");
+    }
+
+    const raw = JSON.stringify(body);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const nonce = generateDeviceNonce();
+    const signature = computeDeviceSignature(device.secret, timestamp, nonce, raw);
+
+    // The bridge takes single readings on devices/{id}/{data_type}, signed as over HTTP
+    if (this.broker && path === "/api/vitals") {
+      const topic = `${MQTT_TOPIC_PREFIX}/${device.deviceId}/${body.data_type}`;
+      const envelope = JSON.stringify({ key_id: device.keyId, timestamp, nonce, signature, body: raw });
+      return new Promise((resolve) => {
+        const timer = setTimeout(() => {
+          this.pendingAcks.delete(nonce);
+          console.warn(`[${device.deviceId}] no ack on ${topic} within ${MQTT_ACK_TIMEOUT_MS / 1000} s`);
+          resolve(null);
+        }, MQTT_ACK_TIMEOUT_MS);
+        this.pendingAcks.set(nonce, (status) => {
+          clearTimeout(timer);
+          resolve(status);
+        });
+        this.broker!.publish(topic, envelope, { qos: 1 });
+      });
+    }
+
+    try {
+      const response = await fetch(this.server + path, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Device-Id": device.deviceId,
+          "X-Device-Key-Id": device.keyId,
+          "X-Device-Timestamp": timestamp,
+          "X-Device-Nonce": nonce,
+          "X-Device-Signature": signature,
+        },
+        body: raw,
+      });
+      if (!response.ok) {
+        const { message } = await response.json().catch(() => ({ message: response.statusText }));
+        console.warn(`[${device.deviceId}] ${path} ${response.status}: ${message}`);
+      }
+      return response.status;
+    } catch (error: any) {
+      console.warn(`[${device.deviceId}] ${path} failed: ${error.message}`);
+      return null;
+    }
+  }
+}
+
+// Runs one simulated device: a temperature reading and a 5 s vitals measurement every
+// interval, with the telemetry fields the firmware adds to each payload
+async function simulateDevice(
+  client: SignedClient,
+  device: DeviceCredentials,
+  scenario: Scenario,
+  options: { durationMs: number; intervalMs: number; waveform: boolean },
+): Promise<void> {
+  // Fresh boot per run, so readings never collide with an earlier run's idempotency keys
+  const bootId = randomBytes(4).toString("hex");
+  const bootedAt = Date.now() - 30000;
+  const millis = () => Date.now() - bootedAt;
+  const startedAt = Date.now();
+  let wifiRssi = -55;
+  let wasOffline = false;
+
+  while (Date.now() - startedAt < options.durationMs) {
+    const elapsedMs = Date.now() - startedAt;
+    const vitals = scenario.vitals(elapsedMs, elapsedMs / options.durationMs);
+    wifiRssi = Math.max(-90, Math.min(-35, wifiRssi + Math.round((Math.random() * 2 - 1) * 3)));
+    const telemetry = { wifi_rssi: wifiRssi, free_heap: 180000 + Math.round(Math.random() * 20000), boot_id: bootId };
+
+    const offline = scenario.offline?.(elapsedMs) ?? false;
+    if (offline !== wasOffline) {
+      console.log(`[${device.deviceId}] ${offline ? "going offline" : "back online"}`);
+      wasOffline = offline;
+    }
+
+    if (!offline) {
+      const temperature = round(vitals.temperature, 1);
+      await client.post(device, "/api/vitals", {
+        device_id: device.deviceId,
+        timestamp: millis(),
+        data_type: "temperature",
+        sensor_type: "LM35",
+        temperature,
+        temperature_unit: "celsius",
+        body_contact: true,
+        data_quality: "instant",
+        sampling_used: false,
+        uptime_ms: millis(),
+        ...telemetry,
+      });
+
+      const samplingStartedAt = millis() - VITALS_SAMPLING_MS;
+      const heartRate = Math.round(vitals.heartRate);
+      const spo2 = round(vitals.spo2, 1);
+      const status = await client.post(device, "/api/vitals", {
+        device_id: device.deviceId,
+        timestamp: millis(),
+        data_type: "vitals",
+        sensor_type: "MAX30105",
+        sampling_duration_ms: VITALS_SAMPLING_MS,
+        sample_count: Math.round((VITALS_SAMPLING_MS / 1000) * PPG_SAMPLE_RATE_HZ),
+        sampling_complete: true,
+        sampling_used: true,
+        spo2,
+        heart_rate: heartRate,
+        finger_detected: vitals.fingerDetected,
+        data_quality: "sampled_high",
+        uptime_ms: millis(),
+        ...telemetry,
+      });
+
+      if (options.waveform && vitals.fingerDetected) {
+        const { ir, red } = synthesizePpg(vitals, PPG_SAMPLE_RATE_HZ, VITALS_SAMPLING_MS);
+        await client.post(device, "/api/vitals/waveform", {
+          device_id: device.deviceId,
+          sample_rate_hz: PPG_SAMPLE_RATE_HZ,
+          start_uptime_ms: samplingStartedAt,
+          uptime_ms: millis(),
+          ir,
+          red,
+        });
+      }
+
+      console.log(
+        `[${device.deviceId}] ${status ?? "error"} hr=${heartRate} spo2=${spo2} temp=${temperature}` +
+          (vitals.fingerDetected ? "" : " (no finger)"),
+      );
+    }
+
+    await sleep(options.intervalMs - (Date.now() - startedAt - elapsedMs));
+  }
+}
+
+// Sends a recorded session with its original spacing (divided by speed). Each run
+// gets new boot ids so replayed readings are stored again rather than deduplicated.
+async function replaySession(client: SignedClient, file: string, devices: DeviceCredentials[], speed: number): Promise<void> {
+  const requests = readFileSync(file, "utf8")
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as RecordedRequest)
+    .sort((a, b) => a.offsetMs - b.offsetMs);
+  const credentials = new Map(devices.map((device) => [device.deviceId, device]));
+  const missing = Array.from(new Set(requests.map((request) => request.deviceId))).filter((id) => !credentials.has(id));
+  if (missing.length > 0) fail(`No credentials for recorded device(s): ${missing.join(", ")}`);
+
+  const bootIds = new Map<string, string>();
+  const startedAt = Date.now();
+  console.log(`Replaying ${requests.length} requests from ${file} at ${speed}x`);
+
+  for (const request of requests) {
+    await sleep(startedAt + request.offsetMs / speed - Date.now());
+    if (!bootIds.has(request.deviceId)) bootIds.set(request.deviceId, randomBytes(4).toString("hex"));
+    const body = "data_type" in request.body ? { ...request.body, boot_id: bootIds.get(request.deviceId) } : request.body;
+    const status = await client.post(credentials.get(request.deviceId)!, request.path, body);
+    console.log(`[${request.deviceId}] ${request.path} ${status ?? "error"}`);
+  }
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      server: { type: "string", default: "http://localhost:5000" },
+      "device-id": { type: "string" },
+      "key-id": { type: "string" },
+      secret: { type: "string" },
+      mqtt: { type: "string" },
+      devices: { type: "string" },
+      scenario: { type: "string", default: "normal" },
+      duration: { type: "string", default: "300" },
+      interval: { type: "string", default: "10" },
+      waveform: { type: "boolean", default: false },
+      record: { type: "string" },
+      replay: { type: "string" },
+      speed: { type: "string", default: "1" },
+      "list-scenarios": { type: "boolean", default: false },
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(usage);
+    return;
+  }
+  if (values["list-scenarios"]) {
+    for (const [name, scenario] of Object.entries(scenarios)) console.log(`${name.padEnd(14)} ${scenario.description}`);
+    return;
+  }
+
+  const devices = loadDevices(values);
+  const server = values.server!.replace(/\/$/, "");
+  const broker = values.mqtt ? await mqtt.connectAsync(values.mqtt) : undefined;
+
+  try {
+    if (values.replay) {
+      const speed = Number(values.speed);
+      if (!(speed > 0)) fail("--speed must be a positive number");
+      await replaySession(new SignedClient(server, undefined, broker), values.replay, devices, speed);
+    } else {
+      await generateTraffic(new SignedClient(server, values.record, broker), devices, values);
+    }
+  } finally {
+    await broker?.endAsync();
+  }
+}
+
+async function generateTraffic(
+  client: SignedClient,
+  devices: DeviceCredentials[],
+  values: { scenario?: string; duration?: string; interval?: string; waveform?: boolean },
+): Promise<void> {
+  const durationMs = Number(values.duration) * 1000;
+  const intervalMs = Number(values.interval) * 1000;
+  if (!(durationMs > 0) || !(intervalMs > 0)) fail("--duration and --interval must be positive numbers of seconds");
+  for (const device of devices) {
+    const name = device.scenario ?? values.scenario!;
+    if (!scenarios[name]) fail(`Unknown scenario "${name}". Available: ${Object.keys(scenarios).join(", ")}`);
+  }
+
+  console.log(`Simulating ${devices.length} device(s) for ${durationMs / 1000} s`);
+  await Promise.all(devices.map((device) =>
+    simulateDevice(client, device, scenarios[device.scenario ?? values.scenario!], {
+      durationMs,
+      intervalMs,
+      waveform: values.waveform!,
+    })
+  ));
+}
+
+main().catch((error) => fail(error instanceof Error ? error.message : String(error)));
@@ -0,0 +1,105 @@
+// Physiological scenarios for simulated devices. Each maps the time since the
+// simulation started to the vitals a patient would show at that moment.
+
+export interface SimulatedVitals {
+  heartRate: number;
+  spo2: number; // %
+  temperature: number; // °C
+  fingerDetected: boolean;
+}
+
+export interface Scenario {
+  description: string;
+  // progress runs from 0 at the start to 1 at the end of the simulation
+  vitals(elapsedMs: number, progress: number): SimulatedVitals;
+  // Whether the device is offline (sends nothing) at this moment
+  offline?(elapsedMs: number): boolean;
+}
+
+const BASELINE = { heartRate: 72, spo2: 98, temperature: 36.8 };
+
+// Random wobble so consecutive readings are not identical
+function jitter(amplitude: number): number {
+  return (Math.random() * 2 - 1) * amplitude;
+}
+
+// 0 before start, 1 after end, linear in between
+function ramp(progress: number, start: number, end: number): number {
+  if (progress <= start) return 0;
+  if (progress >= end) return 1;
+  return (progress - start) / (end - start);
+}
+
+function baseline(): SimulatedVitals {
+  return {
+    heartRate: BASELINE.heartRate + jitter(3),
+    spo2: BASELINE.spo2 + jitter(0.6),
+    temperature: BASELINE.temperature + jitter(0.1),
+    fingerDetected: true,
+  };
+}
+
+export const scenarios: Record<string, Scenario> = {
+  normal: {
+    description: "Healthy resting adult",
+    vitals: () => baseline(),
+  },
+  fever: {
+    description: "Temperature climbs to 39.5 °C over the run, heart rate rises about 10 bpm per °C",
+    vitals: (_elapsedMs, progress) => {
+      const vitals = baseline();
+      const rise = (39.5 - BASELINE.temperature) * ramp(progress, 0.1, 0.8);
+      return { ...vitals, temperature: vitals.temperature + rise, heartRate: vitals.heartRate + rise * 10 };
+    },
+  },
+  desaturation: {
+    description: "SpO2 falls to about 84% mid-run and partially recovers, with a compensating heart rate rise",
+    vitals: (_elapsedMs, progress) => {
+      const vitals = baseline();
+      const drop = 14 * (ramp(progress, 0.2, 0.5) - 0.6 * ramp(progress, 0.7, 0.95));
+      return { ...vitals, spo2: vitals.spo2 - drop, heartRate: vitals.heartRate + drop * 1.5 };
+    },
+  },
+  tachycardia: {
+    description: "Heart rate ramps from resting to about 150 bpm",
+    vitals: (_elapsedMs, progress) => {
+      const vitals = baseline();
+      return { ...vitals, heartRate: vitals.heartRate + 78 * ramp(progress, 0.1, 0.6) };
+    },
+  },
+  dropout: {
+    description: "Normal vitals, but the device goes offline for 45 s every 2 minutes and the finger slips off now and then",
+    vitals: () => ({ ...baseline(), fingerDetected: Math.random() > 0.15 }),
+    offline: (elapsedMs) => elapsedMs % 120000 >= 75000,
+  },
+};
+
+// Raw MAX30105 counts for a PPG window at the given heart rate and SpO2. The red
+// pulse amplitude follows the ratio of ratios the server inverts (SpO2 = 110 - 25R).
+export function synthesizePpg(
+  vitals: SimulatedVitals,
+  sampleRateHz: number,
+  durationMs: number,
+): { ir: number[]; red: number[] } {
+  const count = Math.round((sampleRateHz * durationMs) / 1000);
+  const dcIr = 120000;
+  const dcRed = 90000;
+  const acIr = dcIr * 0.02;
+  const ratio = Math.max(0.4, Math.min(1.6, (110 - vitals.spo2) / 25));
+  const acRed = dcRed * 0.02 * ratio;
+  const beatHz = vitals.heartRate / 60;
+  const ir: number[] = [];
+  const red: number[] = [];
+
+  for (let index = 0; index < count; index++) {
+    const seconds = index / sampleRateHz;
+    const phase = (seconds * beatHz) % 1;
+    // Sharp systolic upstroke followed by a slower decay; more blood means fewer counts
+    const pulse = phase < 0.15 ? phase / 0.15 : Math.exp(-(phase - 0.15) * 4);
+    const breathing = Math.sin(2 * Math.PI * 0.25 * seconds) * 0.003;
+    ir.push(Math.round(dcIr * (1 + breathing) - acIr * pulse + jitter(acIr * 0.03)));
+    red.push(Math.round(dcRed * (1 + breathing) - acRed * pulse + jitter(acRed * 0.03)));
+  }
+
+  return { ir, red };
+}
@@ -0,0 +1,21 @@
+// In-process MQTT broker for trying the MQTT bridge without installing mosquitto:
+//   npm run mqtt:broker
+//   MQTT_URL=mqtt://localhost:1883 npm run dev
+import { createServer } from "net";
+import Aedes from "aedes";
+
+const port = parseInt(process.env.MQTT_BROKER_PORT || "1883", 10);
+const broker = new Aedes();
+const server = createServer(broker.handle);
+
+broker.on("client", (client) => console.log(`client connected: ${client.id}`));
+broker.on("clientDisconnect", (client) => console.log(`client disconnected: ${client.id}`));
+broker.on("publish", (packet, client) => {
+  if (client) console.log(`${client.id} -> ${packet.topic} (qos ${packet.qos}, ${packet.payload.length} bytes)`);
+});
+
+server.listen(port, () => console.log(`MQTT broker listening on port ${port}`));
+
+const shutdown = () => broker.close(() => server.close(() => process.exit(0)));
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
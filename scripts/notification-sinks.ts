@@ -0,0 +1,60 @@
+// Local stand-ins for the notification channels, printing everything they receive:
+//   npm run notify:sinks
+//   SMTP_URL=smtp://localhost:2525 SMS_GATEWAY_URL=http://localhost:8025/sms \
+//     NOTIFICATION_WEBHOOK_SECRET=dev-secret NOTIFICATION_WEBHOOK_ALLOWED_HOSTS=localhost npm run dev
+// and use http://localhost:8025/webhook as a webhook URL in the settings page (start the
+// sinks with the same NOTIFICATION_WEBHOOK_SECRET to check signatures).
+// SINK_FAIL_FIRST=<n> answers the first n HTTP requests with 503 to exercise retries.
+import { createServer } from "http";
+import { createHmac } from "crypto";
+import { SMTPServer } from "smtp-server";
+
+const smtpPort = parseInt(process.env.SMTP_SINK_PORT || "2525", 10);
+const httpPort = parseInt(process.env.HTTP_SINK_PORT || "8025", 10);
+const webhookSecret = process.env.NOTIFICATION_WEBHOOK_SECRET;
+let failuresLeft = parseInt(process.env.SINK_FAIL_FIRST || "0", 10);
+
+const smtp = new SMTPServer({
+  authOptional: true,
+  disabledCommands: ["STARTTLS"],
+  onData(stream, session, callback) {
+    const chunks: Buffer[] = [];
+    stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+    stream.on("end", () => {
+      const recipients = session.envelope.rcptTo.map((address) => address.address).join(", ");
+      console.log(`--- email to ${recipients}\n${Buffer.concat(chunks).toString("utf8").trim()}\n`);
+      callback();
+    });
+  },
+});
+
+const http = createServer((req, res) => {
+  const chunks: Buffer[] = [];
+  req.on("data", (chunk: Buffer) => chunks.push(chunk));
+  req.on("end", () => {
+    const body = Buffer.concat(chunks).toString("utf8");
+    if (failuresLeft > 0) {
+      failuresLeft--;
+      console.log(`--- ${req.method} ${req.url} answered 503 (${failuresLeft} more failures to go)`);
+      res.writeHead(503).end();
+      return;
+    }
+
+    let signature = "";
+    if (req.headers["x-notification-signature"]) {
+      const expected = webhookSecret
+        ? createHmac("sha256", webhookSecret).update(`${req.headers["x-notification-timestamp"]}\n${body}`).digest("hex")
+        : null;
+      signature = expected === null ? " (signed)" : expected === req.headers["x-notification-signature"] ? " (valid signature)" : " (INVALID signature)";
+    }
+    console.log(`--- ${req.method} ${req.url}${signature}\n${body}\n`);
+    res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify({ ok: true }));
+  });
+});
+
+smtp.listen(smtpPort, () => console.log(`SMTP sink listening on port ${smtpPort}`));
+http.listen(httpPort, () => console.log(`HTTP receiver listening on port ${httpPort} (SMS gateway at /sms, webhooks at any other path)`));
+
+const shutdown = () => smtp.close(() => http.close(() => process.exit(0)));
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
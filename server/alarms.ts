@@ -0,0 +1,198 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+import { notifyAlarm } from "./notifications";
+import { isVisible } from "@shared/validation";
+import {
+  VITAL_METRIC_CODES,
+  vitalMetrics,
+  type Alarm,
+  type AlarmLimit,
+  type AlarmLimitOverrides,
+  type AlarmPriority,
+  type Observation,
+  type ResolvedAlarmLimits,
+  type VitalMetric,
+} from "@shared/schema";
+
+export class AlarmError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "AlarmError";
+    this.status = status;
+  }
+}
+
+// Limits for patients without overrides, in canonical units. Rhythm and oxygenation
+// alarms wait a few seconds so a single motion artefact does not fire them.
+export const DEFAULT_ALARM_LIMITS: Record<VitalMetric, AlarmLimit> = {
+  heart_rate: { enabled: true, low: 40, high: 130, priority: "high", delaySeconds: 10, hysteresis: 5 },
+  spo2: { enabled: true, low: 90, high: null, priority: "high", delaySeconds: 10, hysteresis: 2 },
+  systolic_bp: { enabled: true, low: 90, high: 180, priority: "medium", delaySeconds: 0, hysteresis: 5 },
+  diastolic_bp: { enabled: true, low: 40, high: 110, priority: "medium", delaySeconds: 0, hysteresis: 5 },
+  temperature: { enabled: true, low: 35, high: 39, priority: "medium", delaySeconds: 0, hysteresis: 0.3 },
+  respiratory_rate: { enabled: true, low: 8, high: 25, priority: "high", delaySeconds: 10, hysteresis: 2 },
+};
+
+const priorityRank: Record<AlarmPriority, number> = { low: 0, medium: 1, high: 2 };
+
+// Highest priority first, then most recently triggered
+export function compareAlarms(a: Alarm, b: Alarm): number {
+  return (
+    priorityRank[b.priority as AlarmPriority] - priorityRank[a.priority as AlarmPriority] ||
+    b.triggeredAt.getTime() - a.triggeredAt.getTime()
+  );
+}
+
+function parseOverrides(json: string | undefined): AlarmLimitOverrides {
+  return json ? (JSON.parse(json) as AlarmLimitOverrides) : {};
+}
+
+// Defaults with a patient's overrides applied field by field
+export function mergeAlarmLimits(overrides: AlarmLimitOverrides): Record<VitalMetric, AlarmLimit> {
+  return Object.fromEntries(
+    VITAL_METRIC_CODES.map((metric) => [metric, { ...DEFAULT_ALARM_LIMITS[metric], ...overrides[metric] }])
+  ) as Record<VitalMetric, AlarmLimit>;
+}
+
+export async function resolveAlarmLimits(userId: string): Promise<ResolvedAlarmLimits> {
+  const record = await storage.getAlarmLimits(userId);
+  const overrides = parseOverrides(record?.limits);
+  return {
+    limits: mergeAlarmLimits(overrides),
+    defaults: DEFAULT_ALARM_LIMITS,
+    overrides,
+    updatedAt: record?.updatedAt ? new Date(record.updatedAt).toISOString() : null,
+  };
+}
+
+// Replaces a patient's overrides (an empty object clears them) and re-checks their
+// open alarms against the new limits
+export async function saveAlarmLimits(
+  userId: string,
+  overrides: AlarmLimitOverrides,
+  updatedBy: string | undefined,
+): Promise<ResolvedAlarmLimits> {
+  const limits = mergeAlarmLimits(overrides);
+  for (const metric of VITAL_METRIC_CODES) {
+    const { low, high } = limits[metric];
+    if (low !== null && high !== null && low >= high) {
+      throw new AlarmError(400, `${vitalMetrics[metric].label}: the low limit must be below the high limit`);
+    }
+  }
+
+  if (Object.keys(overrides).length === 0) {
+    await storage.deleteAlarmLimits(userId);
+  } else {
+    await storage.saveAlarmLimits(userId, overrides, updatedBy);
+  }
+
+  await evaluateAlarms(userId);
+  return resolveAlarmLimits(userId);
+}
+
+// Which limit a value is past, if any
+function crossedLimit(limit: AlarmLimit, value: number): "low" | "high" | null {
+  if (limit.low !== null && value < limit.low) return "low";
+  if (limit.high !== null && value > limit.high) return "high";
+  return null;
+}
+
+// Whether a value is back inside the crossed limit by at least the hysteresis margin.
+// An alarm whose limit was removed clears straight away.
+function hasCleared(limit: AlarmLimit, condition: string, value: number): boolean {
+  const threshold = condition === "low" ? limit.low : limit.high;
+  if (!limit.enabled || threshold === null) return true;
+  return condition === "low" ? value >= threshold + limit.hysteresis : value <= threshold - limit.hysteresis;
+}
+
+// Re-checks a patient's alarms against every value that was not rejected: a flagged value
+// (a sudden desaturation, an extreme heart rate) is exactly what an alarm must not miss.
+// Runs after every stored reading and whenever the patient's limits change; returns the
+// alarms it raised or resolved. A limit fires once the latest value and every consecutive
+// value before it have been past it for the limit's delay, so it needs a reading after the delay.
+export async function evaluateAlarms(userId: string, now: Date = new Date()): Promise<Alarm[]> {
+  const { limits } = await resolveAlarmLimits(userId);
+
+  // getObservationsByUserId is newest first
+  const history = new Map<VitalMetric, Observation[]>();
+  for (const observation of await storage.getObservationsByUserId(userId)) {
+    if (!(observation.metric in vitalMetrics) || !isVisible(observation.validationStatus, true)) continue;
+    const metric = observation.metric as VitalMetric;
+    if (!history.has(metric)) history.set(metric, []);
+    history.get(metric)!.push(observation);
+  }
+
+  const open = (await storage.getAlarmsByUserId(userId)).filter((alarm) => alarm.status !== "resolved");
+  const changed: Alarm[] = [];
+
+  for (const metric of VITAL_METRIC_CODES) {
+    const limit = limits[metric];
+    const values = history.get(metric) ?? [];
+    const latest = values[0];
+    const current = open.find((alarm) => alarm.metric === metric);
+
+    if (current) {
+      if (!hasCleared(limit, current.condition, latest?.value ?? current.lastValue)) {
+        if (latest && latest.value !== current.lastValue) {
+          await storage.updateAlarm(current.id, { lastValue: latest.value });
+        }
+        continue;
+      }
+      const resolved = await storage.updateAlarm(current.id, {
+        status: "resolved",
+        resolvedAt: now,
+        lastValue: latest?.value ?? current.lastValue,
+      });
+      changed.push(resolved!);
+    }
+
+    if (!limit.enabled || !latest) continue;
+    const condition = crossedLimit(limit, latest.value);
+    if (!condition) continue;
+
+    let onset = latest;
+    for (const observation of values) {
+      if (crossedLimit(limit, observation.value) !== condition) break;
+      onset = observation;
+    }
+    const observedAt = new Date(latest.observedAt);
+    if (observedAt.getTime() - new Date(onset.observedAt).getTime() < limit.delaySeconds * 1000) continue;
+
+    const threshold = condition === "low" ? limit.low! : limit.high!;
+    const alarm = await storage.createAlarm({
+      userId,
+      metric,
+      condition,
+      priority: limit.priority,
+      threshold,
+      triggerValue: latest.value,
+      lastValue: latest.value,
+      unit: vitalMetrics[metric].unit,
+      status: "active",
+      onsetAt: new Date(onset.observedAt),
+      triggeredAt: now,
+    });
+    log(
+      `${limit.priority} priority alarm for patient ${userId}: ${vitalMetrics[metric].label} ${latest.value} ${alarm.unit} is ${condition === "low" ? "below" : "above"} ${threshold}`,
+      "alarms",
+      "warn",
+    );
+    await notifyAlarm(alarm, now);
+    changed.push(alarm);
+  }
+
+  return changed;
+}
+
+// Marks an open alarm as seen by a clinician. It stays open until the value clears.
+export async function acknowledgeAlarm(id: string, acknowledgedBy: string | undefined, now: Date = new Date()): Promise<Alarm> {
+  const alarm = await storage.getAlarm(id);
+  if (!alarm) throw new AlarmError(404, "Alarm not found");
+  if (alarm.status === "resolved") throw new AlarmError(409, "Alarm is already resolved");
+  if (alarm.status === "acknowledged") return alarm;
+
+  const updated = await storage.updateAlarm(id, { status: "acknowledged", acknowledgedAt: now, acknowledgedBy: acknowledgedBy ?? null });
+  return updated!;
+}
@@ -0,0 +1,140 @@
+import { storage } from "./storage";
+import { roundForStorage } from "@shared/units";
+import { validateReading, worstStatus, type PreviousValue, type ValidationStatus } from "@shared/validation";
+import {
+  VITAL_METRIC_CODES,
+  vitalMetrics,
+  type Device,
+  type DeviceCalibration,
+  type InsertEcgData,
+  type Observation,
+  type ReapplyCalibrationData,
+  type VitalMetric,
+} from "@shared/schema";
+
+// What calibration did to one value of a device reading
+export interface AppliedCalibration {
+  rawValue: number;
+  calibrationId: string | null; // Null when no calibration was in force
+}
+
+export interface CalibratedReading {
+  data: InsertEcgData;
+  applied: Partial<Record<VitalMetric, AppliedCalibration>>;
+}
+
+export function applyCalibration(calibration: DeviceCalibration, rawValue: number): number {
+  return rawValue * calibration.gain + calibration.offset;
+}
+
+// Calibration in force for a metric at a given time. Calibrations are sorted newest
+// effectiveFrom first, so for equal dates the later correction wins.
+function calibrationAt(calibrations: DeviceCalibration[], metric: VitalMetric, at: Date): DeviceCalibration | undefined {
+  return calibrations.find((calibration) =>
+    calibration.metric === metric && calibration.effectiveFrom.getTime() <= at.getTime()
+  );
+}
+
+// Applies the device's calibrations to every measured value of a reading (already in
+// canonical units). Readings without a device are returned unchanged.
+export async function calibrateReading(data: InsertEcgData): Promise<CalibratedReading> {
+  if (!data.deviceId) return { data, applied: {} };
+
+  const calibrations = await storage.getDeviceCalibrations(data.deviceId);
+  const takenAt = data.timestamp ?? new Date();
+  const calibrated: InsertEcgData = { ...data };
+  const applied: Partial<Record<VitalMetric, AppliedCalibration>> = {};
+
+  for (const metric of VITAL_METRIC_CODES) {
+    const column = vitalMetrics[metric].column;
+    const rawValue = data[column];
+    if (rawValue === null || rawValue === undefined) continue;
+
+    const calibration = calibrationAt(calibrations, metric, takenAt);
+    if (calibration) {
+      calibrated[column] = roundForStorage(metric, applyCalibration(calibration, rawValue));
+    }
+    applied[metric] = { rawValue, calibrationId: calibration?.id ?? null };
+  }
+
+  return { data: calibrated, applied };
+}
+
+// The patient's accepted value of a metric that came last before an observation, as
+// ingestion compares a new value with the latest accepted one
+async function previousAccepted(observation: Observation): Promise<PreviousValue | undefined> {
+  return (await storage.getObservationsByUserId(observation.userId)).find((other) =>
+    other.id !== observation.id &&
+    other.metric === observation.metric &&
+    other.validationStatus === "accepted" &&
+    other.observedAt.getTime() < observation.observedAt.getTime()
+  );
+}
+
+// A reading's status is the worst of its values, and its reason all of theirs
+async function revalidateReading(readingId: string, userId: string, changes: Partial<InsertEcgData>): Promise<void> {
+  const values = (await storage.getObservationsByUserId(userId)).filter((observation) => observation.readingId === readingId);
+  const reasons = values.map((observation) => observation.validationReason).filter((reason): reason is string => !!reason);
+  await storage.updateEcgData(readingId, {
+    ...changes,
+    validationStatus: worstStatus(values.map((observation) => observation.validationStatus as ValidationStatus)),
+    validationReason: reasons.length > 0 ? reasons.join("; ") : null,
+  });
+}
+
+// Recalculates a device's stored values in a time window from their raw values and
+// the calibrations now on record, e.g. after a corrected calibration was entered.
+// Each changed value is validated again, as at ingestion, and both the observation and
+// the reading it came from are updated. Returns the number of values that changed and
+// the patients they belong to, whose alarms and snapshot are then out of date.
+export async function reapplyCalibrations(
+  device: Device,
+  window: ReapplyCalibrationData,
+): Promise<{ updated: number; userIds: string[] }> {
+  const calibrations = await storage.getDeviceCalibrations(device.id);
+  // Oldest first, so each value is compared with an already revalidated predecessor
+  const observations = await storage.getObservationsByDeviceId(device.id, window.from, window.to);
+  const userIds = new Set<string>();
+  let updated = 0;
+
+  for (const observation of observations) {
+    // Derived values are computed from the raw waveform, not measured by the sensor
+    if (observation.source !== "device" || !(observation.metric in vitalMetrics)) continue;
+    const metric = observation.metric as VitalMetric;
+    if (window.metric && window.metric !== metric) continue;
+
+    const rawValue = observation.rawValue ?? observation.value;
+    const calibration = calibrationAt(calibrations, metric, observation.observedAt);
+    const value = calibration ? roundForStorage(metric, applyCalibration(calibration, rawValue)) : rawValue;
+    const calibrationId = calibration?.id ?? null;
+    if (value === observation.value && calibrationId === observation.calibrationId) continue;
+
+    const reading = observation.readingId ? await storage.getEcgData(observation.readingId) : undefined;
+    const previous = await previousAccepted(observation);
+    const validation = validateReading(
+      { [metric]: value },
+      {
+        fingerDetected: reading?.fingerDetected ?? undefined,
+        bodyContact: reading?.bodyContact ?? undefined,
+        sampleCount: reading?.sampleCount ?? undefined,
+      },
+      previous ? { [metric]: previous } : {},
+      observation.observedAt,
+    ).metrics[metric]!;
+
+    await storage.updateObservation(observation.id, {
+      value,
+      rawValue,
+      calibrationId,
+      validationStatus: validation.status,
+      validationReason: validation.reason,
+    });
+    if (reading) {
+      await revalidateReading(reading.id, reading.userId, { [vitalMetrics[metric].column]: value });
+    }
+    userIds.add(observation.userId);
+    updated++;
+  }
+
+  return { updated, userIds: Array.from(userIds) };
+}
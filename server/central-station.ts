@@ -0,0 +1,66 @@
+import { storage } from "./storage";
+import { buildVitalsSnapshot } from "./ingestion";
+import { snapshotToDisplay } from "./display-units";
+import { compareByUrgency } from "@shared/clinical-ranges";
+import { fromCanonical, type UnitPreferences } from "@shared/units";
+import { isVisible } from "@shared/validation";
+import type { CentralStationTile, TrendPoint, VitalMetric } from "@shared/schema";
+
+// Metrics the bedside devices measure, charted on each tile
+const TREND_METRICS: VitalMetric[] = ["heart_rate", "spo2", "temperature"];
+const TREND_WINDOW_MS = 30 * 60 * 1000;
+const TREND_MAX_POINTS = 60;
+// Patients without a bound device still count as monitored if they reported this recently
+const RECENT_ACTIVITY_MS = 24 * 60 * 60 * 1000;
+
+// Evenly spaced subset of at most maxPoints, always keeping the newest point
+function downsample(points: TrendPoint[], maxPoints: number): TrendPoint[] {
+  if (points.length <= maxPoints) return points;
+  const step = points.length / maxPoints;
+  return Array.from({ length: maxPoints }, (_, index) => points[Math.floor(points.length - 1 - (maxPoints - 1 - index) * step)]);
+}
+
+// One tile per monitored patient (a device is bound now, or they reported in the last
+// day), most urgent first
+export async function getCentralStationTiles(preferences: UnitPreferences, now: Date = new Date()): Promise<CentralStationTile[]> {
+  const boundDevices = new Map<string, string>();
+  for (const device of await storage.getAllDevices()) {
+    const assignment = await storage.getActiveDeviceAssignment(device.id, now);
+    if (assignment) boundDevices.set(assignment.userId, device.deviceId);
+  }
+
+  const patients = (await storage.getAllUsers()).filter((user) => user.role === "patient");
+  const tiles: CentralStationTile[] = [];
+
+  for (const patient of patients) {
+    const snapshot = await buildVitalsSnapshot(patient.id, now);
+    const lastObservedMs = snapshot.lastObservedAt ? new Date(snapshot.lastObservedAt).getTime() : null;
+    const recentlyActive = lastObservedMs !== null && now.getTime() - lastObservedMs <= RECENT_ACTIVITY_MS;
+    if (!boundDevices.has(patient.id) && !recentlyActive) continue;
+
+    // getObservationsByUserId is newest first; trends are drawn oldest first
+    const since = now.getTime() - TREND_WINDOW_MS;
+    const recent = (await storage.getObservationsByUserId(patient.id))
+      .filter((observation) => isVisible(observation.validationStatus) && new Date(observation.observedAt).getTime() >= since)
+      .reverse();
+    const trends: Partial<Record<VitalMetric, TrendPoint[]>> = {};
+    for (const metric of TREND_METRICS) {
+      const points = recent
+        .filter((observation) => observation.metric === metric)
+        .map((observation) => ({
+          observedAt: new Date(observation.observedAt).toISOString(),
+          value: fromCanonical(metric, observation.value, preferences),
+        }));
+      trends[metric] = downsample(points, TREND_MAX_POINTS);
+    }
+
+    tiles.push({
+      patient: { id: patient.id, email: patient.email, gender: patient.gender, bloodGroup: patient.bloodGroup },
+      deviceId: boundDevices.get(patient.id) ?? null,
+      snapshot: snapshotToDisplay(snapshot, preferences),
+      trends,
+    });
+  }
+
+  return tiles.sort((a, b) => compareByUrgency(a.snapshot, b.snapshot, now));
+}
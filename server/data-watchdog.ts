@@ -0,0 +1,202 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+import { notifyAlarm } from "./notifications";
+import { SNAPSHOT_STALE_AFTER_MS } from "@shared/clinical-ranges";
+import {
+  DATA_GAP_METRIC,
+  type Alarm,
+  type AlarmPriority,
+  type DataWatchdogSettings,
+  type DataWatchdogStatus,
+  type Device,
+  type User,
+} from "@shared/schema";
+
+// A patient is out of contact once this many expected readings in a row are missing,
+// and never sooner than DATA_GAP_MIN_SECONDS so network jitter does not raise alarms
+const MISSED_INTERVALS = parseInt(process.env.DATA_GAP_MISSED_INTERVALS || "3", 10);
+const MIN_GAP_SECONDS = parseInt(process.env.DATA_GAP_MIN_SECONDS || "30", 10);
+// How often the watchdog checks every patient
+const POLL_SECONDS = parseInt(process.env.DATA_WATCHDOG_POLL_SECONDS || "10", 10);
+
+// The patient may be fine, but nobody can tell
+export const DATA_GAP_PRIORITY: AlarmPriority = "medium";
+
+export class DataWatchdogError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "DataWatchdogError";
+    this.status = status;
+  }
+}
+
+interface BoundDevice {
+  device: Device;
+  boundAt: Date;
+}
+
+async function boundDevice(userId: string, now: Date): Promise<BoundDevice | null> {
+  for (const device of await storage.getAllDevices()) {
+    const assignment = await storage.getActiveDeviceAssignment(device.id, now);
+    if (assignment?.userId === userId) return { device, boundAt: assignment.effectiveFrom };
+  }
+  return null;
+}
+
+function alarmAfterSeconds(intervalSeconds: number): number {
+  return Math.max(intervalSeconds * MISSED_INTERVALS, MIN_GAP_SECONDS);
+}
+
+async function lastObservedAt(userId: string): Promise<Date | null> {
+  let latest: Date | null = null;
+  for (const observation of await storage.getLatestObservationsByUserId(userId)) {
+    const observedAt = new Date(observation.observedAt);
+    if (!latest || observedAt > latest) latest = observedAt;
+  }
+  return latest;
+}
+
+// Only patients given an expected interval are watched. The firmware reports when the
+// sensor is touched rather than on a schedule, so no interval can be taken from the device.
+async function inspect(patient: User, now: Date): Promise<DataWatchdogStatus & { silentSince: Date | null }> {
+  const bound = await boundDevice(patient.id, now);
+  const interval = patient.expectedIntervalSeconds;
+  const alarmAfter = interval === null ? null : alarmAfterSeconds(interval);
+  const observedAt = await lastObservedAt(patient.id);
+
+  // A newly bound device has until the limit to start reporting, whatever came before it.
+  // A patient who never reported without a device is counted from when watching began.
+  let silentSince = observedAt;
+  if (bound && (!silentSince || bound.boundAt > silentSince)) silentSince = bound.boundAt;
+  if (!silentSince) silentSince = patient.dataWatchdogSavedAt ?? patient.createdAt;
+  const silentFor = silentSince ? Math.max(0, Math.round((now.getTime() - silentSince.getTime()) / 1000)) : null;
+
+  // Last contact is when the newest payload arrived, readings or not
+  const telemetry = bound ? await storage.getLatestDeviceTelemetry(bound.device.id, now) : undefined;
+
+  return {
+    settings: { enabled: patient.dataGapAlarmEnabled, expectedIntervalSeconds: patient.expectedIntervalSeconds },
+    expectedIntervalSeconds: interval,
+    alarmAfterSeconds: alarmAfter,
+    lastObservedAt: observedAt ? observedAt.toISOString() : null,
+    silentForSeconds: silentFor,
+    stale: alarmAfter !== null && silentFor !== null && silentFor > alarmAfter,
+    deviceId: bound?.device.deviceId ?? null,
+    deviceLastSeenAt: telemetry ? telemetry.receivedAt.toISOString() : null,
+    silentSince,
+  };
+}
+
+async function getPatient(userId: string): Promise<User> {
+  const patient = await storage.getUser(userId);
+  if (!patient || patient.role !== "patient") throw new DataWatchdogError(404, "Patient not found");
+  return patient;
+}
+
+export async function getDataWatchdogStatus(userId: string, now: Date = new Date()): Promise<DataWatchdogStatus> {
+  const { silentSince, ...status } = await inspect(await getPatient(userId), now);
+  return status;
+}
+
+// How old a value may be and still describe the patient now: the patient's no-data
+// limit, or SNAPSHOT_STALE_AFTER_MS for patients who are not expected to report regularly
+export async function staleAfterSeconds(userId: string): Promise<number> {
+  const interval = (await storage.getUser(userId))?.expectedIntervalSeconds ?? null;
+  return interval === null ? SNAPSHOT_STALE_AFTER_MS / 1000 : alarmAfterSeconds(interval);
+}
+
+// Raises the patient's no-data alarm once readings have stopped for longer than the
+// limit, keeps its silence up to date while it is open, and resolves it when readings
+// return or the alarm is switched off. Returns the alarm it raised or resolved.
+export async function checkDataGap(userId: string, now: Date = new Date()): Promise<Alarm | null> {
+  const patient = await storage.getUser(userId);
+  if (!patient || patient.role !== "patient") return null;
+
+  const status = await inspect(patient, now);
+  const gap = status.settings.enabled && status.stale;
+  const open = (await storage.getAlarmsByUserId(userId))
+    .find((alarm) => alarm.metric === DATA_GAP_METRIC && alarm.status !== "resolved");
+
+  if (open) {
+    if (gap) {
+      if (status.silentForSeconds !== open.lastValue) await storage.updateAlarm(open.id, { lastValue: status.silentForSeconds! });
+      return null;
+    }
+    const resolved = await storage.updateAlarm(open.id, { status: "resolved", resolvedAt: now });
+    log(`Readings from patient ${userId} are back; no-data alarm resolved`, "watchdog");
+    return resolved!;
+  }
+  if (!gap) return null;
+
+  // With a device bound, tell a device that dropped off the network from one that is
+  // connected but sending no usable readings (sensor off, finger lifted)
+  const deviceOffline = status.deviceId !== null &&
+    (!status.deviceLastSeenAt || now.getTime() - new Date(status.deviceLastSeenAt).getTime() > status.alarmAfterSeconds! * 1000);
+  const alarm = await storage.createAlarm({
+    userId,
+    metric: DATA_GAP_METRIC,
+    condition: deviceOffline ? "device_offline" : "no_data",
+    priority: DATA_GAP_PRIORITY,
+    threshold: status.alarmAfterSeconds!,
+    triggerValue: status.silentForSeconds!,
+    lastValue: status.silentForSeconds!,
+    unit: "s",
+    status: "active",
+    onsetAt: status.silentSince!,
+    triggeredAt: now,
+  });
+  log(
+    `${DATA_GAP_PRIORITY} priority alarm for patient ${userId}: no readings for ${status.silentForSeconds} s` +
+      (deviceOffline ? ` (device ${status.deviceId} offline)` : ""),
+    "watchdog",
+    "warn",
+  );
+  await notifyAlarm(alarm, now);
+  return alarm;
+}
+
+// Checks every patient; a failure for one does not stop the others
+export async function checkAllDataGaps(now: Date = new Date()): Promise<Alarm[]> {
+  const changed: Alarm[] = [];
+  for (const user of await storage.getAllUsers()) {
+    if (user.role !== "patient") continue;
+    try {
+      const alarm = await checkDataGap(user.id, now);
+      if (alarm) changed.push(alarm);
+    } catch (error: any) {
+      log(`Data gap check failed for patient ${user.id}: ${error.message}`, "watchdog", "error");
+    }
+  }
+  return changed;
+}
+
+// Replaces a patient's watchdog settings and re-checks them straight away
+export async function saveDataWatchdogSettings(
+  userId: string,
+  settings: DataWatchdogSettings,
+  now: Date = new Date(),
+): Promise<DataWatchdogStatus> {
+  await getPatient(userId);
+  await storage.updateDataWatchdogSettings(userId, settings);
+  await checkDataGap(userId, now);
+  return getDataWatchdogStatus(userId, now);
+}
+
+let checking = false;
+
+// Runs checkAllDataGaps on a timer; returns a function that stops it
+export function startDataWatchdog(): () => void {
+  const timer = setInterval(() => {
+    if (checking) return;
+    checking = true;
+    checkAllDataGaps()
+      .catch((error) => log(`Data watchdog pass failed: ${error.message}`, "watchdog", "error"))
+      .finally(() => {
+        checking = false;
+      });
+  }, POLL_SECONDS * 1000);
+  timer.unref();
+  return () => clearInterval(timer);
+}
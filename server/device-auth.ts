@@ -0,0 +1,162 @@
+import type { Request, Response, NextFunction } from "express";
+import { timingSafeEqual } from "crypto";
+import { storage } from "./storage";
+import { recordDeviceAuthFailure } from "./device-health";
+import {
+  DEVICE_SIGNATURE_HEADERS,
+  computeDeviceSignature,
+  generateDeviceKeyId,
+  generateDeviceSecret,
+} from "./device-signature";
+import type { Device, DeviceCredential, PublicDeviceCredential } from "@shared/schema";
+
+// Maximum allowed difference between the device clock and the server clock
+const SIGNATURE_MAX_SKEW_MS = parseInt(process.env.DEVICE_SIGNATURE_MAX_SKEW_SECONDS || "300", 10) * 1000;
+
+// How long a rotated-out key keeps working so devices can pick up the new one
+const KEY_ROTATION_GRACE_MS = parseInt(process.env.DEVICE_KEY_ROTATION_GRACE_HOURS || "24", 10) * 60 * 60 * 1000;
+
+export class DeviceAuthError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "DeviceAuthError";
+    this.status = status;
+  }
+}
+
+export interface DeviceRequest extends Request {
+  device?: Device;
+  deviceCredential?: DeviceCredential;
+}
+
+export interface SignedDeviceMessage {
+  deviceId?: string;
+  keyId?: string;
+  timestamp?: string;
+  nonce?: string;
+  signature?: string;
+  body: Buffer | string;
+}
+
+export function toPublicCredential({ secret, ...credential }: DeviceCredential): PublicDeviceCredential {
+  return credential;
+}
+
+function isCredentialUsable(credential: DeviceCredential, now: Date): boolean {
+  if (credential.status !== "active") return false;
+  return !credential.expiresAt || new Date(credential.expiresAt).getTime() > now.getTime();
+}
+
+// Verifies a signed message from a device independently of the transport it arrived on
+export async function verifyDeviceMessage(message: SignedDeviceMessage): Promise<{ device: Device; credential: DeviceCredential }> {
+  const { deviceId, keyId, timestamp, nonce, signature, body } = message;
+
+  if (!deviceId || !keyId || !timestamp || !nonce || !signature) {
+    throw new DeviceAuthError(401, "Missing device signature headers");
+  }
+
+  const device = await storage.getDeviceByDeviceId(deviceId);
+  if (!device) {
+    throw new DeviceAuthError(404, `Unknown device: ${deviceId}. Register it before sending data.`);
+  }
+
+  if (device.status !== "active") {
+    throw new DeviceAuthError(403, `Device ${deviceId} is retired and cannot submit data`);
+  }
+
+  const now = new Date();
+  const credential = await storage.getDeviceCredentialByKeyId(keyId);
+  if (!credential || credential.deviceId !== device.id || !isCredentialUsable(credential, now)) {
+    throw new DeviceAuthError(401, "Invalid, expired or revoked device key");
+  }
+
+  const timestampMs = parseInt(timestamp, 10) * 1000;
+  if (!Number.isFinite(timestampMs) || Math.abs(now.getTime() - timestampMs) > SIGNATURE_MAX_SKEW_MS) {
+    throw new DeviceAuthError(401, "Signature timestamp is outside the allowed window");
+  }
+
+  const expected = Buffer.from(computeDeviceSignature(credential.secret, timestamp, nonce, body), "hex");
+  const provided = Buffer.from(signature, "hex");
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    throw new DeviceAuthError(401, "Invalid device signature");
+  }
+
+  // Only record the nonce once the signature is known to be genuine
+  const nonceExpiresAt = new Date(timestampMs + SIGNATURE_MAX_SKEW_MS);
+  const fresh = await storage.registerDeviceNonce(device.id, nonce, nonceExpiresAt);
+  if (!fresh) {
+    throw new DeviceAuthError(409, "Replayed request: nonce already used");
+  }
+
+  await storage.updateDeviceCredential(credential.id, { lastUsedAt: now });
+
+  return { device, credential };
+}
+
+// Middleware that authenticates HMAC-signed requests from registered devices
+export const authenticateDevice = async (req: DeviceRequest, res: Response, next: NextFunction) => {
+  const header = (name: string) => {
+    const value = req.headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  };
+
+  const deviceId = header(DEVICE_SIGNATURE_HEADERS.deviceId);
+
+  try {
+    const { device, credential } = await verifyDeviceMessage({
+      deviceId,
+      keyId: header(DEVICE_SIGNATURE_HEADERS.keyId),
+      timestamp: header(DEVICE_SIGNATURE_HEADERS.timestamp),
+      nonce: header(DEVICE_SIGNATURE_HEADERS.nonce),
+      signature: header(DEVICE_SIGNATURE_HEADERS.signature),
+      body: Buffer.isBuffer(req.rawBody) ? req.rawBody : "",
+    });
+
+    req.device = device;
+    req.deviceCredential = credential;
+    next();
+  } catch (error: any) {
+    const status = error instanceof DeviceAuthError ? error.status : 500;
+
+    // The request is not known to come from the device, so it is only counted
+    const device = deviceId ? await storage.getDeviceByDeviceId(deviceId) : undefined;
+    if (device) {
+      recordDeviceAuthFailure(device, status, error.message || "Device authentication failed");
+    }
+
+    return res.status(status).json({ message: error.message || "Device authentication failed" });
+  }
+};
+
+// Issues a new signing key for a device. Existing keys either stop working now or
+// after the rotation grace period, depending on revokePrevious.
+export async function issueDeviceCredential(
+  deviceId: string,
+  revokePrevious: boolean,
+): Promise<{ credential: DeviceCredential; secret: string }> {
+  const now = new Date();
+  const existing = await storage.getDeviceCredentials(deviceId);
+
+  for (const credential of existing) {
+    if (!isCredentialUsable(credential, now)) continue;
+
+    if (revokePrevious) {
+      await storage.updateDeviceCredential(credential.id, { status: "revoked", revokedAt: now });
+    } else if (!credential.expiresAt) {
+      await storage.updateDeviceCredential(credential.id, {
+        expiresAt: new Date(now.getTime() + KEY_ROTATION_GRACE_MS),
+      });
+    }
+  }
+
+  const secret = generateDeviceSecret();
+  const credential = await storage.createDeviceCredential({
+    deviceId,
+    keyId: generateDeviceKeyId(),
+    secret,
+  });
+
+  return { credential, secret };
+}
@@ -0,0 +1,59 @@
+import { createHash } from "crypto";
+import { storage } from "./storage";
+import type {
+  Device,
+  DeviceConfigStatus,
+  DeviceSettings,
+  DeviceSettingsOverride,
+  ResolvedDeviceConfig,
+} from "@shared/schema";
+
+// Values compiled into the firmware; used for anything a group or device does not override
+export const DEFAULT_DEVICE_SETTINGS: DeviceSettings = {
+  vitals_sampling_duration_ms: 5000,
+  sensor_read_interval_ms: 100,
+  touch_threshold_temp_c: 30,
+  touch_threshold_ir: 7000,
+  pending_flush_interval_ms: 5000,
+  config_poll_interval_ms: 60000,
+};
+
+function parseOverrides(json: string | undefined): DeviceSettingsOverride {
+  return json ? (JSON.parse(json) as DeviceSettingsOverride) : {};
+}
+
+// ETag is a hash of the effective settings, so a device is in sync exactly when it
+// runs the same values, whichever document they came from
+function computeConfigEtag(settings: DeviceSettings): string {
+  const canonical = JSON.stringify(Object.keys(settings).sort().map((key) => [key, settings[key as keyof DeviceSettings]]));
+  return createHash("sha256").update(canonical).digest("hex").substring(0, 16);
+}
+
+// Merges defaults, then the device's group overrides, then its own overrides
+export async function resolveDeviceConfig(device: Device): Promise<ResolvedDeviceConfig> {
+  const groupConfig = device.groupName ? await storage.getDeviceConfig("group", device.groupName) : undefined;
+  const deviceConfig = await storage.getDeviceConfig("device", device.id);
+  const groupOverrides = parseOverrides(groupConfig?.settings);
+  const deviceOverrides = parseOverrides(deviceConfig?.settings);
+  const settings: DeviceSettings = { ...DEFAULT_DEVICE_SETTINGS, ...groupOverrides, ...deviceOverrides };
+
+  return {
+    etag: computeConfigEtag(settings),
+    settings,
+    groupName: device.groupName,
+    groupOverrides,
+    deviceOverrides,
+  };
+}
+
+export async function getDeviceConfigStatus(device: Device): Promise<DeviceConfigStatus> {
+  const [{ etag }, acks] = await Promise.all([resolveDeviceConfig(device), storage.getDeviceConfigAcks(device.id)]);
+  const lastApplied = acks.find((ack) => ack.status === "applied");
+
+  return {
+    etag,
+    acknowledgedEtag: lastApplied?.etag ?? null,
+    acknowledgedAt: lastApplied?.ackedAt ? new Date(lastApplied.ackedAt).toISOString() : null,
+    inSync: lastApplied?.etag === etag,
+  };
+}
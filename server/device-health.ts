@@ -0,0 +1,154 @@
+import { storage } from "./storage";
+import { toFiniteNumber } from "./ingestion";
+import type { Device, DeviceHealth, DeviceTelemetry, TelemetryPoint } from "@shared/schema";
+
+// A device that has not been heard from for this long is flagged as silent
+const DEVICE_SILENT_AFTER_MS = parseInt(process.env.DEVICE_SILENT_AFTER_SECONDS || "300", 10) * 1000;
+
+// Window for the trends, reboot and error counts in the health summary
+const HEALTH_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Trend charts are downsampled to at most this many points
+const MAX_TREND_POINTS = 60;
+
+function toInteger(value: unknown): number | null {
+  const num = toFiniteNumber(value);
+  return num === undefined ? null : Math.round(num);
+}
+
+function toText(value: unknown): string | null {
+  return typeof value === "string" && value ? value : null;
+}
+
+// Stores the telemetry fields of a device payload (a single reading or one item of
+// a batch). A reboot is detected when uptime is lower than in the previous sample.
+export async function recordDeviceTelemetry(
+  device: Device,
+  payload: Record<string, any>,
+  sampledAt: Date,
+  receivedAt: Date,
+): Promise<DeviceTelemetry> {
+  const uptimeMs = toInteger(payload.uptime_ms ?? payload.timestamp);
+  const previous = await storage.getLatestDeviceTelemetry(device.id, sampledAt);
+  const rebooted = uptimeMs !== null && previous?.uptimeMs != null && uptimeMs < previous.uptimeMs;
+
+  return storage.createDeviceTelemetry({
+    deviceId: device.id,
+    sampledAt,
+    receivedAt,
+    uptimeMs,
+    wifiRssi: toInteger(payload.wifi_rssi),
+    freeHeap: toInteger(payload.free_heap),
+    sensorType: toText(payload.sensor_type),
+    dataQuality: toText(payload.data_quality),
+    sampleCount: toInteger(payload.sample_count),
+    rebooted,
+  });
+}
+
+// Logs a rejected request so it shows up in the device's error count. Only for requests
+// the device has signed; failed authentications go to recordDeviceAuthFailure.
+export async function recordDeviceIngestionError(device: Device, status: number, message: string): Promise<void> {
+  await storage.createDeviceIngestionError({ deviceId: device.id, status, message });
+}
+
+interface AuthFailureCount {
+  windowStartedAt: number;
+  count: number;
+  last: NonNullable<DeviceHealth["lastAuthFailure"]>;
+}
+
+// Failed authentications naming a registered device. Until the signature checks out the
+// sender could be anyone, so they are only counted in memory: one fixed-size entry per
+// device, over a window of HEALTH_WINDOW_MS that restarts once it has passed
+const authFailures = new Map<string, AuthFailureCount>();
+
+function currentAuthFailures(deviceId: string, now: Date): AuthFailureCount | undefined {
+  const entry = authFailures.get(deviceId);
+  return entry && now.getTime() - entry.windowStartedAt < HEALTH_WINDOW_MS ? entry : undefined;
+}
+
+export function recordDeviceAuthFailure(device: Device, status: number, message: string, now: Date = new Date()): void {
+  const current = currentAuthFailures(device.id, now);
+  authFailures.set(device.id, {
+    windowStartedAt: current?.windowStartedAt ?? now.getTime(),
+    count: (current?.count ?? 0) + 1,
+    last: { occurredAt: now, status, message },
+  });
+}
+
+function trend(samples: DeviceTelemetry[], field: "wifiRssi" | "freeHeap"): TelemetryPoint[] {
+  const points = samples
+    .filter((sample) => sample[field] !== null)
+    .map((sample) => ({ sampledAt: sample.sampledAt.toISOString(), value: sample[field] as number }));
+
+  if (points.length <= MAX_TREND_POINTS) return points;
+  const step = points.length / MAX_TREND_POINTS;
+  return Array.from({ length: MAX_TREND_POINTS }, (_, i) => points[Math.floor(i * step)]);
+}
+
+// Most recent non-null value of a field; not every payload carries every field
+function latestValue<K extends "wifiRssi" | "freeHeap" | "sensorType" | "dataQuality" | "sampleCount">(
+  samples: DeviceTelemetry[],
+  latest: DeviceTelemetry,
+  field: K,
+): DeviceTelemetry[K] {
+  for (let i = samples.length - 1; i >= 0; i--) {
+    if (samples[i][field] !== null) return samples[i][field];
+  }
+  return latest[field];
+}
+
+export async function getDeviceHealth(device: Device, now: Date = new Date()): Promise<DeviceHealth> {
+  const since = new Date(now.getTime() - HEALTH_WINDOW_MS);
+  const [samples, errors, latest] = await Promise.all([
+    storage.getDeviceTelemetry(device.id, since),
+    storage.getDeviceIngestionErrors(device.id, since),
+    storage.getLatestDeviceTelemetry(device.id, now),
+  ]);
+
+  // Last contact is when the newest request arrived, not when its oldest reading was taken
+  const lastSeen = samples.reduce<Date | null>(
+    (max, sample) => (!max || sample.receivedAt > max ? sample.receivedAt : max),
+    latest?.receivedAt ?? null,
+  );
+  const silentForMs = lastSeen ? now.getTime() - lastSeen.getTime() : null;
+  const reboots = samples.filter((sample) => sample.rebooted);
+  const authFailure = currentAuthFailures(device.id, now);
+
+  let status: DeviceHealth["status"];
+  if (device.status !== "active") {
+    status = "retired";
+  } else if (silentForMs === null) {
+    status = "never_seen";
+  } else {
+    status = silentForMs > DEVICE_SILENT_AFTER_MS ? "silent" : "online";
+  }
+
+  return {
+    device,
+    status,
+    lastSeenAt: lastSeen ? lastSeen.toISOString() : null,
+    silentForSeconds: silentForMs === null ? null : Math.round(silentForMs / 1000),
+    latest: latest
+      ? {
+          uptimeMs: latest.uptimeMs,
+          wifiRssi: latestValue(samples, latest, "wifiRssi"),
+          freeHeap: latestValue(samples, latest, "freeHeap"),
+          sensorType: latestValue(samples, latest, "sensorType"),
+          dataQuality: latestValue(samples, latest, "dataQuality"),
+          sampleCount: latestValue(samples, latest, "sampleCount"),
+        }
+      : null,
+    rssiTrend: trend(samples, "wifiRssi"),
+    heapTrend: trend(samples, "freeHeap"),
+    rebootsLast24h: reboots.length,
+    lastRebootAt: reboots.length > 0 ? reboots[reboots.length - 1].sampledAt.toISOString() : null,
+    errorsLast24h: errors.length,
+    lastError: errors[0]
+      ? { occurredAt: errors[0].occurredAt, status: errors[0].status, message: errors[0].message }
+      : null,
+    authFailuresLast24h: authFailure?.count ?? 0,
+    lastAuthFailure: authFailure?.last ?? null,
+  };
+}
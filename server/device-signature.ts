@@ -0,0 +1,36 @@
+import { createHmac, randomBytes } from "crypto";
+
+// Headers a device sends alongside every signed request
+export const DEVICE_SIGNATURE_HEADERS = {
+  deviceId: "x-device-id",
+  keyId: "x-device-key-id",
+  timestamp: "x-device-timestamp", // Unix time in seconds
+  nonce: "x-device-nonce",
+  signature: "x-device-signature", // Hex HMAC-SHA256
+} as const;
+
+// The signed message is "<timestamp>\n<nonce>\n<raw body>" so that neither the
+// body nor the replay-protection fields can be altered independently
+export function computeDeviceSignature(
+  secret: string,
+  timestamp: string,
+  nonce: string,
+  body: Buffer | string,
+): string {
+  return createHmac("sha256", secret)
+    .update(`${timestamp}\n${nonce}\n`)
+    .update(body)
+    .digest("hex");
+}
+
+export function generateDeviceKeyId(): string {
+  return `dk_${randomBytes(8).toString("hex")}`;
+}
+
+export function generateDeviceSecret(): string {
+  return randomBytes(32).toString("hex");
+}
+
+export function generateDeviceNonce(): string {
+  return randomBytes(12).toString("hex");
+}
@@ -0,0 +1,72 @@
+import { storage } from "./storage";
+import { DEFAULT_UNIT_PREFERENCES, differenceFromCanonical, displayUnit, fromCanonical, type UnitPreferences } from "@shared/units";
+import {
+  VITAL_METRIC_CODES,
+  vitalMetrics,
+  type Alarm,
+  type EcgData,
+  type Observation,
+  type SnapshotValue,
+  type VitalMetric,
+  type VitalsSnapshot,
+} from "@shared/schema";
+
+// Values are stored in canonical units; API responses carry them in the units the
+// requesting user picked in their settings
+
+export async function getUnitPreferences(userId: string | undefined): Promise<UnitPreferences> {
+  const user = userId ? await storage.getUser(userId) : undefined;
+  if (!user) return DEFAULT_UNIT_PREFERENCES;
+  return {
+    temperatureUnit: user.temperatureUnit as UnitPreferences["temperatureUnit"],
+    pressureUnit: user.pressureUnit as UnitPreferences["pressureUnit"],
+  };
+}
+
+export function observationToDisplay(observation: Observation, preferences: UnitPreferences): Observation {
+  if (!(observation.metric in vitalMetrics)) return observation;
+  const metric = observation.metric as VitalMetric;
+  return {
+    ...observation,
+    value: fromCanonical(metric, observation.value, preferences),
+    rawValue: observation.rawValue !== null ? fromCanonical(metric, observation.rawValue, preferences) : null,
+    unit: displayUnit(metric, preferences),
+  };
+}
+
+export function snapshotToDisplay(snapshot: VitalsSnapshot, preferences: UnitPreferences): VitalsSnapshot {
+  const metrics = Object.fromEntries(
+    VITAL_METRIC_CODES.map((metric) => {
+      const entry = snapshot.metrics[metric];
+      return [metric, entry && {
+        ...entry,
+        value: fromCanonical(metric, entry.value, preferences),
+        unit: displayUnit(metric, preferences),
+        trend: entry.trend && { ...entry.trend, change: differenceFromCanonical(metric, entry.trend.change, preferences) },
+      }];
+    })
+  ) as Record<VitalMetric, SnapshotValue | null>;
+  return { ...snapshot, metrics };
+}
+
+export function readingToDisplay(reading: EcgData, preferences: UnitPreferences): EcgData {
+  const converted: EcgData = { ...reading };
+  for (const metric of VITAL_METRIC_CODES) {
+    const column = vitalMetrics[metric].column;
+    const value = reading[column];
+    if (value !== null) converted[column] = fromCanonical(metric, value, preferences);
+  }
+  return converted;
+}
+
+export function alarmToDisplay(alarm: Alarm, preferences: UnitPreferences): Alarm {
+  if (!(alarm.metric in vitalMetrics)) return alarm;
+  const metric = alarm.metric as VitalMetric;
+  return {
+    ...alarm,
+    threshold: fromCanonical(metric, alarm.threshold, preferences),
+    triggerValue: fromCanonical(metric, alarm.triggerValue, preferences),
+    lastValue: fromCanonical(metric, alarm.lastValue, preferences),
+    unit: displayUnit(metric, preferences),
+  };
+}
@@ -0,0 +1,289 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+import { alarmNotificationContent, notifyUser } from "./notifications";
+import type {
+  Alarm,
+  AlarmEscalation,
+  AlarmPriority,
+  EscalationPolicy,
+  EscalationPolicyData,
+  EscalationPolicyRecord,
+  EscalationStep,
+  OnCallOverride,
+  OnCallOverrideData,
+  OnCallSchedule,
+  OnCallScheduleData,
+  OnCallScheduleRecord,
+  User,
+} from "@shared/schema";
+
+// How often the worker moves unacknowledged alarms through their policies
+const ESCALATION_POLL_SECONDS = parseInt(process.env.ESCALATION_POLL_SECONDS || "15", 10);
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export class EscalationError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "EscalationError";
+    this.status = status;
+  }
+}
+
+function toEscalationPolicy(record: EscalationPolicyRecord): EscalationPolicy {
+  return {
+    id: record.id,
+    name: record.name,
+    enabled: record.enabled,
+    priorities: JSON.parse(record.priorities) as AlarmPriority[],
+    steps: JSON.parse(record.steps) as EscalationStep[],
+    updatedAt: record.updatedAt ? new Date(record.updatedAt).toISOString() : null,
+  };
+}
+
+// Clinicians are the admin accounts; only they can be on call or escalated to
+async function requireClinician(userId: string): Promise<User> {
+  const user = await storage.getUser(userId);
+  if (!user) throw new EscalationError(400, `User ${userId} not found`);
+  if (user.role !== "admin") throw new EscalationError(400, `${user.email} is not a clinician`);
+  return user;
+}
+
+export async function getEscalationPolicies(): Promise<EscalationPolicy[]> {
+  return (await storage.getEscalationPolicies()).map(toEscalationPolicy);
+}
+
+// Steps must point at existing schedules and clinicians, and each alarm priority may
+// be covered by only one enabled policy so an alarm's policy is never ambiguous
+async function validatePolicy(policy: EscalationPolicyData, id?: string): Promise<void> {
+  for (const step of policy.steps) {
+    if (step.target === "on_call" && !(await storage.getOnCallSchedule(step.scheduleId!))) {
+      throw new EscalationError(400, "On-call schedule not found");
+    }
+    if (step.target === "user") await requireClinician(step.userId!);
+  }
+
+  if (!policy.enabled) return;
+  for (const other of await getEscalationPolicies()) {
+    if (other.id === id || !other.enabled) continue;
+    const shared = policy.priorities.filter((priority) => other.priorities.includes(priority));
+    if (shared.length > 0) {
+      throw new EscalationError(409, `${other.name} already covers ${shared.join(", ")} priority alarms`);
+    }
+  }
+}
+
+export async function createEscalationPolicy(policy: EscalationPolicyData): Promise<EscalationPolicy> {
+  await validatePolicy(policy);
+  return toEscalationPolicy(await storage.createEscalationPolicy(policy));
+}
+
+// Alarms already escalating under the policy continue with the new steps from the
+// step they reached
+export async function updateEscalationPolicy(id: string, policy: EscalationPolicyData): Promise<EscalationPolicy> {
+  if (!(await storage.getEscalationPolicy(id))) throw new EscalationError(404, "Escalation policy not found");
+  await validatePolicy(policy, id);
+  return toEscalationPolicy((await storage.updateEscalationPolicy(id, policy))!);
+}
+
+// Alarms escalating under a deleted policy stop escalating
+export async function deleteEscalationPolicy(id: string): Promise<void> {
+  if (!(await storage.deleteEscalationPolicy(id))) throw new EscalationError(404, "Escalation policy not found");
+}
+
+// Rotation member on call at a time, with the end of their week; null before the
+// rotation starts
+function rotationShift(record: OnCallScheduleRecord, at: Date): { userId: string; until: Date } | null {
+  const members = JSON.parse(record.members) as string[];
+  const elapsed = at.getTime() - record.rotationStart.getTime();
+  if (elapsed < 0 || members.length === 0) return null;
+  const week = Math.floor(elapsed / WEEK_MS);
+  return { userId: members[week % members.length], until: new Date(record.rotationStart.getTime() + (week + 1) * WEEK_MS) };
+}
+
+// The most recently created override covering the time wins over the rotation
+function resolveOnCall(
+  record: OnCallScheduleRecord,
+  overrides: OnCallOverride[],
+  at: Date,
+): { userId: string; until: Date } | null {
+  const override = overrides.find((candidate) => candidate.startsAt <= at && at < candidate.endsAt);
+  if (override) return { userId: override.userId, until: override.endsAt };
+  return rotationShift(record, at);
+}
+
+async function toOnCallSchedule(record: OnCallScheduleRecord, now: Date): Promise<OnCallSchedule> {
+  const overrides = await storage.getOnCallOverrides(record.id);
+  const onCall = resolveOnCall(record, overrides, now);
+  return {
+    id: record.id,
+    name: record.name,
+    rotationStart: record.rotationStart.toISOString(),
+    members: JSON.parse(record.members) as string[],
+    overrides,
+    onCallUserId: onCall?.userId ?? null,
+    onCallUntil: onCall?.until.toISOString() ?? null,
+  };
+}
+
+export async function getOnCallSchedules(now: Date = new Date()): Promise<OnCallSchedule[]> {
+  return Promise.all((await storage.getOnCallSchedules()).map((record) => toOnCallSchedule(record, now)));
+}
+
+async function getOnCallScheduleRecord(id: string): Promise<OnCallScheduleRecord> {
+  const record = await storage.getOnCallSchedule(id);
+  if (!record) throw new EscalationError(404, "On-call schedule not found");
+  return record;
+}
+
+async function validateSchedule(schedule: OnCallScheduleData): Promise<void> {
+  for (const userId of schedule.members) await requireClinician(userId);
+}
+
+export async function createOnCallSchedule(schedule: OnCallScheduleData): Promise<OnCallSchedule> {
+  await validateSchedule(schedule);
+  return toOnCallSchedule(await storage.createOnCallSchedule(schedule), new Date());
+}
+
+export async function updateOnCallSchedule(id: string, schedule: OnCallScheduleData): Promise<OnCallSchedule> {
+  await getOnCallScheduleRecord(id);
+  await validateSchedule(schedule);
+  return toOnCallSchedule((await storage.updateOnCallSchedule(id, schedule))!, new Date());
+}
+
+export async function deleteOnCallSchedule(id: string): Promise<void> {
+  await getOnCallScheduleRecord(id);
+  const usedBy = (await getEscalationPolicies()).find((policy) =>
+    policy.steps.some((step) => step.target === "on_call" && step.scheduleId === id)
+  );
+  if (usedBy) throw new EscalationError(409, `The schedule is used by the ${usedBy.name} policy`);
+  await storage.deleteOnCallSchedule(id);
+}
+
+export async function addOnCallOverride(
+  scheduleId: string,
+  override: OnCallOverrideData,
+  createdBy: string | undefined,
+): Promise<OnCallSchedule> {
+  const record = await getOnCallScheduleRecord(scheduleId);
+  await requireClinician(override.userId);
+  await storage.createOnCallOverride({ scheduleId, ...override, reason: override.reason || null, createdBy: createdBy ?? null });
+  return toOnCallSchedule(record, new Date());
+}
+
+export async function removeOnCallOverride(scheduleId: string, overrideId: string): Promise<OnCallSchedule> {
+  const record = await getOnCallScheduleRecord(scheduleId);
+  const override = (await storage.getOnCallOverrides(scheduleId)).find((candidate) => candidate.id === overrideId);
+  if (!override) throw new EscalationError(404, "Override not found");
+  await storage.deleteOnCallOverride(overrideId);
+  return toOnCallSchedule(record, new Date());
+}
+
+// Sets or clears (null) the clinician responsible for a patient
+export async function assignClinician(patientId: string, clinicianId: string | null): Promise<User> {
+  const patient = await storage.getUser(patientId);
+  if (!patient) throw new EscalationError(404, "Patient not found");
+  if (clinicianId !== null) await requireClinician(clinicianId);
+  return (await storage.updateAssignedClinician(patientId, clinicianId))!;
+}
+
+// Who a step reaches, or why it reaches nobody
+async function stepRecipients(step: EscalationStep, patient: User | undefined, now: Date): Promise<{ users: User[]; reason?: string }> {
+  switch (step.target) {
+    case "assigned_clinician": {
+      const clinician = patient?.assignedClinicianId ? await storage.getUser(patient.assignedClinicianId) : undefined;
+      return clinician ? { users: [clinician] } : { users: [], reason: "No clinician is assigned to the patient" };
+    }
+    case "on_call": {
+      const record = await storage.getOnCallSchedule(step.scheduleId!);
+      if (!record) return { users: [], reason: "The on-call schedule no longer exists" };
+      const onCall = resolveOnCall(record, await storage.getOnCallOverrides(record.id), now);
+      const user = onCall ? await storage.getUser(onCall.userId) : undefined;
+      return user ? { users: [user] } : { users: [], reason: `Nobody is on call for ${record.name}` };
+    }
+    case "admins": {
+      const admins = (await storage.getAllUsers()).filter((user) => user.role === "admin");
+      return admins.length > 0 ? { users: admins } : { users: [], reason: "There are no admins" };
+    }
+    case "user": {
+      const user = await storage.getUser(step.userId!);
+      return user ? { users: [user] } : { users: [], reason: "The user no longer exists" };
+    }
+  }
+}
+
+// Notifies everyone a step reaches and records what happened to each
+async function runStep(alarm: Alarm, policy: EscalationPolicy, index: number, now: Date): Promise<AlarmEscalation[]> {
+  const step = policy.steps[index];
+  const patient = await storage.getUser(alarm.userId);
+  const { users, reason } = await stepRecipients(step, patient, now);
+  const record = (userId: string | null, outcome: string, detail: string) =>
+    storage.createAlarmEscalation({ alarmId: alarm.id, policyId: policy.id, step: index + 1, target: step.target, userId, outcome, detail, createdAt: now });
+
+  if (users.length === 0) return [await record(null, "no_recipient", reason!)];
+
+  const minutes = Math.round((now.getTime() - alarm.triggeredAt.getTime()) / 60000);
+  const recorded: AlarmEscalation[] = [];
+  for (const user of users) {
+    const content = await alarmNotificationContent(alarm, patient, user.id);
+    const queued = await notifyUser(user, {
+      subject: `[ESCALATION ${index + 1}/${policy.steps.length}] ${content.subject}`,
+      message: `Not acknowledged after ${minutes} min. ${content.message}`,
+      payload: { ...content.payload, event: "alarm.escalated", escalation: { policy: policy.name, step: index + 1, steps: policy.steps.length } },
+    }, alarm.id, now);
+    recorded.push(queued.length > 0
+      ? await record(user.id, "notified", `Notified ${user.email} by ${queued.map((notification) => notification.channel).join(", ")}`)
+      : await record(user.id, "no_channel", `${user.email} has no notification channel enabled`));
+  }
+  return recorded;
+}
+
+// Carries out the steps that have come due for every unacknowledged alarm. An alarm
+// takes the enabled policy covering its priority when its first step runs and keeps
+// it; steps missed while the server was down all run on the next pass.
+export async function escalateAlarms(now: Date = new Date()): Promise<AlarmEscalation[]> {
+  const policies = await getEscalationPolicies();
+  const actions: AlarmEscalation[] = [];
+
+  for (const alarm of await storage.getOpenAlarms()) {
+    if (alarm.status !== "active") continue;
+    const policy = alarm.escalationPolicyId
+      ? policies.find((candidate) => candidate.id === alarm.escalationPolicyId)
+      : policies.find((candidate) => candidate.enabled && candidate.priorities.includes(alarm.priority as AlarmPriority));
+    if (!policy?.enabled) continue;
+
+    let level = alarm.escalationLevel;
+    let dueAt = alarm.triggeredAt.getTime() + policy.steps.slice(0, level + 1).reduce((sum, step) => sum + step.delayMinutes, 0) * 60000;
+    while (level < policy.steps.length && dueAt <= now.getTime()) {
+      actions.push(...await runStep(alarm, policy, level, now));
+      level++;
+      if (level < policy.steps.length) dueAt += policy.steps[level].delayMinutes * 60000;
+    }
+
+    if (level !== alarm.escalationLevel) {
+      await storage.updateAlarm(alarm.id, { escalationPolicyId: policy.id, escalationLevel: level });
+      log(`Alarm ${alarm.id} escalated to step ${level} of ${policy.steps.length} (${policy.name})`, "escalation", "warn");
+    }
+  }
+
+  return actions;
+}
+
+let escalating = false;
+
+// Runs escalateAlarms on a timer; returns a function that stops it
+export function startEscalationWorker(): () => void {
+  const timer = setInterval(() => {
+    if (escalating) return;
+    escalating = true;
+    escalateAlarms()
+      .catch((error) => log(`Escalation pass failed: ${error.message}`, "escalation", "error"))
+      .finally(() => {
+        escalating = false;
+      });
+  }, ESCALATION_POLL_SECONDS * 1000);
+  timer.unref();
+  return () => clearInterval(timer);
+}
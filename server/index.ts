@@ -2,6 +2,11 @@ import "dotenv/config"; // Load environment variables from .env file
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startMqttBridge } from "./mqtt-bridge";
+import { closeVitalsStream } from "./vitals-stream";
+import { startNotificationWorker } from "./notifications";
+import { startEscalationWorker } from "./escalation";
+import { startDataWatchdog } from "./data-watchdog";
 
 const app = express();
 
@@ -139,9 +144,26 @@ app.get("/ready", (_req: Request, res: Response) => {
       log(`✅ Readiness check available at /ready`);
     });
 
+    // Optional MQTT ingestion alongside POST /api/vitals (enabled by MQTT_URL)
+    const mqttBridge = startMqttBridge();
+
+    // Delivers queued alarm notifications and retries the ones that failed
+    const stopNotificationWorker = startNotificationWorker();
+
+    // Moves unacknowledged alarms through their escalation policies
+    const stopEscalationWorker = startEscalationWorker();
+
+    // Raises no-data alarms for patients whose readings have stopped
+    const stopDataWatchdog = startDataWatchdog();
+
     // Graceful shutdown handling
     const gracefulShutdown = (signal: string) => {
       log(`Received ${signal}, starting graceful shutdown...`);
+      mqttBridge?.end();
+      stopNotificationWorker();
+      stopEscalationWorker();
+      stopDataWatchdog();
+      closeVitalsStream();
       
       httpServer.close(() => {
         log("HTTP server closed");
@@ -0,0 +1,422 @@
+import { storage } from "./storage";
+import { calibrateReading, type AppliedCalibration } from "./calibration";
+import { publishVitalsSnapshot } from "./vitals-stream";
+import { getVitalTrends } from "./trends";
+import { evaluateAlarms } from "./alarms";
+import { getSupplementalOxygen, recordNews2Score } from "./news2-history";
+import { checkDataGap, staleAfterSeconds } from "./data-watchdog";
+import {
+  VITAL_METRIC_CODES,
+  vitalMetrics,
+  type Device,
+  type EcgData,
+  type InsertEcgData,
+  type InsertObservation,
+  type SnapshotValue,
+  type VitalMetric,
+  type VitalsSnapshot,
+} from "@shared/schema";
+import { validateReading, type PreviousValue, type ReadingContext, type ReadingValidation } from "@shared/validation";
+import { UnitError, roundForStorage, toCanonical } from "@shared/units";
+import { calculateNews2 } from "@shared/news2";
+
+// Readings may be backfilled from the device buffer, but not arbitrarily far back
+const MAX_BACKFILL_MS = parseInt(process.env.INGESTION_MAX_BACKFILL_HOURS || "168", 10) * 60 * 60 * 1000;
+
+// Tolerance for device clocks that run slightly ahead of the server
+const MAX_FUTURE_SKEW_MS = 60 * 1000;
+
+export const MAX_BATCH_SIZE = 500;
+
+export class IngestionError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "IngestionError";
+    this.status = status;
+  }
+}
+
+export interface IngestionResult {
+  reading: EcgData;
+  duplicate: boolean; // True when a retried submission returned the originally stored reading
+  dataType: string;
+  temperature?: number;
+  spo2?: number;
+  heartRate?: number;
+}
+
+// Wall-clock anchor for device uptime values: the Unix time (ms) at which the device booted
+export interface BootReference {
+  bootEpochMs?: number;
+}
+
+export function toFiniteNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const num = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(num) ? num : undefined;
+}
+
+// Derives the boot reference for a request. Devices that know the wall clock send
+// boot_epoch_ms; otherwise the boot time is inferred from the uptime at send time.
+export function resolveBootReference(body: Record<string, any>, receivedAt: Date): BootReference {
+  const bootEpochMs = toFiniteNumber(body.boot_epoch_ms);
+  if (bootEpochMs !== undefined) {
+    return { bootEpochMs };
+  }
+
+  const sentAtUptimeMs = toFiniteNumber(body.uptime_ms);
+  if (sentAtUptimeMs !== undefined) {
+    return { bootEpochMs: receivedAt.getTime() - sentAtUptimeMs };
+  }
+
+  return {};
+}
+
+// Reconstructs when a reading was taken. An explicit epoch_ms wins; otherwise the
+// device uptime at measurement (the firmware's millis() "timestamp", or uptime_ms)
+// is offset from the boot reference. Untimed readings fall back to the receive time
+// only when the caller allows it (single live readings, not buffered batches).
+export function resolveReadingTime(
+  reading: Record<string, any>,
+  boot: BootReference,
+  receivedAt: Date,
+  fallbackToReceivedAt = false,
+): Date {
+  const epochMs = toFiniteNumber(reading.epoch_ms);
+  const uptimeMs = toFiniteNumber(reading.timestamp) ?? toFiniteNumber(reading.uptime_ms);
+  let time: number;
+
+  if (epochMs !== undefined) {
+    time = epochMs;
+  } else if (uptimeMs !== undefined) {
+    if (boot.bootEpochMs === undefined) {
+      throw new IngestionError(400, "Reading has an uptime timestamp but the request has no boot reference (uptime_ms or boot_epoch_ms)");
+    }
+    time = boot.bootEpochMs + uptimeMs;
+  } else if (fallbackToReceivedAt) {
+    time = receivedAt.getTime();
+  } else {
+    throw new IngestionError(400, "Reading has no timestamp (epoch_ms or uptime_ms)");
+  }
+
+  if (time > receivedAt.getTime() + MAX_FUTURE_SKEW_MS) {
+    throw new IngestionError(400, "Reading timestamp is in the future");
+  }
+
+  if (time < receivedAt.getTime() - MAX_BACKFILL_MS) {
+    throw new IngestionError(400, "Reading timestamp is older than the backfill limit");
+  }
+
+  return new Date(time);
+}
+
+// Idempotency key for a device reading, scoped to the device. An explicit key
+// (Idempotency-Key header or reading_id) wins; otherwise it is derived from the
+// device's own timestamp, which is identical on every retry of the same reading.
+// An uptime timestamp restarts at every reboot, so it only identifies a reading
+// together with a boot_id; without one the reading is not deduplicated.
+export function deviceIdempotencyKey(device: Device, data: Record<string, any>, explicitKey?: string): string | undefined {
+  const key = explicitKey || (data.reading_id !== undefined && data.reading_id !== null ? String(data.reading_id) : "");
+  if (key) {
+    return `device:${device.id}:id:${key}`;
+  }
+
+  const epochMs = toFiniteNumber(data.epoch_ms);
+  if (epochMs !== undefined) {
+    return `device:${device.id}:epoch:${data.data_type}:${epochMs}`;
+  }
+
+  const uptimeMs = toFiniteNumber(data.timestamp) ?? toFiniteNumber(data.uptime_ms);
+  if (uptimeMs === undefined || data.boot_id === undefined || data.boot_id === null || data.boot_id === "") {
+    return undefined;
+  }
+
+  return `device:${device.id}:${data.boot_id}:${data.data_type}:${uptimeMs}`;
+}
+
+function toBoolean(value: unknown): boolean | undefined {
+  if (value === true || value === "true" || value === 1 || value === "1") return true;
+  if (value === false || value === "false" || value === 0 || value === "0") return false;
+  return undefined;
+}
+
+// Sensor state a device payload reports for its values
+export function readingContextFromPayload(data: Record<string, any>): ReadingContext {
+  return {
+    fingerDetected: toBoolean(data.finger_detected),
+    bodyContact: toBoolean(data.body_contact),
+    sampleCount: toFiniteNumber(data.sample_count),
+  };
+}
+
+function measuredValues(data: Partial<InsertEcgData>): Partial<Record<VitalMetric, number>> {
+  const values: Partial<Record<VitalMetric, number>> = {};
+  for (const metric of VITAL_METRIC_CODES) {
+    const value = data[vitalMetrics[metric].column];
+    if (value !== null && value !== undefined) values[metric] = value;
+  }
+  return values;
+}
+
+// Whether a reading carries at least one measured vital sign
+export function hasMeasurements(data: Partial<InsertEcgData>): boolean {
+  return Object.keys(measuredValues(data)).length > 0;
+}
+
+// Converts a value sent in `unit` (temperature_unit, spo2_unit, blood_pressure_unit)
+// to the metric's storage unit
+function canonicalValue(metric: VitalMetric, value: number, unit: unknown): number {
+  try {
+    return toCanonical(metric, value, typeof unit === "string" ? unit : undefined);
+  } catch (error) {
+    if (error instanceof UnitError) throw new IngestionError(400, error.message);
+    throw error;
+  }
+}
+
+// Unit field a payload uses for each metric; metrics without one are always canonical
+const unitFields: Partial<Record<VitalMetric, string>> = {
+  temperature: "temperature_unit",
+  spo2: "spo2_unit",
+  systolic_bp: "blood_pressure_unit",
+  diastolic_bp: "blood_pressure_unit",
+};
+
+// Converts every measured value of a reading to storage units, reading the units
+// from the accompanying payload. Integer columns are rounded after conversion so
+// that e.g. a fractional SpO2 of 0.97 is stored as 97.
+export function normalizeReadingUnits(data: InsertEcgData, units: Record<string, any>): InsertEcgData {
+  const normalized: InsertEcgData = { ...data };
+  for (const [metric, value] of Object.entries(measuredValues(data)) as [VitalMetric, number][]) {
+    const field = unitFields[metric];
+    const canonical = field ? canonicalValue(metric, value, units[field]) : value;
+    normalized[vitalMetrics[metric].column] = roundForStorage(metric, canonical);
+  }
+  return normalized;
+}
+
+// One observation per vital sign actually present on the reading, carrying the
+// validation result and, for device readings, the raw value before calibration
+function observationsFromReading(
+  reading: EcgData,
+  validation: ReadingValidation,
+  calibration: Partial<Record<VitalMetric, AppliedCalibration>>,
+): InsertObservation[] {
+  const observations: InsertObservation[] = [];
+  for (const metric of VITAL_METRIC_CODES) {
+    const value = reading[vitalMetrics[metric].column];
+    if (value === null || value === undefined) continue;
+    observations.push({
+      userId: reading.userId,
+      readingId: reading.id,
+      deviceId: reading.deviceId,
+      metric,
+      value,
+      unit: vitalMetrics[metric].unit,
+      source: reading.deviceId ? "device" : "manual",
+      observedAt: reading.timestamp,
+      validationStatus: validation.metrics[metric]?.status ?? "accepted",
+      validationReason: validation.metrics[metric]?.reason ?? null,
+      rawValue: calibration[metric]?.rawValue ?? null,
+      calibrationId: calibration[metric]?.calibrationId ?? null,
+    });
+  }
+  return observations;
+}
+
+// Creates a reading unless one with the same idempotency key exists, in which
+// case the original is returned. Backed by the unique index on idempotencyKey.
+// Device readings are calibrated first; new readings are then validated against
+// the patient's previous accepted values and stored with the result, whatever it is.
+export async function createEcgDataOnce(
+  data: InsertEcgData,
+  context: ReadingContext = {},
+): Promise<{ reading: EcgData; duplicate: boolean }> {
+  const key = data.idempotencyKey;
+  if (key) {
+    const existing = await storage.getEcgDataByIdempotencyKey(key);
+    if (existing) return { reading: existing, duplicate: true };
+  }
+
+  const previous: Partial<Record<VitalMetric, PreviousValue>> = {};
+  for (const observation of await storage.getLatestObservationsByUserId(data.userId)) {
+    previous[observation.metric as VitalMetric] = observation;
+  }
+  const { data: calibrated, applied } = await calibrateReading(data);
+  const validation = validateReading(measuredValues(calibrated), context, previous, data.timestamp ?? new Date());
+
+  let reading: EcgData;
+  try {
+    reading = await storage.createEcgData({
+      ...calibrated,
+      validationStatus: validation.status,
+      validationReason: validation.reason,
+      fingerDetected: context.fingerDetected ?? null,
+      bodyContact: context.bodyContact ?? null,
+      sampleCount: context.sampleCount ?? null,
+    });
+  } catch (error) {
+    // A concurrent retry may have won the race for the same key
+    const existing = key ? await storage.getEcgDataByIdempotencyKey(key) : undefined;
+    if (existing) return { reading: existing, duplicate: true };
+    throw error;
+  }
+
+  await storage.createObservations(observationsFromReading(reading, validation, applied));
+  await processNewObservations(reading.userId);
+  return { reading, duplicate: false };
+}
+
+// Everything that follows new values for a patient: alarms are re-checked (a no-data
+// alarm clears as soon as readings return), a changed NEWS2 score is added to the
+// history and the snapshot goes out on the live stream
+export async function processNewObservations(userId: string): Promise<void> {
+  await evaluateAlarms(userId);
+  await checkDataGap(userId);
+  const snapshot = await buildVitalsSnapshot(userId);
+  await recordNews2Score(userId, snapshot.news2);
+  publishVitalsSnapshot(snapshot);
+}
+
+// Merges the most recent observation of each metric. Values are never carried
+// forward or defaulted: a metric that was never measured is null, and every
+// value reports how old it is and where it has been heading. The NEWS2 score is
+// calculated from the same values.
+export async function buildVitalsSnapshot(userId: string, now: Date = new Date()): Promise<VitalsSnapshot> {
+  const latest = await storage.getLatestObservationsByUserId(userId);
+  const trends = await getVitalTrends(userId);
+  const values: Partial<Record<VitalMetric, number>> = {};
+  const metrics = Object.fromEntries(VITAL_METRIC_CODES.map((metric) => [metric, null])) as Record<VitalMetric, SnapshotValue | null>;
+  let lastObservedAt: Date | null = null;
+
+  for (const observation of latest) {
+    if (!(observation.metric in vitalMetrics)) continue;
+    const observedAt = new Date(observation.observedAt);
+    metrics[observation.metric as VitalMetric] = {
+      value: observation.value,
+      unit: observation.unit,
+      source: observation.source,
+      deviceId: observation.deviceId,
+      observedAt: observedAt.toISOString(),
+      ageSeconds: Math.max(0, Math.round((now.getTime() - observedAt.getTime()) / 1000)),
+      trend: trends[observation.metric as VitalMetric] ?? null,
+    };
+    values[observation.metric as VitalMetric] = observation.value;
+    if (!lastObservedAt || observedAt > lastObservedAt) {
+      lastObservedAt = observedAt;
+    }
+  }
+
+  return {
+    userId,
+    generatedAt: now.toISOString(),
+    lastObservedAt: lastObservedAt ? lastObservedAt.toISOString() : null,
+    metrics,
+    news2: calculateNews2(values, await getSupplementalOxygen(userId)),
+    staleAfterSeconds: await staleAfterSeconds(userId),
+  };
+}
+
+// Stores one device reading for the patient the device was bound to when it was taken
+export async function ingestDeviceReading(
+  device: Device,
+  data: Record<string, any>,
+  recordedAt: Date,
+  explicitIdempotencyKey?: string,
+): Promise<IngestionResult> {
+  const data_type = data.data_type;
+  if (!data_type) {
+    throw new IngestionError(400, "Missing required field: data_type");
+  }
+
+  const idempotencyKey = deviceIdempotencyKey(device, data, explicitIdempotencyKey);
+  if (idempotencyKey) {
+    const existing = await storage.getEcgDataByIdempotencyKey(idempotencyKey);
+    if (existing) {
+      return {
+        reading: existing,
+        duplicate: true,
+        dataType: data_type,
+        ...(data_type === "temperature"
+          ? { temperature: existing.temperature ?? undefined }
+          : { spo2: existing.spo2 ?? undefined, heartRate: existing.heartRate ?? undefined }),
+      };
+    }
+  }
+
+  const assignment = await storage.getActiveDeviceAssignment(device.id, recordedAt);
+  if (!assignment) {
+    throw new IngestionError(409, `Device ${device.deviceId} is not assigned to a patient at ${recordedAt.toISOString()}`);
+  }
+
+  // Only the metrics this payload actually measured are stored; everything else stays null
+  const ecgDataToStore: InsertEcgData = {
+    userId: assignment.userId,
+    deviceId: device.id,
+    idempotencyKey: idempotencyKey ?? null,
+    recordId: null,
+    timestamp: recordedAt,
+  };
+  const supplementalOxygen = toBoolean(data.supplemental_oxygen);
+  if (supplementalOxygen !== undefined) ecgDataToStore.supplementalOxygen = supplementalOxygen;
+  let measuredTemperature: number | undefined;
+  let measuredSpo2: number | undefined;
+  let measuredHeartRate: number | undefined;
+
+  if (data_type === "temperature") {
+    // Temperature data - accept both "temperature" and "temperature_c" field names
+    const temperature = data.temperature !== undefined ? data.temperature : data.temperature_c;
+
+    if (temperature === undefined) {
+      throw new IngestionError(400, "Missing temperature field for temperature data_type");
+    }
+
+    // temperature_c is Celsius by name; otherwise temperature_unit applies (Celsius when absent)
+    measuredTemperature = canonicalValue(
+      "temperature",
+      parseFloat(temperature),
+      data.temperature !== undefined ? data.temperature_unit : "celsius",
+    );
+    ecgDataToStore.temperature = roundForStorage("temperature", measuredTemperature);
+  } else if (data_type === "vitals") {
+    // Vitals data - accept both standard and ESP32 field names
+    // Accept: spo2 or max_spo2_percent
+    // Accept: heart_rate or max_heart_rate_bpm
+    const spo2 = data.spo2 !== undefined ? data.spo2 :
+                 (data.max_spo2_percent !== undefined ? data.max_spo2_percent : undefined);
+    const heart_rate = data.heart_rate !== undefined ? data.heart_rate :
+                      (data.max_heart_rate_bpm !== undefined ? data.max_heart_rate_bpm : undefined);
+
+    if (spo2 === undefined && heart_rate === undefined) {
+      throw new IngestionError(400, "Missing spo2 or heart_rate field for vitals data_type");
+    }
+
+    measuredSpo2 = spo2 !== undefined ? canonicalValue("spo2", parseFloat(String(spo2)), data.spo2_unit) : undefined;
+    measuredHeartRate = heart_rate !== undefined ? parseInt(String(heart_rate)) : undefined;
+
+    if (measuredHeartRate !== undefined) ecgDataToStore.heartRate = measuredHeartRate;
+    if (measuredSpo2 !== undefined) ecgDataToStore.spo2 = roundForStorage("spo2", measuredSpo2);
+  } else {
+    throw new IngestionError(400, `Invalid data_type: ${data_type}. Expected 'temperature' or 'vitals'`);
+  }
+
+  for (const [field, value] of [["temperature", measuredTemperature], ["spo2", measuredSpo2], ["heart_rate", measuredHeartRate]] as const) {
+    if (value !== undefined && !Number.isFinite(value)) {
+      throw new IngestionError(400, `${field} must be a number`);
+    }
+  }
+
+  const { reading, duplicate } = await createEcgDataOnce(ecgDataToStore, readingContextFromPayload(data));
+
+  // Reported back as stored, i.e. after unit conversion and calibration
+  return {
+    reading,
+    duplicate,
+    dataType: data_type,
+    temperature: reading.temperature ?? undefined,
+    spo2: reading.spo2 ?? undefined,
+    heartRate: reading.heartRate ?? undefined,
+  };
+}
@@ -0,0 +1,166 @@
+import mqtt, { type MqttClient } from "mqtt";
+import { storage } from "./storage";
+import { log } from "./vite";
+import { DeviceAuthError, verifyDeviceMessage } from "./device-auth";
+import { recordDeviceAuthFailure, recordDeviceIngestionError, recordDeviceTelemetry } from "./device-health";
+import { IngestionError, ingestDeviceReading, resolveBootReference, resolveReadingTime } from "./ingestion";
+
+// The bridge only runs when a broker is configured
+const MQTT_URL = process.env.MQTT_URL;
+const MQTT_TOPIC_PREFIX = process.env.MQTT_TOPIC_PREFIX || "devices";
+// A fixed client id with a persistent session lets the broker queue QoS 1 messages while the server is down
+const MQTT_CLIENT_ID = process.env.MQTT_CLIENT_ID || "vitals-server";
+
+// Topic suffixes accepted from devices, each the data_type of the readings it carries
+const READING_TOPICS = ["vitals", "temperature"] as const;
+
+// Message published by a device on devices/{device_id}/vitals or .../temperature. The
+// body is the raw JSON payload the firmware would POST to /api/vitals, signed exactly
+// as over HTTP: HMAC-SHA256 over "<timestamp>\n<nonce>\n<body>".
+interface SignedEnvelope {
+  key_id?: string;
+  timestamp?: string;
+  nonce?: string;
+  signature?: string;
+  body?: string;
+}
+
+// Result published back on devices/{device_id}/ack; devices match it by nonce and
+// drop the reading from their buffer unless the status is 5xx
+interface IngestionAck {
+  nonce: string | null;
+  status: number;
+  message: string;
+  duplicate?: boolean;
+  reading_id?: string;
+  validation_status?: string;
+}
+
+function parseTopic(topic: string): { deviceId: string; dataType: string } | null {
+  const parts = topic.split("/");
+  const prefixParts = MQTT_TOPIC_PREFIX.split("/");
+  if (parts.length !== prefixParts.length + 2 || parts.slice(0, prefixParts.length).join("/") !== MQTT_TOPIC_PREFIX) {
+    return null;
+  }
+  const [deviceId, dataType] = parts.slice(prefixParts.length);
+  return (READING_TOPICS as readonly string[]).includes(dataType) ? { deviceId, dataType } : null;
+}
+
+// Runs one message through the same authentication and ingestion steps as POST /api/vitals
+async function handleReadingMessage(deviceId: string, dataType: string, payload: Buffer): Promise<IngestionAck> {
+  let envelope: SignedEnvelope;
+  try {
+    envelope = JSON.parse(payload.toString("utf8"));
+  } catch {
+    return { nonce: null, status: 400, message: "Message is not valid JSON" };
+  }
+  const nonce = envelope.nonce ?? null;
+
+  let device;
+  try {
+    ({ device } = await verifyDeviceMessage({
+      deviceId,
+      keyId: envelope.key_id,
+      timestamp: envelope.timestamp,
+      nonce: envelope.nonce,
+      signature: envelope.signature,
+      body: typeof envelope.body === "string" ? envelope.body : "",
+    }));
+  } catch (error: any) {
+    if (error instanceof DeviceAuthError && error.status === 409) {
+      // QoS 1 redelivery of a message that was already processed
+      return { nonce, status: 200, message: "Message already processed", duplicate: true };
+    }
+    const status = error instanceof DeviceAuthError ? error.status : 500;
+    const registered = await storage.getDeviceByDeviceId(deviceId);
+    if (registered) {
+      recordDeviceAuthFailure(registered, status, error.message || "Device authentication failed");
+    }
+    return { nonce, status, message: error.message || "Device authentication failed" };
+  }
+
+  try {
+    let data: Record<string, any>;
+    try {
+      data = JSON.parse(envelope.body!);
+    } catch {
+      throw new IngestionError(400, "body is not valid JSON");
+    }
+    if (data.data_type !== undefined && data.data_type !== dataType) {
+      throw new IngestionError(400, `data_type ${data.data_type} does not match the ${dataType} topic`);
+    }
+    data = { ...data, data_type: dataType };
+
+    if (String(data.device_id) !== device.deviceId) {
+      throw new IngestionError(400, "device_id in the payload does not match the topic");
+    }
+
+    const receivedAt = new Date();
+    await recordDeviceTelemetry(device, data, receivedAt, receivedAt);
+    const recordedAt = resolveReadingTime(data, resolveBootReference(data, receivedAt), receivedAt, true);
+    const result = await ingestDeviceReading(device, data, recordedAt);
+
+    return {
+      nonce,
+      status: result.duplicate ? 200 : 201,
+      message: result.duplicate ? `Duplicate ${dataType} reading` : `Stored ${dataType} reading`,
+      duplicate: result.duplicate,
+      reading_id: result.reading.id,
+      validation_status: result.reading.validationStatus,
+    };
+  } catch (error: any) {
+    if (error instanceof IngestionError) {
+      await recordDeviceIngestionError(device, error.status, error.message);
+      return { nonce, status: error.status, message: error.message };
+    }
+    log(`Error processing ${dataType} message from ${deviceId}: ${error.message}`, "mqtt", "error");
+    return { nonce, status: 500, message: "Failed to process reading" };
+  }
+}
+
+// Subscribes to device reading topics on the configured broker. Messages are handled
+// one at a time and the QoS 1 PUBACK is only sent once a message has been stored or
+// rejected, so a message in flight when the server stops is redelivered by the broker.
+export function startMqttBridge(): MqttClient | null {
+  if (!MQTT_URL) return null;
+
+  const client = mqtt.connect(MQTT_URL, {
+    clientId: MQTT_CLIENT_ID,
+    clean: false,
+    username: process.env.MQTT_USERNAME || undefined,
+    password: process.env.MQTT_PASSWORD || undefined,
+    reconnectPeriod: 5000,
+  });
+
+  client.handleMessage = (packet, callback) => {
+    const target = parseTopic(packet.topic);
+    if (!target) {
+      callback();
+      return;
+    }
+
+    handleReadingMessage(target.deviceId, target.dataType, Buffer.from(packet.payload))
+      .then((ack) => {
+        client.publish(`${MQTT_TOPIC_PREFIX}/${target.deviceId}/ack`, JSON.stringify(ack), { qos: 1 });
+        callback();
+      })
+      .catch((error) => {
+        log(`Error acknowledging message on ${packet.topic}: ${error.message}`, "mqtt", "error");
+        callback();
+      });
+  };
+
+  client.on("connect", () => {
+    const topics = READING_TOPICS.map((suffix) => `${MQTT_TOPIC_PREFIX}/+/${suffix}`);
+    client.subscribe(topics, { qos: 1 }, (error) => {
+      if (error) {
+        log(`Subscription failed: ${error.message}`, "mqtt", "error");
+      } else {
+        log(`Subscribed to ${topics.join(", ")} on ${new URL(MQTT_URL).host}`, "mqtt");
+      }
+    });
+  });
+  client.on("error", (error) => log(`Broker error: ${error.message}`, "mqtt", "error"));
+
+  return client;
+}
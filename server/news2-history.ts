@@ -0,0 +1,51 @@
+import { storage } from "./storage";
+import type { News2Band, News2HistoryEntry, News2Parameter, News2Score, News2ScoreRecord } from "@shared/schema";
+
+// Supplemental oxygen as recorded on the patient's most recent reading that says
+// either way; null if no reading has recorded it
+export async function getSupplementalOxygen(userId: string): Promise<boolean | null> {
+  // getEcgDataByUserId is newest first
+  const reading = (await storage.getEcgDataByUserId(userId)).find(
+    (entry) => entry.supplementalOxygen !== null && entry.validationStatus !== "rejected"
+  );
+  return reading?.supplementalOxygen ?? null;
+}
+
+export function toNews2HistoryEntry(record: News2ScoreRecord): News2HistoryEntry {
+  return {
+    score: record.score,
+    band: record.band as News2Band,
+    parameters: JSON.parse(record.parameters) as Partial<Record<News2Parameter, number>>,
+    missing: JSON.parse(record.missing) as News2Parameter[],
+    supplementalOxygen: record.supplementalOxygen,
+    calculatedAt: record.calculatedAt.toISOString(),
+  };
+}
+
+// Stores a patient's current score unless it matches the last one stored, so the
+// history has one entry per change
+export async function recordNews2Score(userId: string, news2: News2Score, at: Date = new Date()): Promise<News2ScoreRecord | null> {
+  const parameters = JSON.stringify(news2.parameters);
+  const missing = JSON.stringify(news2.missing);
+  const last = await storage.getLatestNews2Score(userId);
+  if (
+    last &&
+    last.score === news2.score &&
+    last.band === news2.band &&
+    last.parameters === parameters &&
+    last.missing === missing &&
+    last.supplementalOxygen === news2.supplementalOxygen
+  ) {
+    return null;
+  }
+
+  return storage.createNews2Score({
+    userId,
+    score: news2.score,
+    band: news2.band,
+    parameters,
+    missing,
+    supplementalOxygen: news2.supplementalOxygen,
+    calculatedAt: at,
+  });
+}
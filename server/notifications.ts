@@ -0,0 +1,291 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+import { alarmToDisplay, getUnitPreferences } from "./display-units";
+import { checkWebhookDestination, getChannelAdapters } from "./notification-channels";
+import {
+  DATA_GAP_METRIC,
+  alarmPriorities,
+  notificationChannels,
+  vitalMetrics,
+  type Alarm,
+  type AlarmPriority,
+  type Notification,
+  type NotificationChannel,
+  type NotificationPreferencesData,
+  type NotificationPreferencesRecord,
+  type NotificationSettings,
+  type User,
+  type VitalMetric,
+} from "@shared/schema";
+
+// A notification that fails is retried after NOTIFICATION_RETRY_BASE_SECONDS, doubling
+// each time up to an hour, until NOTIFICATION_MAX_ATTEMPTS attempts have failed
+const MAX_ATTEMPTS = parseInt(process.env.NOTIFICATION_MAX_ATTEMPTS || "6", 10);
+const RETRY_BASE_SECONDS = parseInt(process.env.NOTIFICATION_RETRY_BASE_SECONDS || "30", 10);
+const RETRY_MAX_SECONDS = 60 * 60;
+// How often the worker looks for notifications that are due
+const POLL_SECONDS = parseInt(process.env.NOTIFICATION_POLL_SECONDS || "5", 10);
+
+export class NotificationError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "NotificationError";
+    this.status = status;
+  }
+}
+
+// Preferences of users who never saved any
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferencesData = {
+  enabled: true,
+  minPriority: "high",
+  emailEnabled: true,
+  email: null,
+  smsEnabled: false,
+  phone: null,
+  webhookEnabled: false,
+  webhookUrl: null,
+};
+
+// What a notification says; SMS carries only the message and webhooks only the payload
+export interface NotificationContent {
+  subject: string;
+  message: string;
+  payload: Record<string, unknown>;
+}
+
+export function availableChannels(): NotificationChannel[] {
+  const adapters = getChannelAdapters();
+  return notificationChannels.filter((channel) => adapters[channel] !== undefined);
+}
+
+function toPreferencesData(record: NotificationPreferencesRecord | undefined): NotificationPreferencesData {
+  if (!record) return DEFAULT_NOTIFICATION_PREFERENCES;
+  return {
+    enabled: record.enabled,
+    minPriority: record.minPriority as AlarmPriority,
+    emailEnabled: record.emailEnabled,
+    email: record.email,
+    smsEnabled: record.smsEnabled,
+    phone: record.phone,
+    webhookEnabled: record.webhookEnabled,
+    webhookUrl: record.webhookUrl,
+  };
+}
+
+export async function getNotificationSettings(userId: string): Promise<NotificationSettings> {
+  const user = await storage.getUser(userId);
+  if (!user) throw new NotificationError(404, "User not found");
+
+  const record = await storage.getNotificationPreferences(userId);
+  return {
+    preferences: toPreferencesData(record),
+    accountEmail: user.email,
+    accountPhone: user.phone,
+    availableChannels: availableChannels(),
+    updatedAt: record?.updatedAt ? new Date(record.updatedAt).toISOString() : null,
+  };
+}
+
+// A webhook can only be switched on when the server signs webhook requests, and only for
+// a destination the saving user may use; a URL already saved stays usable as it is
+export async function saveNotificationPreferences(
+  userId: string,
+  preferences: NotificationPreferencesData,
+  savedByAdmin: boolean,
+): Promise<NotificationSettings> {
+  if (!(await storage.getUser(userId))) throw new NotificationError(404, "User not found");
+  if (preferences.webhookEnabled) {
+    if (!availableChannels().includes("webhook")) {
+      throw new NotificationError(400, "Webhook notifications are not available: no signing secret is configured");
+    }
+    const saved = toPreferencesData(await storage.getNotificationPreferences(userId));
+    const problem = await checkWebhookDestination(preferences.webhookUrl!, savedByAdmin || preferences.webhookUrl === saved.webhookUrl);
+    if (problem) throw new NotificationError(400, problem);
+  }
+  await storage.saveNotificationPreferences(userId, preferences);
+  return getNotificationSettings(userId);
+}
+
+// Where each enabled channel delivers to, skipping channels this server cannot use
+function destinationsFor(user: User, preferences: NotificationPreferencesData): [NotificationChannel, string][] {
+  const available = availableChannels();
+  const destinations: [NotificationChannel, string][] = [];
+  if (preferences.emailEnabled) destinations.push(["email", preferences.email || user.email]);
+  if (preferences.smsEnabled) destinations.push(["sms", preferences.phone || user.phone]);
+  if (preferences.webhookEnabled && preferences.webhookUrl) destinations.push(["webhook", preferences.webhookUrl]);
+  return destinations.filter(([channel]) => available.includes(channel));
+}
+
+// Queues content for one user on every channel they enabled. Delivery starts straight
+// away; the worker picks up whatever is still pending.
+export async function notifyUser(
+  user: User,
+  content: NotificationContent,
+  alarmId: string | null = null,
+  now: Date = new Date(),
+): Promise<Notification[]> {
+  const preferences = toPreferencesData(await storage.getNotificationPreferences(user.id));
+  const queued: Notification[] = [];
+  for (const [channel, destination] of destinationsFor(user, preferences)) {
+    queued.push(await storage.createNotification({
+      userId: user.id,
+      alarmId,
+      channel,
+      destination,
+      subject: content.subject,
+      message: content.message,
+      payload: JSON.stringify(content.payload),
+      status: "pending",
+      nextAttemptAt: now,
+    }));
+  }
+  if (queued.length > 0) void drainOutbox();
+  return queued;
+}
+
+// Alarm message in the recipient's display units
+export async function alarmNotificationContent(alarm: Alarm, patient: User | undefined, recipientId: string): Promise<NotificationContent> {
+  const shown = alarmToDisplay(alarm, await getUnitPreferences(recipientId));
+  const patientName = patient?.email ?? alarm.userId;
+  if (alarm.metric === DATA_GAP_METRIC) {
+    const what = alarm.condition === "device_offline" ? "Monitoring device offline" : "No readings";
+    return {
+      subject: `[${alarm.priority.toUpperCase()}] ${what} for ${patientName}`,
+      message:
+        `No readings from ${patientName} since ${alarm.onsetAt.toISOString()}, longer than the ${alarm.threshold} s allowed` +
+        (alarm.condition === "device_offline" ? "; the monitoring device is not reaching the server." : "; the monitoring device is connected but sends no usable readings."),
+      payload: {
+        event: "alarm.triggered",
+        alarm: shown,
+        patient: { id: alarm.userId, email: patient?.email ?? null },
+      },
+    };
+  }
+
+  const label = vitalMetrics[alarm.metric as VitalMetric]?.label ?? alarm.metric;
+  const direction = alarm.condition === "low" ? "below" : "above";
+  return {
+    subject: `[${alarm.priority.toUpperCase()}] ${label} alarm for ${patientName}`,
+    message:
+      `${label} ${shown.triggerValue} ${shown.unit} is ${direction} the limit of ${shown.threshold} ${shown.unit} ` +
+      `for ${patientName} since ${alarm.onsetAt.toISOString()} (${alarm.priority} priority).`,
+    payload: {
+      event: "alarm.triggered",
+      alarm: shown,
+      patient: { id: alarm.userId, email: patient?.email ?? null },
+    },
+  };
+}
+
+// Tells the patient and every admin about a newly fired alarm, each on their own
+// channels and only if the alarm is at or above their minimum priority. Failures are
+// logged rather than thrown so they never hold up ingestion.
+export async function notifyAlarm(alarm: Alarm, now: Date = new Date()): Promise<Notification[]> {
+  try {
+    const users = await storage.getAllUsers();
+    const patient = users.find((user) => user.id === alarm.userId);
+    const recipients = users.filter((user) => user.id === alarm.userId || user.role === "admin");
+
+    const queued: Notification[] = [];
+    for (const recipient of recipients) {
+      const preferences = toPreferencesData(await storage.getNotificationPreferences(recipient.id));
+      if (!preferences.enabled) continue;
+      if (alarmPriorities.indexOf(alarm.priority as AlarmPriority) < alarmPriorities.indexOf(preferences.minPriority)) continue;
+      queued.push(...await notifyUser(recipient, await alarmNotificationContent(alarm, patient, recipient.id), alarm.id, now));
+    }
+    return queued;
+  } catch (error: any) {
+    log(`Could not queue notifications for alarm ${alarm.id}: ${error.message}`, "notifications", "error");
+    return [];
+  }
+}
+
+// Sends a test message on each channel the user enabled, whatever their other settings
+export async function sendTestNotification(userId: string): Promise<Notification[]> {
+  const user = await storage.getUser(userId);
+  if (!user) throw new NotificationError(404, "User not found");
+
+  const queued = await notifyUser(user, {
+    subject: "Test notification from Health Monitor",
+    message: "This is a test notification. Alarm notifications will reach you here.",
+    payload: { event: "notification.test", userId },
+  });
+  if (queued.length === 0) {
+    throw new NotificationError(400, "No notification channel is enabled and available");
+  }
+  return queued;
+}
+
+// Puts a failed notification back in the queue with a fresh set of attempts
+export async function retryNotification(id: string, now: Date = new Date()): Promise<Notification> {
+  const notification = await storage.getNotification(id);
+  if (!notification) throw new NotificationError(404, "Notification not found");
+  if (notification.status !== "failed") throw new NotificationError(409, `Notification is ${notification.status}`);
+
+  const updated = await storage.updateNotification(id, { status: "pending", attempts: 0, nextAttemptAt: now });
+  void drainOutbox();
+  return updated!;
+}
+
+function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_SECONDS * 2 ** (attempts - 1), RETRY_MAX_SECONDS) * 1000;
+}
+
+async function deliverDue(now: Date): Promise<void> {
+  const adapters = getChannelAdapters();
+  for (const notification of await storage.getDueNotifications(now)) {
+    const attempts = notification.attempts + 1;
+    try {
+      const adapter = adapters[notification.channel as NotificationChannel];
+      if (!adapter) throw new Error(`The ${notification.channel} channel is not configured`);
+      await adapter.send(notification);
+      await storage.updateNotification(notification.id, { status: "sent", attempts, sentAt: new Date(), lastError: null });
+    } catch (error: any) {
+      const failed = attempts >= MAX_ATTEMPTS;
+      await storage.updateNotification(notification.id, {
+        status: failed ? "failed" : "pending",
+        attempts,
+        lastError: error.message || String(error),
+        nextAttemptAt: failed ? notification.nextAttemptAt : new Date(Date.now() + retryDelayMs(attempts)),
+      });
+      log(
+        `${notification.channel} notification ${notification.id} to ${notification.destination} ${failed ? "failed for good" : "will be retried"} after attempt ${attempts}: ${error.message}`,
+        "notifications",
+        failed ? "error" : "warn",
+      );
+    }
+  }
+}
+
+let draining: Promise<void> | null = null;
+let drainAgain = false;
+
+// Sends every due notification. Only one pass runs at a time; a call made during a
+// pass runs another once it finishes, so newly queued messages are not left waiting.
+export function drainOutbox(): Promise<void> {
+  if (draining) {
+    drainAgain = true;
+    return draining;
+  }
+  draining = (async () => {
+    do {
+      drainAgain = false;
+      await deliverDue(new Date());
+    } while (drainAgain);
+  })()
+    .catch((error) => log(`Outbox delivery failed: ${error.message}`, "notifications", "error"))
+    .finally(() => {
+      draining = null;
+    });
+  return draining;
+}
+
+// Polls the outbox for retries that have come due; returns a function that stops it
+export function startNotificationWorker(): () => void {
+  const timer = setInterval(() => void drainOutbox(), POLL_SECONDS * 1000);
+  timer.unref();
+  log(`Notification channels available: ${availableChannels().join(", ")}`, "notifications");
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,93 @@
+import { randomBytes, randomInt } from "crypto";
+import { storage } from "./storage";
+import { issueDeviceCredential } from "./device-auth";
+import type { Device, DeviceCredential, PairingCode, PairingCodeStatus, ProvisionDeviceData } from "@shared/schema";
+
+// How long a pairing code can be entered on a device
+export const PAIRING_CODE_TTL_MS = parseInt(process.env.PAIRING_CODE_TTL_MINUTES || "10", 10) * 60 * 1000;
+
+const PAIRING_CODE_LENGTH = 6;
+
+export class PairingError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "PairingError";
+    this.status = status;
+  }
+}
+
+export function toPairingCodeStatus(pairingCode: PairingCode, device: Device | undefined, now: Date = new Date()): PairingCodeStatus {
+  let status: PairingCodeStatus["status"] = "pending";
+  if (pairingCode.usedAt) {
+    status = "used";
+  } else if (pairingCode.expiresAt.getTime() <= now.getTime()) {
+    status = "expired";
+  }
+
+  return {
+    id: pairingCode.id,
+    code: pairingCode.code,
+    status,
+    expiresAt: pairingCode.expiresAt.toISOString(),
+    device: device ? { id: device.id, deviceId: device.deviceId, name: device.name } : null,
+  };
+}
+
+// Issues a new code for the patient. Any code they generated earlier and have not
+// used yet stops working, so only the code currently on screen can be entered.
+export async function createPairingCode(userId: string, now: Date = new Date()): Promise<PairingCode> {
+  for (const previous of await storage.getPairingCodesByUserId(userId)) {
+    if (!previous.usedAt && previous.expiresAt.getTime() > now.getTime()) {
+      await storage.updatePairingCode(previous.id, { expiresAt: now });
+    }
+  }
+
+  // Codes only need to be unique among the ones that can still be claimed
+  let code: string;
+  do {
+    code = randomInt(0, 10 ** PAIRING_CODE_LENGTH).toString().padStart(PAIRING_CODE_LENGTH, "0");
+  } while (await storage.getActivePairingCode(code, now));
+
+  return storage.createPairingCode({
+    code,
+    userId,
+    expiresAt: new Date(now.getTime() + PAIRING_CODE_TTL_MS),
+  });
+}
+
+// Registers a device that presented a valid pairing code, gives it a signing key
+// and binds it to the patient who generated the code
+export async function provisionDevice(
+  data: ProvisionDeviceData,
+  now: Date = new Date(),
+): Promise<{ device: Device; credential: DeviceCredential; secret: string; pairingCode: PairingCode }> {
+  const deviceId = data.hardware_id || `dev_${randomBytes(6).toString("hex")}`;
+  if (await storage.getDeviceByDeviceId(deviceId)) {
+    throw new PairingError(409, `Device ${deviceId} is already registered`);
+  }
+
+  // Claimed before anything is created so a code cannot provision two devices
+  const pairingCode = await storage.claimPairingCode(data.pairing_code, now);
+  if (!pairingCode) {
+    throw new PairingError(400, "Pairing code is invalid, expired or already used");
+  }
+
+  const device = await storage.createDevice({
+    deviceId,
+    name: data.model ? `${data.model} ${deviceId}` : deviceId,
+    model: data.model ?? null,
+    groupName: null,
+    status: "active",
+  });
+  const { credential, secret } = await issueDeviceCredential(device.id, false);
+  await storage.createDeviceAssignment({
+    deviceId: device.id,
+    userId: pairingCode.userId,
+    effectiveFrom: now,
+  });
+  const usedCode = await storage.updatePairingCode(pairingCode.id, { deviceId: device.id });
+
+  return { device, credential, secret, pairingCode: usedCode ?? pairingCode };
+}
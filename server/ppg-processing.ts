@@ -0,0 +1,212 @@
+import { storage } from "./storage";
+import { validateReading, type PreviousValue } from "@shared/validation";
+import { vitalMetrics, type InsertObservation, type PpgAnalysis, type PpgComparison, type VitalMetric } from "@shared/schema";
+
+// Derived heart rate and SpO2 are only stored as observations above this quality;
+// the analysis itself is always kept so poor signals remain visible
+export const PPG_MIN_SIGNAL_QUALITY = parseFloat(process.env.PPG_MIN_SIGNAL_QUALITY || "0.6");
+
+// Shortest chunk worth analysing: at least a few beats at resting heart rates
+const MIN_ANALYSIS_SECONDS = 3;
+
+// Physiological heart rate limits; beats closer together than MAX_HEART_RATE allows are one beat
+const MIN_HEART_RATE = 30;
+const MAX_HEART_RATE = 220;
+
+// Raw IR level below which no finger is on the sensor
+const MIN_FINGER_DC = 5000;
+
+// The MAX30105 ADC is 18 bits; samples at full scale are clipped
+const SENSOR_FULL_SCALE = 2 ** 18 - 1;
+
+// Device-reported values this close to a chunk are treated as the same measurement
+const COMPARISON_SLACK_MS = 10 * 1000;
+
+export interface PpgAnalysisResult {
+  heartRate: number | null;
+  spo2: number | null;
+  perfusionIndex: number | null;
+  signalQuality: number;
+  beatCount: number;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function standardDeviation(values: number[]): number {
+  const average = mean(values);
+  return Math.sqrt(mean(values.map((value) => (value - average) ** 2)));
+}
+
+function coefficientOfVariation(values: number[]): number {
+  const average = mean(values);
+  return average === 0 ? Infinity : standardDeviation(values) / Math.abs(average);
+}
+
+// Centred moving average; the window shrinks at the edges
+function movingAverage(values: number[], window: number): number[] {
+  const half = Math.floor(window / 2);
+  return values.map((_, index) => {
+    const start = Math.max(0, index - half);
+    const end = Math.min(values.length, index + half + 1);
+    return mean(values.slice(start, end));
+  });
+}
+
+// Pulsatile component of a raw PPG channel: the slow baseline (respiration, pressure
+// changes) is removed and the result inverted so that each beat is a positive peak
+function pulsatile(samples: number[], sampleRateHz: number): number[] {
+  const baseline = movingAverage(samples, Math.max(3, Math.round(sampleRateHz * 1.5)));
+  const pulse = samples.map((sample, index) => baseline[index] - sample);
+  return movingAverage(pulse, Math.max(1, Math.round(sampleRateHz * 0.08)));
+}
+
+// Indices of beat peaks: local maxima above a noise threshold, at least one
+// refractory period apart (the larger peak wins within a period)
+function detectPeaks(pulse: number[], sampleRateHz: number): number[] {
+  const threshold = 0.3 * standardDeviation(pulse);
+  const refractory = Math.round((60 / MAX_HEART_RATE) * sampleRateHz);
+  const peaks: number[] = [];
+
+  for (let index = 1; index < pulse.length - 1; index++) {
+    const value = pulse[index];
+    if (value <= threshold || value < pulse[index - 1] || value < pulse[index + 1]) continue;
+
+    const previous = peaks[peaks.length - 1];
+    if (previous !== undefined && index - previous < refractory) {
+      if (value > pulse[previous]) peaks[peaks.length - 1] = index;
+    } else {
+      peaks.push(index);
+    }
+  }
+
+  return peaks;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+// Heart rate from peak intervals, ratio-of-ratios SpO2, perfusion index and a 0-1
+// signal quality index combining beat regularity, pulse amplitude consistency and
+// sensor saturation
+export function analyzePpg(ir: number[], red: number[] | undefined, sampleRateHz: number): PpgAnalysisResult {
+  const unusable: PpgAnalysisResult = { heartRate: null, spo2: null, perfusionIndex: null, signalQuality: 0, beatCount: 0 };
+  if (ir.length < sampleRateHz * MIN_ANALYSIS_SECONDS) return unusable;
+
+  const dcIr = mean(ir);
+  if (dcIr < MIN_FINGER_DC) return unusable;
+
+  const pulseIr = pulsatile(ir, sampleRateHz);
+  const peaks = detectPeaks(pulseIr, sampleRateHz);
+  const intervals = peaks.slice(1)
+    .map((peak, index) => (peak - peaks[index]) / sampleRateHz)
+    .filter((seconds) => seconds >= 60 / MAX_HEART_RATE && seconds <= 60 / MIN_HEART_RATE);
+
+  const heartRate = intervals.length >= 2 ? round(60 / median(intervals), 0) : null;
+
+  const sortedPulse = [...pulseIr].sort((a, b) => a - b);
+  const acIr = sortedPulse[Math.floor(sortedPulse.length * 0.95)] - sortedPulse[Math.floor(sortedPulse.length * 0.05)];
+  const perfusionIndex = round((acIr / dcIr) * 100, 2);
+
+  let spo2: number | null = null;
+  if (red && red.length === ir.length) {
+    const dcRed = mean(red);
+    const acRmsRed = standardDeviation(pulsatile(red, sampleRateHz));
+    const acRmsIr = standardDeviation(pulseIr);
+    if (dcRed > 0 && acRmsIr > 0) {
+      const ratio = (acRmsRed / dcRed) / (acRmsIr / dcIr);
+      const estimate = 110 - 25 * ratio;
+      spo2 = estimate >= 70 && estimate <= 100 ? round(estimate, 1) : null;
+    }
+  }
+
+  const regularity = intervals.length >= 2 ? 1 - Math.min(1, coefficientOfVariation(intervals) / 0.25) : 0;
+  const amplitudes = peaks.map((peak) => pulseIr[peak]);
+  const consistency = amplitudes.length >= 2 ? 1 - Math.min(1, coefficientOfVariation(amplitudes) / 0.5) : 0;
+  const saturated = ir.filter((sample) => sample >= SENSOR_FULL_SCALE).length / ir.length;
+  const signalQuality = round(regularity * 0.5 + consistency * 0.3 + (1 - saturated) * 0.2, 2);
+
+  return { heartRate, spo2, perfusionIndex, signalQuality, beatCount: peaks.length };
+}
+
+// Analyses one uploaded chunk, stores the result and, when the signal is clean
+// enough, records the derived heart rate and SpO2 as observations, validated like a
+// device reading against the patient's previous accepted values
+export async function derivePpgVitals(
+  chunk: { userId: string; deviceId: string; startedAt: Date; sampleRateHz: number },
+  ir: number[],
+  red: number[] | undefined,
+): Promise<PpgAnalysis> {
+  const result = analyzePpg(ir, red, chunk.sampleRateHz);
+  const analysis = await storage.createPpgAnalysis({
+    userId: chunk.userId,
+    deviceId: chunk.deviceId,
+    startedAt: chunk.startedAt,
+    durationMs: Math.round((ir.length / chunk.sampleRateHz) * 1000),
+    ...result,
+  });
+
+  if (result.signalQuality >= PPG_MIN_SIGNAL_QUALITY) {
+    // Timestamped at the end of the window, like the device's own reading
+    const observedAt = new Date(chunk.startedAt.getTime() + analysis.durationMs);
+    const values: Partial<Record<VitalMetric, number>> = {};
+    if (result.heartRate !== null) values.heart_rate = result.heartRate;
+    if (result.spo2 !== null) values.spo2 = result.spo2;
+    const previous: Partial<Record<VitalMetric, PreviousValue>> = {};
+    for (const observation of await storage.getLatestObservationsByUserId(chunk.userId)) {
+      previous[observation.metric as VitalMetric] = observation;
+    }
+    const validation = validateReading(values, {}, previous, observedAt);
+
+    const observations: InsertObservation[] = (Object.entries(values) as [VitalMetric, number][])
+      .map(([metric, value]) => ({
+        userId: chunk.userId,
+        readingId: null,
+        deviceId: chunk.deviceId,
+        metric,
+        value,
+        unit: vitalMetrics[metric].unit,
+        source: "derived",
+        observedAt,
+        validationStatus: validation.metrics[metric]?.status ?? "accepted",
+        validationReason: validation.metrics[metric]?.reason ?? null,
+      }));
+    if (observations.length > 0) {
+      await storage.createObservations(observations);
+    }
+  }
+
+  return analysis;
+}
+
+// Pairs each analysis with the heart rate and SpO2 the same device reported for that window
+export async function getPpgComparisons(userId: string, filterPeriod?: string): Promise<PpgComparison[]> {
+  const [analyses, observations] = await Promise.all([
+    storage.getPpgAnalysesByUserId(userId, filterPeriod),
+    storage.getObservationsByUserId(userId),
+  ]);
+  const reported = observations.filter((observation) => observation.source === "device");
+
+  return analyses.map((analysis) => {
+    const from = analysis.startedAt.getTime() - COMPARISON_SLACK_MS;
+    const to = analysis.startedAt.getTime() + analysis.durationMs + COMPARISON_SLACK_MS;
+    const reportedValue = (metric: string) =>
+      reported.find((observation) =>
+        observation.metric === metric &&
+        observation.deviceId === analysis.deviceId &&
+        observation.observedAt.getTime() >= from &&
+        observation.observedAt.getTime() <= to
+      )?.value ?? null;
+
+    return { ...analysis, reportedHeartRate: reportedValue("heart_rate"), reportedSpo2: reportedValue("spo2") };
+  });
+}
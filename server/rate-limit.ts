@@ -0,0 +1,36 @@
+import type { Request, Response, NextFunction } from "express";
+
+interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+  // Bucket a request is counted against, e.g. the client IP or the user ID
+  key: (req: Request) => string;
+  message?: string;
+}
+
+// Fixed-window limiter kept in memory; counts reset when the server restarts
+export function rateLimit({ windowMs, max, key, message = "Too many requests, try again later" }: RateLimitOptions) {
+  const windows = new Map<string, { startedAt: number; count: number }>();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const now = Date.now();
+    const bucket = key(req);
+
+    // Drop finished windows so the map does not grow with every client seen
+    windows.forEach((window, windowKey) => {
+      if (now - window.startedAt >= windowMs) windows.delete(windowKey);
+    });
+
+    const window = windows.get(bucket) ?? { startedAt: now, count: 0 };
+    window.count += 1;
+    windows.set(bucket, window);
+
+    if (window.count > max) {
+      const retryAfterSeconds = Math.ceil((window.startedAt + windowMs - now) / 1000);
+      res.setHeader("Retry-After", String(retryAfterSeconds));
+      return res.status(429).json({ message });
+    }
+
+    next();
+  };
+}
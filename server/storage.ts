@@ -1,4 +1,56 @@
-import { type User, type InsertUser, type PatientRecord, type InsertPatientRecord, type EcgData, type InsertEcgData } from "@shared/schema";
+import {
+  type User,
+  type InsertUser,
+  type PatientRecord,
+  type InsertPatientRecord,
+  type EcgData,
+  type InsertEcgData,
+  type Observation,
+  type InsertObservation,
+  type Device,
+  type InsertDevice,
+  type UpdateDevice,
+  type DeviceAssignment,
+  type InsertDeviceAssignment,
+  type DeviceCredential,
+  type InsertDeviceCredential,
+  type DeviceCalibration,
+  type InsertDeviceCalibration,
+  type DeviceTelemetry,
+  type InsertDeviceTelemetry,
+  type DeviceIngestionError,
+  type InsertDeviceIngestionError,
+  type DeviceConfig,
+  type DeviceConfigAck,
+  type InsertDeviceConfigAck,
+  type DeviceSettingsOverride,
+  type PairingCode,
+  type InsertPairingCode,
+  type WaveformChunk,
+  type InsertWaveformChunk,
+  type PpgAnalysis,
+  type InsertPpgAnalysis,
+  type Alarm,
+  type InsertAlarm,
+  type AlarmLimitOverrides,
+  type AlarmLimitsRecord,
+  type News2ScoreRecord,
+  type InsertNews2ScoreRecord,
+  type NotificationPreferencesData,
+  type NotificationPreferencesRecord,
+  type Notification,
+  type InsertNotification,
+  type EscalationPolicyData,
+  type EscalationPolicyRecord,
+  type OnCallScheduleData,
+  type OnCallScheduleRecord,
+  type OnCallOverride,
+  type InsertOnCallOverride,
+  type AlarmEscalation,
+  type InsertAlarmEscalation,
+  type DataWatchdogSettings,
+} from "@shared/schema";
+import type { UnitPreferences } from "@shared/units";
 import { randomUUID } from "crypto";
 import bcrypt from "bcrypt";
 
@@ -7,6 +59,9 @@ export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUserPreferences(id: string, preferences: Partial<UnitPreferences>): Promise<User | undefined>;
+  updateAssignedClinician(id: string, clinicianId: string | null): Promise<User | undefined>;
+  updateDataWatchdogSettings(id: string, settings: DataWatchdogSettings): Promise<User | undefined>;
   getAllUsers(): Promise<User[]>;
 
   // Patient record operations
@@ -19,19 +74,219 @@ export interface IStorage {
   getEcgData(id: string): Promise<EcgData | undefined>;
   getEcgDataByUserId(userId: string, filterPeriod?: string): Promise<EcgData[]>;
   getLatestEcgDataByUserId(userId: string): Promise<EcgData | undefined>;
+  getEcgDataByIdempotencyKey(idempotencyKey: string): Promise<EcgData | undefined>;
+  // Rejects a second reading with the same idempotency key (unique index)
   createEcgData(data: InsertEcgData): Promise<EcgData>;
+  updateEcgData(id: string, updates: Partial<EcgData>): Promise<EcgData | undefined>;
   getAllEcgData(): Promise<EcgData[]>;
+
+  // Observation operations (one measured value per metric)
+  getObservationsByUserId(userId: string, filterPeriod?: string): Promise<Observation[]>;
+  // Most recent accepted observation of each metric for a patient
+  getLatestObservationsByUserId(userId: string): Promise<Observation[]>;
+  createObservations(observations: InsertObservation[]): Promise<Observation[]>;
+  // Values a device measured between from and to (inclusive), oldest first
+  getObservationsByDeviceId(deviceId: string, from: Date, to: Date): Promise<Observation[]>;
+  updateObservation(id: string, updates: Partial<Observation>): Promise<Observation | undefined>;
+
+  // Device registry operations
+  getDevice(id: string): Promise<Device | undefined>;
+  getDeviceByDeviceId(deviceId: string): Promise<Device | undefined>;
+  getAllDevices(): Promise<Device[]>;
+  createDevice(device: InsertDevice): Promise<Device>;
+  updateDevice(id: string, updates: UpdateDevice): Promise<Device | undefined>;
+  deleteDevice(id: string): Promise<boolean>;
+
+  // Device-to-patient binding operations
+  getDeviceAssignments(deviceId: string): Promise<DeviceAssignment[]>;
+  getActiveDeviceAssignment(deviceId: string, at?: Date): Promise<DeviceAssignment | undefined>;
+  createDeviceAssignment(assignment: InsertDeviceAssignment): Promise<DeviceAssignment>;
+  endDeviceAssignment(id: string, effectiveTo: Date): Promise<DeviceAssignment | undefined>;
+
+  // Device credential operations
+  getDeviceCredentials(deviceId: string): Promise<DeviceCredential[]>;
+  getDeviceCredentialByKeyId(keyId: string): Promise<DeviceCredential | undefined>;
+  createDeviceCredential(credential: InsertDeviceCredential): Promise<DeviceCredential>;
+  updateDeviceCredential(id: string, updates: Partial<DeviceCredential>): Promise<DeviceCredential | undefined>;
+
+  // Records a nonce for replay protection; returns false if it was already used
+  registerDeviceNonce(deviceId: string, nonce: string, expiresAt: Date): Promise<boolean>;
+
+  // Device calibration operations
+  // Newest effectiveFrom first
+  getDeviceCalibrations(deviceId: string): Promise<DeviceCalibration[]>;
+  createDeviceCalibration(calibration: InsertDeviceCalibration): Promise<DeviceCalibration>;
+
+  // Device telemetry and health operations
+  getDeviceTelemetry(deviceId: string, since?: Date): Promise<DeviceTelemetry[]>;
+  // Latest sample taken at or before the given time
+  getLatestDeviceTelemetry(deviceId: string, at?: Date): Promise<DeviceTelemetry | undefined>;
+  createDeviceTelemetry(telemetry: InsertDeviceTelemetry): Promise<DeviceTelemetry>;
+  getDeviceIngestionErrors(deviceId: string, since?: Date): Promise<DeviceIngestionError[]>;
+  createDeviceIngestionError(error: InsertDeviceIngestionError): Promise<DeviceIngestionError>;
+
+  // Remote configuration operations
+  getDeviceConfig(scope: string, target: string): Promise<DeviceConfig | undefined>;
+  getAllDeviceConfigs(): Promise<DeviceConfig[]>;
+  // Creates or replaces the overrides for a scope/target, bumping its version
+  saveDeviceConfig(scope: string, target: string, settings: DeviceSettingsOverride): Promise<DeviceConfig>;
+  deleteDeviceConfig(scope: string, target: string): Promise<boolean>;
+  getDeviceConfigAcks(deviceId: string): Promise<DeviceConfigAck[]>;
+  createDeviceConfigAck(ack: InsertDeviceConfigAck): Promise<DeviceConfigAck>;
+
+  // Waveform operations
+  // Chunks of one channel starting at or after since, oldest first
+  getWaveformChunks(userId: string, channel: string, since: Date): Promise<WaveformChunk[]>;
+  getLatestWaveformChunk(userId: string, channel: string): Promise<WaveformChunk | undefined>;
+  getWaveformChunk(deviceId: string, channel: string, startedAt: Date): Promise<WaveformChunk | undefined>;
+  createWaveformChunk(chunk: InsertWaveformChunk): Promise<WaveformChunk>;
+
+  // PPG analysis operations
+  getPpgAnalysesByUserId(userId: string, filterPeriod?: string): Promise<PpgAnalysis[]>;
+  getPpgAnalysis(deviceId: string, startedAt: Date): Promise<PpgAnalysis | undefined>;
+  createPpgAnalysis(analysis: InsertPpgAnalysis): Promise<PpgAnalysis>;
+
+  // Device pairing operations
+  getPairingCode(id: string): Promise<PairingCode | undefined>;
+  getPairingCodesByUserId(userId: string): Promise<PairingCode[]>;
+  // Unused, unexpired code with this value, if any
+  getActivePairingCode(code: string, at?: Date): Promise<PairingCode | undefined>;
+  createPairingCode(pairingCode: InsertPairingCode): Promise<PairingCode>;
+  updatePairingCode(id: string, updates: Partial<PairingCode>): Promise<PairingCode | undefined>;
+  // Marks an active code as used and returns it; undefined if it is unknown, expired or already used
+  claimPairingCode(code: string, at?: Date): Promise<PairingCode | undefined>;
+
+  // Alarm operations
+  getAlarm(id: string): Promise<Alarm | undefined>;
+  // Newest first
+  getAlarmsByUserId(userId: string): Promise<Alarm[]>;
+  // Active and acknowledged alarms of every patient, newest first
+  getOpenAlarms(): Promise<Alarm[]>;
+  createAlarm(alarm: InsertAlarm): Promise<Alarm>;
+  updateAlarm(id: string, updates: Partial<Alarm>): Promise<Alarm | undefined>;
+
+  // Per-patient alarm limit overrides
+  getAlarmLimits(userId: string): Promise<AlarmLimitsRecord | undefined>;
+  // Creates or replaces a patient's overrides
+  saveAlarmLimits(userId: string, limits: AlarmLimitOverrides, updatedBy?: string): Promise<AlarmLimitsRecord>;
+  deleteAlarmLimits(userId: string): Promise<boolean>;
+
+  // NEWS2 score history
+  // Newest first
+  getNews2ScoresByUserId(userId: string, filterPeriod?: string): Promise<News2ScoreRecord[]>;
+  getLatestNews2Score(userId: string): Promise<News2ScoreRecord | undefined>;
+  createNews2Score(score: InsertNews2ScoreRecord): Promise<News2ScoreRecord>;
+
+  // Notification preferences
+  getNotificationPreferences(userId: string): Promise<NotificationPreferencesRecord | undefined>;
+  // Creates or replaces a user's preferences
+  saveNotificationPreferences(userId: string, preferences: NotificationPreferencesData): Promise<NotificationPreferencesRecord>;
+
+  // Notification outbox
+  getNotification(id: string): Promise<Notification | undefined>;
+  // Newest first
+  getNotificationsByUserId(userId: string): Promise<Notification[]>;
+  getAllNotifications(): Promise<Notification[]>;
+  // Pending notifications whose next attempt is due, oldest first
+  getDueNotifications(at: Date): Promise<Notification[]>;
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  updateNotification(id: string, updates: Partial<Notification>): Promise<Notification | undefined>;
+
+  // Escalation policy operations
+  getEscalationPolicies(): Promise<EscalationPolicyRecord[]>;
+  getEscalationPolicy(id: string): Promise<EscalationPolicyRecord | undefined>;
+  createEscalationPolicy(policy: EscalationPolicyData): Promise<EscalationPolicyRecord>;
+  updateEscalationPolicy(id: string, policy: EscalationPolicyData): Promise<EscalationPolicyRecord | undefined>;
+  deleteEscalationPolicy(id: string): Promise<boolean>;
+
+  // On-call schedule operations
+  getOnCallSchedules(): Promise<OnCallScheduleRecord[]>;
+  getOnCallSchedule(id: string): Promise<OnCallScheduleRecord | undefined>;
+  createOnCallSchedule(schedule: OnCallScheduleData): Promise<OnCallScheduleRecord>;
+  updateOnCallSchedule(id: string, schedule: OnCallScheduleData): Promise<OnCallScheduleRecord | undefined>;
+  // Also deletes the schedule's overrides
+  deleteOnCallSchedule(id: string): Promise<boolean>;
+  // Newest first
+  getOnCallOverrides(scheduleId: string): Promise<OnCallOverride[]>;
+  createOnCallOverride(override: InsertOnCallOverride): Promise<OnCallOverride>;
+  deleteOnCallOverride(id: string): Promise<boolean>;
+
+  // Escalation actions recorded against alarms
+  // Oldest first
+  getAlarmEscalations(alarmId: string): Promise<AlarmEscalation[]>;
+  createAlarmEscalation(escalation: InsertAlarmEscalation): Promise<AlarmEscalation>;
+}
+
+// Whether a date falls in the current day, month or year (the records page filters)
+function isInPeriod(date: Date, filterPeriod: string): boolean {
+  const now = new Date();
+  switch (filterPeriod) {
+    case "day":
+      return date.toDateString() === now.toDateString();
+    case "month":
+      return date.getMonth() === now.getMonth() && date.getFullYear() === now.getFullYear();
+    case "year":
+      return date.getFullYear() === now.getFullYear();
+    default:
+      return true;
+  }
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
   private patientRecords: Map<string, PatientRecord>;
   private ecgData: Map<string, EcgData>;
+  private ecgDataByIdempotencyKey: Map<string, string>;
+  private observations: Map<string, Observation>;
+  private devices: Map<string, Device>;
+  private deviceAssignments: Map<string, DeviceAssignment>;
+  private deviceCredentials: Map<string, DeviceCredential>;
+  private deviceCalibrations: Map<string, DeviceCalibration>;
+  private deviceNonces: Map<string, Date>;
+  private deviceTelemetry: Map<string, DeviceTelemetry>;
+  private deviceIngestionErrors: Map<string, DeviceIngestionError>;
+  private deviceConfigs: Map<string, DeviceConfig>;
+  private deviceConfigAcks: Map<string, DeviceConfigAck>;
+  private pairingCodes: Map<string, PairingCode>;
+  private waveformChunks: Map<string, WaveformChunk>;
+  private ppgAnalyses: Map<string, PpgAnalysis>;
+  private alarms: Map<string, Alarm>;
+  private alarmLimits: Map<string, AlarmLimitsRecord>;
+  private news2Scores: Map<string, News2ScoreRecord>;
+  private notificationPreferences: Map<string, NotificationPreferencesRecord>;
+  private notifications: Map<string, Notification>;
+  private escalationPolicies: Map<string, EscalationPolicyRecord>;
+  private onCallSchedules: Map<string, OnCallScheduleRecord>;
+  private onCallOverrides: Map<string, OnCallOverride>;
+  private alarmEscalations: Map<string, AlarmEscalation>;
 
   constructor() {
     this.users = new Map();
     this.patientRecords = new Map();
     this.ecgData = new Map();
+    this.ecgDataByIdempotencyKey = new Map();
+    this.observations = new Map();
+    this.devices = new Map();
+    this.deviceAssignments = new Map();
+    this.deviceCredentials = new Map();
+    this.deviceCalibrations = new Map();
+    this.deviceNonces = new Map();
+    this.deviceTelemetry = new Map();
+    this.deviceIngestionErrors = new Map();
+    this.deviceConfigs = new Map();
+    this.deviceConfigAcks = new Map();
+    this.pairingCodes = new Map();
+    this.waveformChunks = new Map();
+    this.ppgAnalyses = new Map();
+    this.alarms = new Map();
+    this.alarmLimits = new Map();
+    this.news2Scores = new Map();
+    this.notificationPreferences = new Map();
+    this.notifications = new Map();
+    this.escalationPolicies = new Map();
+    this.onCallSchedules = new Map();
+    this.onCallOverrides = new Map();
+    this.alarmEscalations = new Map();
 
     // Seed with sample data for testing
     this.seedData();
@@ -50,6 +305,12 @@ export class MemStorage implements IStorage {
       customBloodGroup: null,
       gender: "Male",
       role: "admin",
+      temperatureUnit: "celsius",
+      pressureUnit: "mmHg",
+      assignedClinicianId: null,
+      dataGapAlarmEnabled: true,
+      expectedIntervalSeconds: null,
+      dataWatchdogSavedAt: null,
       createdAt: new Date(),
     };
     this.users.set(adminId, admin);
@@ -69,12 +330,50 @@ export class MemStorage implements IStorage {
     const user: User = {
       ...insertUser,
       id,
+      temperatureUnit: "celsius",
+      pressureUnit: "mmHg",
+      assignedClinicianId: null,
+      dataGapAlarmEnabled: true,
+      expectedIntervalSeconds: null,
+      dataWatchdogSavedAt: null,
       createdAt: new Date(),
     };
     this.users.set(id, user);
     return user;
   }
 
+  async updateUserPreferences(id: string, preferences: Partial<UnitPreferences>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const updated: User = { ...user, ...preferences, id };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async updateAssignedClinician(id: string, clinicianId: string | null): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const updated: User = { ...user, assignedClinicianId: clinicianId };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async updateDataWatchdogSettings(id: string, settings: DataWatchdogSettings): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const updated: User = {
+      ...user,
+      dataGapAlarmEnabled: settings.enabled,
+      expectedIntervalSeconds: settings.expectedIntervalSeconds,
+      dataWatchdogSavedAt: new Date(),
+    };
+    this.users.set(id, updated);
+    return updated;
+  }
+
   async getAllUsers(): Promise<User[]> {
     return Array.from(this.users.values());
   }
@@ -118,25 +417,7 @@ export class MemStorage implements IStorage {
 
     if (!filterPeriod) return allData;
 
-    const now = new Date();
-    const filtered = allData.filter((data) => {
-      const dataDate = new Date(data.timestamp);
-      switch (filterPeriod) {
-        case "day":
-          return dataDate.toDateString() === now.toDateString();
-        case "month":
-          return (
-            dataDate.getMonth() === now.getMonth() &&
-            dataDate.getFullYear() === now.getFullYear()
-          );
-        case "year":
-          return dataDate.getFullYear() === now.getFullYear();
-        default:
-          return true;
-      }
-    });
-
-    return filtered;
+    return allData.filter((data) => isInPeriod(new Date(data.timestamp), filterPeriod));
   }
 
   async getLatestEcgDataByUserId(userId: string): Promise<EcgData | undefined> {
@@ -147,21 +428,855 @@ export class MemStorage implements IStorage {
     return allData[0];
   }
 
+  async getEcgDataByIdempotencyKey(idempotencyKey: string): Promise<EcgData | undefined> {
+    const id = this.ecgDataByIdempotencyKey.get(idempotencyKey);
+    return id ? this.ecgData.get(id) : undefined;
+  }
+
   async createEcgData(insertData: InsertEcgData): Promise<EcgData> {
+    if (insertData.idempotencyKey && this.ecgDataByIdempotencyKey.has(insertData.idempotencyKey)) {
+      throw new Error("Duplicate idempotency key");
+    }
+
     const id = randomUUID();
     const data: EcgData = {
       ...insertData,
       id,
-      timestamp: new Date(),
+      recordId: insertData.recordId ?? null,
+      deviceId: insertData.deviceId ?? null,
+      idempotencyKey: insertData.idempotencyKey ?? null,
+      timestamp: insertData.timestamp || new Date(),
+      heartRate: insertData.heartRate ?? null,
+      spo2: insertData.spo2 ?? null,
+      systolicBP: insertData.systolicBP ?? null,
+      diastolicBP: insertData.diastolicBP ?? null,
+      temperature: insertData.temperature ?? null,
+      respiratoryRate: insertData.respiratoryRate ?? null,
+      supplementalOxygen: insertData.supplementalOxygen ?? null,
+      validationStatus: insertData.validationStatus ?? "accepted",
+      validationReason: insertData.validationReason ?? null,
+      fingerDetected: insertData.fingerDetected ?? null,
+      bodyContact: insertData.bodyContact ?? null,
+      sampleCount: insertData.sampleCount ?? null,
+      plethWaveform: insertData.plethWaveform ?? null,
+      spo2Waveform: insertData.spo2Waveform ?? null,
+      respWaveform: insertData.respWaveform ?? null,
+      cvpArtWaveform: insertData.cvpArtWaveform ?? null,
+      ecgOxpWaveform: insertData.ecgOxpWaveform ?? null,
+      etco2Waveform: insertData.etco2Waveform ?? null,
     };
     this.ecgData.set(id, data);
+    if (data.idempotencyKey) {
+      this.ecgDataByIdempotencyKey.set(data.idempotencyKey, id);
+    }
     return data;
   }
 
+  async updateEcgData(id: string, updates: Partial<EcgData>): Promise<EcgData | undefined> {
+    const data = this.ecgData.get(id);
+    if (!data) return undefined;
+
+    const updated: EcgData = { ...data, ...updates, id };
+    this.ecgData.set(id, updated);
+    return updated;
+  }
+
   async getAllEcgData(): Promise<EcgData[]> {
     return Array.from(this.ecgData.values())
       .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
   }
+
+  // Observation operations
+  async getObservationsByUserId(userId: string, filterPeriod?: string): Promise<Observation[]> {
+    const allObservations = Array.from(this.observations.values())
+      .filter((observation) => observation.userId === userId)
+      .sort((a, b) => new Date(b.observedAt).getTime() - new Date(a.observedAt).getTime());
+
+    if (!filterPeriod) return allObservations;
+
+    return allObservations.filter((observation) => isInPeriod(new Date(observation.observedAt), filterPeriod));
+  }
+
+  async getLatestObservationsByUserId(userId: string): Promise<Observation[]> {
+    const latest = new Map<string, Observation>();
+    this.observations.forEach((observation) => {
+      if (observation.userId !== userId || observation.validationStatus !== "accepted") return;
+      const current = latest.get(observation.metric);
+      if (!current || new Date(observation.observedAt).getTime() > new Date(current.observedAt).getTime()) {
+        latest.set(observation.metric, observation);
+      }
+    });
+    return Array.from(latest.values());
+  }
+
+  async createObservations(insertObservations: InsertObservation[]): Promise<Observation[]> {
+    return insertObservations.map((insertObservation) => {
+      const id = randomUUID();
+      const observation: Observation = {
+        ...insertObservation,
+        id,
+        readingId: insertObservation.readingId ?? null,
+        deviceId: insertObservation.deviceId ?? null,
+        validationStatus: insertObservation.validationStatus ?? "accepted",
+        validationReason: insertObservation.validationReason ?? null,
+        rawValue: insertObservation.rawValue ?? null,
+        calibrationId: insertObservation.calibrationId ?? null,
+        createdAt: new Date(),
+      };
+      this.observations.set(id, observation);
+      return observation;
+    });
+  }
+
+  async getObservationsByDeviceId(deviceId: string, from: Date, to: Date): Promise<Observation[]> {
+    return Array.from(this.observations.values())
+      .filter((observation) =>
+        observation.deviceId === deviceId &&
+        observation.observedAt.getTime() >= from.getTime() &&
+        observation.observedAt.getTime() <= to.getTime()
+      )
+      .sort((a, b) => a.observedAt.getTime() - b.observedAt.getTime());
+  }
+
+  async updateObservation(id: string, updates: Partial<Observation>): Promise<Observation | undefined> {
+    const observation = this.observations.get(id);
+    if (!observation) return undefined;
+
+    const updated: Observation = { ...observation, ...updates, id };
+    this.observations.set(id, updated);
+    return updated;
+  }
+
+  // Device registry operations
+  async getDevice(id: string): Promise<Device | undefined> {
+    return this.devices.get(id);
+  }
+
+  async getDeviceByDeviceId(deviceId: string): Promise<Device | undefined> {
+    return Array.from(this.devices.values()).find((device) => device.deviceId === deviceId);
+  }
+
+  async getAllDevices(): Promise<Device[]> {
+    return Array.from(this.devices.values())
+      .sort((a, b) => a.deviceId.localeCompare(b.deviceId));
+  }
+
+  async createDevice(insertDevice: InsertDevice): Promise<Device> {
+    const id = randomUUID();
+    const device: Device = {
+      ...insertDevice,
+      id,
+      model: insertDevice.model ?? null,
+      groupName: insertDevice.groupName ?? null,
+      createdAt: new Date(),
+    };
+    this.devices.set(id, device);
+    return device;
+  }
+
+  async updateDevice(id: string, updates: UpdateDevice): Promise<Device | undefined> {
+    const device = this.devices.get(id);
+    if (!device) return undefined;
+
+    const updated: Device = { ...device, ...updates, id };
+    this.devices.set(id, updated);
+    return updated;
+  }
+
+  async deleteDevice(id: string): Promise<boolean> {
+    Array.from(this.deviceAssignments.values())
+      .filter((assignment) => assignment.deviceId === id)
+      .forEach((assignment) => this.deviceAssignments.delete(assignment.id));
+    Array.from(this.deviceCredentials.values())
+      .filter((credential) => credential.deviceId === id)
+      .forEach((credential) => this.deviceCredentials.delete(credential.id));
+    Array.from(this.deviceCalibrations.values())
+      .filter((calibration) => calibration.deviceId === id)
+      .forEach((calibration) => this.deviceCalibrations.delete(calibration.id));
+    Array.from(this.deviceTelemetry.values())
+      .filter((sample) => sample.deviceId === id)
+      .forEach((sample) => this.deviceTelemetry.delete(sample.id));
+    Array.from(this.deviceIngestionErrors.values())
+      .filter((error) => error.deviceId === id)
+      .forEach((error) => this.deviceIngestionErrors.delete(error.id));
+    Array.from(this.deviceConfigAcks.values())
+      .filter((ack) => ack.deviceId === id)
+      .forEach((ack) => this.deviceConfigAcks.delete(ack.id));
+    this.deviceConfigs.delete(`device:${id}`);
+    return this.devices.delete(id);
+  }
+
+  // Device-to-patient binding operations
+  async getDeviceAssignments(deviceId: string): Promise<DeviceAssignment[]> {
+    return Array.from(this.deviceAssignments.values())
+      .filter((assignment) => assignment.deviceId === deviceId)
+      .sort((a, b) => new Date(b.effectiveFrom).getTime() - new Date(a.effectiveFrom).getTime());
+  }
+
+  async getActiveDeviceAssignment(deviceId: string, at: Date = new Date()): Promise<DeviceAssignment | undefined> {
+    const time = at.getTime();
+    return Array.from(this.deviceAssignments.values()).find((assignment) =>
+      assignment.deviceId === deviceId &&
+      new Date(assignment.effectiveFrom).getTime() <= time &&
+      (!assignment.effectiveTo || new Date(assignment.effectiveTo).getTime() > time)
+    );
+  }
+
+  async createDeviceAssignment(insertAssignment: InsertDeviceAssignment): Promise<DeviceAssignment> {
+    const id = randomUUID();
+    const assignment: DeviceAssignment = {
+      ...insertAssignment,
+      id,
+      effectiveFrom: insertAssignment.effectiveFrom || new Date(),
+      effectiveTo: insertAssignment.effectiveTo ?? null,
+      createdAt: new Date(),
+    };
+    this.deviceAssignments.set(id, assignment);
+    return assignment;
+  }
+
+  async endDeviceAssignment(id: string, effectiveTo: Date): Promise<DeviceAssignment | undefined> {
+    const assignment = this.deviceAssignments.get(id);
+    if (!assignment) return undefined;
+
+    const updated: DeviceAssignment = { ...assignment, effectiveTo };
+    this.deviceAssignments.set(id, updated);
+    return updated;
+  }
+
+  // Device credential operations
+  async getDeviceCredentials(deviceId: string): Promise<DeviceCredential[]> {
+    return Array.from(this.deviceCredentials.values())
+      .filter((credential) => credential.deviceId === deviceId)
+      .sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime());
+  }
+
+  async getDeviceCredentialByKeyId(keyId: string): Promise<DeviceCredential | undefined> {
+    return Array.from(this.deviceCredentials.values()).find((credential) => credential.keyId === keyId);
+  }
+
+  async createDeviceCredential(insertCredential: InsertDeviceCredential): Promise<DeviceCredential> {
+    const id = randomUUID();
+    const credential: DeviceCredential = {
+      id,
+      deviceId: insertCredential.deviceId,
+      keyId: insertCredential.keyId,
+      secret: insertCredential.secret,
+      status: insertCredential.status || "active",
+      createdAt: new Date(),
+      expiresAt: insertCredential.expiresAt ?? null,
+      revokedAt: insertCredential.revokedAt ?? null,
+      lastUsedAt: insertCredential.lastUsedAt ?? null,
+    };
+    this.deviceCredentials.set(id, credential);
+    return credential;
+  }
+
+  async updateDeviceCredential(id: string, updates: Partial<DeviceCredential>): Promise<DeviceCredential | undefined> {
+    const credential = this.deviceCredentials.get(id);
+    if (!credential) return undefined;
+
+    const updated: DeviceCredential = { ...credential, ...updates, id };
+    this.deviceCredentials.set(id, updated);
+    return updated;
+  }
+
+  async registerDeviceNonce(deviceId: string, nonce: string, expiresAt: Date): Promise<boolean> {
+    const now = Date.now();
+    this.deviceNonces.forEach((expiry, key) => {
+      if (expiry.getTime() <= now) this.deviceNonces.delete(key);
+    });
+
+    const key = `${deviceId}:${nonce}`;
+    if (this.deviceNonces.has(key)) return false;
+
+    this.deviceNonces.set(key, expiresAt);
+    return true;
+  }
+
+  // Device calibration operations
+  async getDeviceCalibrations(deviceId: string): Promise<DeviceCalibration[]> {
+    return Array.from(this.deviceCalibrations.values())
+      .filter((calibration) => calibration.deviceId === deviceId)
+      .sort((a, b) =>
+        b.effectiveFrom.getTime() - a.effectiveFrom.getTime() ||
+        new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime()
+      );
+  }
+
+  async createDeviceCalibration(insertCalibration: InsertDeviceCalibration): Promise<DeviceCalibration> {
+    const id = randomUUID();
+    const calibration: DeviceCalibration = {
+      id,
+      deviceId: insertCalibration.deviceId,
+      metric: insertCalibration.metric,
+      offset: insertCalibration.offset ?? 0,
+      gain: insertCalibration.gain ?? 1,
+      effectiveFrom: insertCalibration.effectiveFrom,
+      notes: insertCalibration.notes ?? null,
+      createdBy: insertCalibration.createdBy ?? null,
+      createdAt: new Date(),
+    };
+    this.deviceCalibrations.set(id, calibration);
+    return calibration;
+  }
+
+  // Device telemetry and health operations
+  async getDeviceTelemetry(deviceId: string, since?: Date): Promise<DeviceTelemetry[]> {
+    return Array.from(this.deviceTelemetry.values())
+      .filter((sample) => sample.deviceId === deviceId && (!since || sample.sampledAt.getTime() >= since.getTime()))
+      .sort((a, b) => a.sampledAt.getTime() - b.sampledAt.getTime());
+  }
+
+  async getLatestDeviceTelemetry(deviceId: string, at: Date = new Date()): Promise<DeviceTelemetry | undefined> {
+    let latest: DeviceTelemetry | undefined;
+    this.deviceTelemetry.forEach((sample) => {
+      if (sample.deviceId !== deviceId || sample.sampledAt.getTime() > at.getTime()) return;
+      if (!latest || sample.sampledAt.getTime() > latest.sampledAt.getTime()) latest = sample;
+    });
+    return latest;
+  }
+
+  async createDeviceTelemetry(insertTelemetry: InsertDeviceTelemetry): Promise<DeviceTelemetry> {
+    const id = randomUUID();
+    const telemetry: DeviceTelemetry = {
+      id,
+      deviceId: insertTelemetry.deviceId,
+      sampledAt: insertTelemetry.sampledAt,
+      receivedAt: insertTelemetry.receivedAt || new Date(),
+      uptimeMs: insertTelemetry.uptimeMs ?? null,
+      wifiRssi: insertTelemetry.wifiRssi ?? null,
+      freeHeap: insertTelemetry.freeHeap ?? null,
+      sensorType: insertTelemetry.sensorType ?? null,
+      dataQuality: insertTelemetry.dataQuality ?? null,
+      sampleCount: insertTelemetry.sampleCount ?? null,
+      rebooted: insertTelemetry.rebooted ?? false,
+    };
+    this.deviceTelemetry.set(id, telemetry);
+    return telemetry;
+  }
+
+  async getDeviceIngestionErrors(deviceId: string, since?: Date): Promise<DeviceIngestionError[]> {
+    return Array.from(this.deviceIngestionErrors.values())
+      .filter((error) => error.deviceId === deviceId && (!since || error.occurredAt.getTime() >= since.getTime()))
+      .sort((a, b) => b.occurredAt.getTime() - a.occurredAt.getTime());
+  }
+
+  async createDeviceIngestionError(insertError: InsertDeviceIngestionError): Promise<DeviceIngestionError> {
+    const id = randomUUID();
+    const error: DeviceIngestionError = {
+      id,
+      deviceId: insertError.deviceId,
+      occurredAt: insertError.occurredAt || new Date(),
+      status: insertError.status,
+      message: insertError.message,
+    };
+    this.deviceIngestionErrors.set(id, error);
+    return error;
+  }
+
+  // Remote configuration operations (keyed by "scope:target")
+  async getDeviceConfig(scope: string, target: string): Promise<DeviceConfig | undefined> {
+    return this.deviceConfigs.get(`${scope}:${target}`);
+  }
+
+  async getAllDeviceConfigs(): Promise<DeviceConfig[]> {
+    return Array.from(this.deviceConfigs.values())
+      .sort((a, b) => a.scope.localeCompare(b.scope) || a.target.localeCompare(b.target));
+  }
+
+  async saveDeviceConfig(scope: string, target: string, settings: DeviceSettingsOverride): Promise<DeviceConfig> {
+    const key = `${scope}:${target}`;
+    const existing = this.deviceConfigs.get(key);
+    const config: DeviceConfig = {
+      id: existing?.id || randomUUID(),
+      scope,
+      target,
+      settings: JSON.stringify(settings),
+      version: (existing?.version || 0) + 1,
+      updatedAt: new Date(),
+    };
+    this.deviceConfigs.set(key, config);
+    return config;
+  }
+
+  async deleteDeviceConfig(scope: string, target: string): Promise<boolean> {
+    return this.deviceConfigs.delete(`${scope}:${target}`);
+  }
+
+  async getDeviceConfigAcks(deviceId: string): Promise<DeviceConfigAck[]> {
+    return Array.from(this.deviceConfigAcks.values())
+      .filter((ack) => ack.deviceId === deviceId)
+      .sort((a, b) => new Date(b.ackedAt!).getTime() - new Date(a.ackedAt!).getTime());
+  }
+
+  async createDeviceConfigAck(insertAck: InsertDeviceConfigAck): Promise<DeviceConfigAck> {
+    const id = randomUUID();
+    const ack: DeviceConfigAck = {
+      id,
+      deviceId: insertAck.deviceId,
+      etag: insertAck.etag,
+      status: insertAck.status,
+      message: insertAck.message ?? null,
+      ackedAt: new Date(),
+    };
+    this.deviceConfigAcks.set(id, ack);
+    return ack;
+  }
+
+  // Waveform operations
+  async getWaveformChunks(userId: string, channel: string, since: Date): Promise<WaveformChunk[]> {
+    return Array.from(this.waveformChunks.values())
+      .filter((chunk) =>
+        chunk.userId === userId &&
+        chunk.channel === channel &&
+        chunk.startedAt.getTime() >= since.getTime()
+      )
+      .sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime());
+  }
+
+  async getLatestWaveformChunk(userId: string, channel: string): Promise<WaveformChunk | undefined> {
+    let latest: WaveformChunk | undefined;
+    this.waveformChunks.forEach((chunk) => {
+      if (chunk.userId !== userId || chunk.channel !== channel) return;
+      if (!latest || chunk.startedAt.getTime() > latest.startedAt.getTime()) {
+        latest = chunk;
+      }
+    });
+    return latest;
+  }
+
+  async getWaveformChunk(deviceId: string, channel: string, startedAt: Date): Promise<WaveformChunk | undefined> {
+    return Array.from(this.waveformChunks.values()).find((chunk) =>
+      chunk.deviceId === deviceId &&
+      chunk.channel === channel &&
+      chunk.startedAt.getTime() === startedAt.getTime()
+    );
+  }
+
+  async createWaveformChunk(insertChunk: InsertWaveformChunk): Promise<WaveformChunk> {
+    const id = randomUUID();
+    const chunk: WaveformChunk = {
+      id,
+      userId: insertChunk.userId,
+      deviceId: insertChunk.deviceId,
+      channel: insertChunk.channel,
+      sampleRateHz: insertChunk.sampleRateHz,
+      startedAt: insertChunk.startedAt,
+      sampleCount: insertChunk.sampleCount,
+      samples: insertChunk.samples,
+      createdAt: new Date(),
+    };
+    this.waveformChunks.set(id, chunk);
+    return chunk;
+  }
+
+  // PPG analysis operations
+  async getPpgAnalysesByUserId(userId: string, filterPeriod?: string): Promise<PpgAnalysis[]> {
+    const analyses = Array.from(this.ppgAnalyses.values())
+      .filter((analysis) => analysis.userId === userId)
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+
+    if (!filterPeriod) return analyses;
+
+    return analyses.filter((analysis) => isInPeriod(analysis.startedAt, filterPeriod));
+  }
+
+  async getPpgAnalysis(deviceId: string, startedAt: Date): Promise<PpgAnalysis | undefined> {
+    return Array.from(this.ppgAnalyses.values()).find((analysis) =>
+      analysis.deviceId === deviceId && analysis.startedAt.getTime() === startedAt.getTime()
+    );
+  }
+
+  async createPpgAnalysis(insertAnalysis: InsertPpgAnalysis): Promise<PpgAnalysis> {
+    const id = randomUUID();
+    const analysis: PpgAnalysis = {
+      id,
+      userId: insertAnalysis.userId,
+      deviceId: insertAnalysis.deviceId,
+      startedAt: insertAnalysis.startedAt,
+      durationMs: insertAnalysis.durationMs,
+      heartRate: insertAnalysis.heartRate ?? null,
+      spo2: insertAnalysis.spo2 ?? null,
+      perfusionIndex: insertAnalysis.perfusionIndex ?? null,
+      signalQuality: insertAnalysis.signalQuality,
+      beatCount: insertAnalysis.beatCount,
+      createdAt: new Date(),
+    };
+    this.ppgAnalyses.set(id, analysis);
+    return analysis;
+  }
+
+  // Device pairing operations
+  async getPairingCode(id: string): Promise<PairingCode | undefined> {
+    return this.pairingCodes.get(id);
+  }
+
+  async getPairingCodesByUserId(userId: string): Promise<PairingCode[]> {
+    return Array.from(this.pairingCodes.values())
+      .filter((pairingCode) => pairingCode.userId === userId)
+      .sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime());
+  }
+
+  async getActivePairingCode(code: string, at: Date = new Date()): Promise<PairingCode | undefined> {
+    return Array.from(this.pairingCodes.values()).find((pairingCode) =>
+      pairingCode.code === code &&
+      !pairingCode.usedAt &&
+      pairingCode.expiresAt.getTime() > at.getTime()
+    );
+  }
+
+  async createPairingCode(insertPairingCode: InsertPairingCode): Promise<PairingCode> {
+    const id = randomUUID();
+    const pairingCode: PairingCode = {
+      id,
+      code: insertPairingCode.code,
+      userId: insertPairingCode.userId,
+      createdAt: new Date(),
+      expiresAt: insertPairingCode.expiresAt,
+      usedAt: insertPairingCode.usedAt ?? null,
+      deviceId: insertPairingCode.deviceId ?? null,
+    };
+    this.pairingCodes.set(id, pairingCode);
+    return pairingCode;
+  }
+
+  async updatePairingCode(id: string, updates: Partial<PairingCode>): Promise<PairingCode | undefined> {
+    const pairingCode = this.pairingCodes.get(id);
+    if (!pairingCode) return undefined;
+
+    const updated: PairingCode = { ...pairingCode, ...updates, id };
+    this.pairingCodes.set(id, updated);
+    return updated;
+  }
+
+  async claimPairingCode(code: string, at: Date = new Date()): Promise<PairingCode | undefined> {
+    const pairingCode = await this.getActivePairingCode(code, at);
+    if (!pairingCode) return undefined;
+
+    const claimed: PairingCode = { ...pairingCode, usedAt: at };
+    this.pairingCodes.set(pairingCode.id, claimed);
+    return claimed;
+  }
+
+  // Alarm operations
+  async getAlarm(id: string): Promise<Alarm | undefined> {
+    return this.alarms.get(id);
+  }
+
+  async getAlarmsByUserId(userId: string): Promise<Alarm[]> {
+    return Array.from(this.alarms.values())
+      .filter((alarm) => alarm.userId === userId)
+      .sort((a, b) => b.triggeredAt.getTime() - a.triggeredAt.getTime());
+  }
+
+  async getOpenAlarms(): Promise<Alarm[]> {
+    return Array.from(this.alarms.values())
+      .filter((alarm) => alarm.status !== "resolved")
+      .sort((a, b) => b.triggeredAt.getTime() - a.triggeredAt.getTime());
+  }
+
+  async createAlarm(insertAlarm: InsertAlarm): Promise<Alarm> {
+    const id = randomUUID();
+    const alarm: Alarm = {
+      id,
+      userId: insertAlarm.userId,
+      metric: insertAlarm.metric,
+      condition: insertAlarm.condition,
+      priority: insertAlarm.priority,
+      threshold: insertAlarm.threshold,
+      triggerValue: insertAlarm.triggerValue,
+      lastValue: insertAlarm.lastValue,
+      unit: insertAlarm.unit,
+      status: insertAlarm.status || "active",
+      onsetAt: insertAlarm.onsetAt,
+      triggeredAt: insertAlarm.triggeredAt,
+      acknowledgedAt: insertAlarm.acknowledgedAt ?? null,
+      acknowledgedBy: insertAlarm.acknowledgedBy ?? null,
+      resolvedAt: insertAlarm.resolvedAt ?? null,
+      escalationPolicyId: insertAlarm.escalationPolicyId ?? null,
+      escalationLevel: insertAlarm.escalationLevel ?? 0,
+    };
+    this.alarms.set(id, alarm);
+    return alarm;
+  }
+
+  async updateAlarm(id: string, updates: Partial<Alarm>): Promise<Alarm | undefined> {
+    const alarm = this.alarms.get(id);
+    if (!alarm) return undefined;
+
+    const updated: Alarm = { ...alarm, ...updates, id };
+    this.alarms.set(id, updated);
+    return updated;
+  }
+
+  // Alarm limit overrides (keyed by patient)
+  async getAlarmLimits(userId: string): Promise<AlarmLimitsRecord | undefined> {
+    return this.alarmLimits.get(userId);
+  }
+
+  async saveAlarmLimits(userId: string, limits: AlarmLimitOverrides, updatedBy?: string): Promise<AlarmLimitsRecord> {
+    const existing = this.alarmLimits.get(userId);
+    const record: AlarmLimitsRecord = {
+      id: existing?.id || randomUUID(),
+      userId,
+      limits: JSON.stringify(limits),
+      updatedBy: updatedBy ?? null,
+      updatedAt: new Date(),
+    };
+    this.alarmLimits.set(userId, record);
+    return record;
+  }
+
+  async deleteAlarmLimits(userId: string): Promise<boolean> {
+    return this.alarmLimits.delete(userId);
+  }
+
+  // NEWS2 score history
+  async getNews2ScoresByUserId(userId: string, filterPeriod?: string): Promise<News2ScoreRecord[]> {
+    const scores = Array.from(this.news2Scores.values())
+      .filter((score) => score.userId === userId)
+      .sort((a, b) => b.calculatedAt.getTime() - a.calculatedAt.getTime());
+
+    if (!filterPeriod) return scores;
+
+    return scores.filter((score) => isInPeriod(score.calculatedAt, filterPeriod));
+  }
+
+  async getLatestNews2Score(userId: string): Promise<News2ScoreRecord | undefined> {
+    let latest: News2ScoreRecord | undefined;
+    this.news2Scores.forEach((score) => {
+      if (score.userId !== userId) return;
+      if (!latest || score.calculatedAt.getTime() > latest.calculatedAt.getTime()) latest = score;
+    });
+    return latest;
+  }
+
+  async createNews2Score(insertScore: InsertNews2ScoreRecord): Promise<News2ScoreRecord> {
+    const id = randomUUID();
+    const score: News2ScoreRecord = {
+      id,
+      userId: insertScore.userId,
+      score: insertScore.score,
+      band: insertScore.band,
+      parameters: insertScore.parameters,
+      missing: insertScore.missing,
+      supplementalOxygen: insertScore.supplementalOxygen ?? null,
+      calculatedAt: insertScore.calculatedAt,
+    };
+    this.news2Scores.set(id, score);
+    return score;
+  }
+
+  // Notification preferences (keyed by user)
+  async getNotificationPreferences(userId: string): Promise<NotificationPreferencesRecord | undefined> {
+    return this.notificationPreferences.get(userId);
+  }
+
+  async saveNotificationPreferences(userId: string, preferences: NotificationPreferencesData): Promise<NotificationPreferencesRecord> {
+    const existing = this.notificationPreferences.get(userId);
+    const record: NotificationPreferencesRecord = {
+      id: existing?.id || randomUUID(),
+      userId,
+      enabled: preferences.enabled,
+      minPriority: preferences.minPriority,
+      emailEnabled: preferences.emailEnabled,
+      email: preferences.email,
+      smsEnabled: preferences.smsEnabled,
+      phone: preferences.phone,
+      webhookEnabled: preferences.webhookEnabled,
+      webhookUrl: preferences.webhookUrl,
+      updatedAt: new Date(),
+    };
+    this.notificationPreferences.set(userId, record);
+    return record;
+  }
+
+  // Notification outbox
+  async getNotification(id: string): Promise<Notification | undefined> {
+    return this.notifications.get(id);
+  }
+
+  async getNotificationsByUserId(userId: string): Promise<Notification[]> {
+    return (await this.getAllNotifications()).filter((notification) => notification.userId === userId);
+  }
+
+  async getAllNotifications(): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
+  }
+
+  async getDueNotifications(at: Date): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter((notification) => notification.status === "pending" && notification.nextAttemptAt.getTime() <= at.getTime())
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime());
+  }
+
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const id = randomUUID();
+    const notification: Notification = {
+      id,
+      userId: insertNotification.userId,
+      alarmId: insertNotification.alarmId ?? null,
+      channel: insertNotification.channel,
+      destination: insertNotification.destination,
+      subject: insertNotification.subject,
+      message: insertNotification.message,
+      payload: insertNotification.payload,
+      status: insertNotification.status || "pending",
+      attempts: insertNotification.attempts ?? 0,
+      nextAttemptAt: insertNotification.nextAttemptAt,
+      lastError: insertNotification.lastError ?? null,
+      createdAt: new Date(),
+      sentAt: insertNotification.sentAt ?? null,
+    };
+    this.notifications.set(id, notification);
+    return notification;
+  }
+
+  async updateNotification(id: string, updates: Partial<Notification>): Promise<Notification | undefined> {
+    const notification = this.notifications.get(id);
+    if (!notification) return undefined;
+
+    const updated: Notification = { ...notification, ...updates, id };
+    this.notifications.set(id, updated);
+    return updated;
+  }
+
+  // Escalation policies
+  async getEscalationPolicies(): Promise<EscalationPolicyRecord[]> {
+    return Array.from(this.escalationPolicies.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getEscalationPolicy(id: string): Promise<EscalationPolicyRecord | undefined> {
+    return this.escalationPolicies.get(id);
+  }
+
+  async createEscalationPolicy(policy: EscalationPolicyData): Promise<EscalationPolicyRecord> {
+    const id = randomUUID();
+    const record: EscalationPolicyRecord = {
+      id,
+      name: policy.name,
+      enabled: policy.enabled,
+      priorities: JSON.stringify(policy.priorities),
+      steps: JSON.stringify(policy.steps),
+      updatedAt: new Date(),
+    };
+    this.escalationPolicies.set(id, record);
+    return record;
+  }
+
+  async updateEscalationPolicy(id: string, policy: EscalationPolicyData): Promise<EscalationPolicyRecord | undefined> {
+    if (!this.escalationPolicies.has(id)) return undefined;
+
+    const record: EscalationPolicyRecord = {
+      id,
+      name: policy.name,
+      enabled: policy.enabled,
+      priorities: JSON.stringify(policy.priorities),
+      steps: JSON.stringify(policy.steps),
+      updatedAt: new Date(),
+    };
+    this.escalationPolicies.set(id, record);
+    return record;
+  }
+
+  async deleteEscalationPolicy(id: string): Promise<boolean> {
+    return this.escalationPolicies.delete(id);
+  }
+
+  // On-call schedules and overrides
+  async getOnCallSchedules(): Promise<OnCallScheduleRecord[]> {
+    return Array.from(this.onCallSchedules.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getOnCallSchedule(id: string): Promise<OnCallScheduleRecord | undefined> {
+    return this.onCallSchedules.get(id);
+  }
+
+  async createOnCallSchedule(schedule: OnCallScheduleData): Promise<OnCallScheduleRecord> {
+    const id = randomUUID();
+    const record: OnCallScheduleRecord = {
+      id,
+      name: schedule.name,
+      rotationStart: schedule.rotationStart,
+      members: JSON.stringify(schedule.members),
+      updatedAt: new Date(),
+    };
+    this.onCallSchedules.set(id, record);
+    return record;
+  }
+
+  async updateOnCallSchedule(id: string, schedule: OnCallScheduleData): Promise<OnCallScheduleRecord | undefined> {
+    if (!this.onCallSchedules.has(id)) return undefined;
+
+    const record: OnCallScheduleRecord = {
+      id,
+      name: schedule.name,
+      rotationStart: schedule.rotationStart,
+      members: JSON.stringify(schedule.members),
+      updatedAt: new Date(),
+    };
+    this.onCallSchedules.set(id, record);
+    return record;
+  }
+
+  async deleteOnCallSchedule(id: string): Promise<boolean> {
+    this.onCallOverrides.forEach((override, overrideId) => {
+      if (override.scheduleId === id) this.onCallOverrides.delete(overrideId);
+    });
+    return this.onCallSchedules.delete(id);
+  }
+
+  async getOnCallOverrides(scheduleId: string): Promise<OnCallOverride[]> {
+    return Array.from(this.onCallOverrides.values())
+      .filter((override) => override.scheduleId === scheduleId)
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
+  }
+
+  async createOnCallOverride(insertOverride: InsertOnCallOverride): Promise<OnCallOverride> {
+    const id = randomUUID();
+    const override: OnCallOverride = {
+      id,
+      scheduleId: insertOverride.scheduleId,
+      userId: insertOverride.userId,
+      startsAt: insertOverride.startsAt,
+      endsAt: insertOverride.endsAt,
+      reason: insertOverride.reason ?? null,
+      createdBy: insertOverride.createdBy ?? null,
+      createdAt: new Date(),
+    };
+    this.onCallOverrides.set(id, override);
+    return override;
+  }
+
+  async deleteOnCallOverride(id: string): Promise<boolean> {
+    return this.onCallOverrides.delete(id);
+  }
+
+  // Escalation actions
+  async getAlarmEscalations(alarmId: string): Promise<AlarmEscalation[]> {
+    return Array.from(this.alarmEscalations.values())
+      .filter((escalation) => escalation.alarmId === alarmId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.step - b.step);
+  }
+
+  async createAlarmEscalation(insertEscalation: InsertAlarmEscalation): Promise<AlarmEscalation> {
+    const id = randomUUID();
+    const escalation: AlarmEscalation = {
+      id,
+      alarmId: insertEscalation.alarmId,
+      policyId: insertEscalation.policyId,
+      step: insertEscalation.step,
+      target: insertEscalation.target,
+      userId: insertEscalation.userId ?? null,
+      outcome: insertEscalation.outcome,
+      detail: insertEscalation.detail ?? null,
+      createdAt: insertEscalation.createdAt,
+    };
+    this.alarmEscalations.set(id, escalation);
+    return escalation;
+  }
 }
 
 export const storage = new MemStorage();
@@ -0,0 +1,69 @@
+import { storage } from "./storage";
+import { isVisible } from "@shared/validation";
+import { vitalMetrics, type Observation, type VitalMetric, type VitalTrend } from "@shared/schema";
+
+// Trends look at the accepted values in this window, ending at each metric's latest value
+export const TREND_WINDOW_MS = parseInt(process.env.VITAL_TREND_WINDOW_MINUTES || "30", 10) * 60 * 1000;
+const MIN_TREND_POINTS = 3;
+
+// Smallest fitted change over the window (canonical units) that counts as rising or
+// falling rather than noise between readings
+const significantChange: Record<VitalMetric, number> = {
+  heart_rate: 5,
+  spo2: 2,
+  systolic_bp: 10,
+  diastolic_bp: 6,
+  temperature: 0.3,
+  respiratory_rate: 3,
+};
+
+// Least-squares slope through the values, projected over the time they span
+export function computeTrend(metric: VitalMetric, points: { observedAt: Date; value: number }[]): VitalTrend | null {
+  if (points.length < MIN_TREND_POINTS) return null;
+
+  const origin = points[0].observedAt.getTime();
+  const minutes = points.map((point) => (point.observedAt.getTime() - origin) / 60000);
+  const periodMinutes = Math.max(...minutes) - Math.min(...minutes);
+  if (periodMinutes <= 0) return null;
+
+  const meanT = minutes.reduce((sum, t) => sum + t, 0) / points.length;
+  const meanV = points.reduce((sum, point) => sum + point.value, 0) / points.length;
+  let covariance = 0;
+  let variance = 0;
+  points.forEach((point, index) => {
+    covariance += (minutes[index] - meanT) * (point.value - meanV);
+    variance += (minutes[index] - meanT) ** 2;
+  });
+  const change = (covariance / variance) * periodMinutes;
+
+  const significant = Math.abs(change) >= significantChange[metric];
+  return {
+    direction: !significant ? "stable" : change > 0 ? "rising" : "falling",
+    change: metric === "temperature" ? Math.round(change * 100) / 100 : Math.round(change * 10) / 10,
+    periodMinutes: Math.round(periodMinutes),
+    points: points.length,
+  };
+}
+
+// Trend of every metric with recent accepted values, in canonical units
+export async function getVitalTrends(userId: string): Promise<Partial<Record<VitalMetric, VitalTrend | null>>> {
+  const byMetric = new Map<VitalMetric, Observation[]>();
+  for (const observation of await storage.getObservationsByUserId(userId)) {
+    if (!(observation.metric in vitalMetrics) || !isVisible(observation.validationStatus)) continue;
+    const metric = observation.metric as VitalMetric;
+    if (!byMetric.has(metric)) byMetric.set(metric, []);
+    byMetric.get(metric)!.push(observation);
+  }
+
+  const trends: Partial<Record<VitalMetric, VitalTrend | null>> = {};
+  byMetric.forEach((observations, metric) => {
+    // getObservationsByUserId is newest first
+    const windowStart = new Date(observations[0].observedAt).getTime() - TREND_WINDOW_MS;
+    const points = observations
+      .map((observation) => ({ observedAt: new Date(observation.observedAt), value: observation.value }))
+      .filter((point) => point.observedAt.getTime() >= windowStart)
+      .reverse();
+    trends[metric] = computeTrend(metric, points);
+  });
+  return trends;
+}
@@ -0,0 +1,221 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { randomBytes } from "crypto";
+import { WebSocket, WebSocketServer } from "ws";
+import { log } from "./vite";
+import { getUnitPreferences, snapshotToDisplay } from "./display-units";
+import {
+  ALL_PATIENTS,
+  vitalsStreamClientMessageSchema,
+  type RecentWaveforms,
+  type VitalsSnapshot,
+  type VitalsStreamEvent,
+  type VitalsStreamServerMessage,
+} from "@shared/schema";
+
+// Live vitals for the dashboard over a WebSocket on the API server. Ingestion publishes
+// every change to a patient's snapshot or waveforms; subscribers get the events for the
+// patients they may see, and the last events are buffered so a client that reconnects
+// can resume from the last sequence number it saw instead of refetching.
+
+export const VITALS_STREAM_PATH = "/api/stream";
+const STREAM_BUFFER_SIZE = parseInt(process.env.VITALS_STREAM_BUFFER_SIZE || "1000", 10);
+const AUTH_TIMEOUT_MS = 10 * 1000;
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+// Close codes in the application range; the client does not reconnect after these
+export const STREAM_CLOSE_UNAUTHORIZED = 4401;
+
+export interface StreamIdentity {
+  userId: string;
+  role: string;
+  // Epoch ms from the token's exp claim; the socket is closed once it passes
+  expiresAt: number | null;
+}
+
+interface StreamClient {
+  socket: WebSocket;
+  identity: StreamIdentity | null;
+  subscriptions: Set<string>;
+  alive: boolean;
+  // Events are converted one at a time in this chain so they reach the client in order
+  outbox: Promise<void>;
+}
+
+// Sequence numbers restart with the process, so clients resume only within the same stream
+const streamId = randomBytes(8).toString("hex");
+let lastSeq = 0;
+const recentEvents: VitalsStreamEvent[] = [];
+const clients = new Set<StreamClient>();
+let server: WebSocketServer | null = null;
+
+function send(client: StreamClient, message: VitalsStreamServerMessage): void {
+  if (client.socket.readyState === WebSocket.OPEN) {
+    client.socket.send(JSON.stringify(message));
+  }
+}
+
+// Closes the socket when its token has run out, so a long-lived connection cannot outlast it
+function closeIfExpired(client: StreamClient, now = Date.now()): boolean {
+  const expiresAt = client.identity?.expiresAt;
+  if (expiresAt == null || now < expiresAt) return false;
+  client.socket.close(STREAM_CLOSE_UNAUTHORIZED, "Token expired");
+  return true;
+}
+
+function isSubscribed(client: StreamClient, patientId: string): boolean {
+  return client.subscriptions.has(patientId) || client.subscriptions.has(ALL_PATIENTS);
+}
+
+// Snapshots are stored in canonical units and sent in the subscriber's display units
+async function sendEvent(client: StreamClient, event: VitalsStreamEvent): Promise<void> {
+  if (closeIfExpired(client)) return;
+  if (event.type === "vitals") {
+    const preferences = await getUnitPreferences(client.identity?.userId);
+    send(client, { ...event, snapshot: snapshotToDisplay(event.snapshot, preferences) });
+  } else {
+    send(client, event);
+  }
+}
+
+function enqueue(client: StreamClient, event: VitalsStreamEvent): void {
+  client.outbox = client.outbox
+    .then(() => sendEvent(client, event))
+    .catch((error) => log(`Failed to send stream event: ${error.message}`, "stream", "error"));
+}
+
+function publish(event: VitalsStreamEvent): void {
+  recentEvents.push(event);
+  if (recentEvents.length > STREAM_BUFFER_SIZE) recentEvents.shift();
+
+  clients.forEach((client) => {
+    if (isSubscribed(client, event.patientId)) enqueue(client, event);
+  });
+}
+
+export function publishVitalsSnapshot(snapshot: VitalsSnapshot): void {
+  publish({ type: "vitals", seq: ++lastSeq, patientId: snapshot.userId, snapshot });
+}
+
+export function publishWaveforms(patientId: string, waveforms: RecentWaveforms): void {
+  publish({ type: "waveforms", seq: ++lastSeq, patientId, waveforms });
+}
+
+// Patients may only follow themselves; admins may follow anyone, or everyone at once
+function canSubscribe(identity: StreamIdentity, patientId: string): boolean {
+  return identity.role === "admin" || identity.userId === patientId;
+}
+
+// Replays the buffered events the client missed, if the buffer still reaches back that far.
+// The replay is queued before the subscription takes effect, so live events follow it.
+async function subscribe(client: StreamClient, patientId: string, resumeStreamId?: string, resumeSeq?: number): Promise<void> {
+  const oldestSeq = recentEvents.length > 0 ? recentEvents[0].seq : lastSeq + 1;
+  const resumed = resumeStreamId === streamId && resumeSeq !== undefined && resumeSeq >= oldestSeq - 1 && resumeSeq <= lastSeq;
+  client.outbox = client.outbox.then(() => send(client, { type: "subscribed", patientId, resumed }));
+
+  if (resumed) {
+    const matchesSubscription = (event: VitalsStreamEvent) => patientId === ALL_PATIENTS || event.patientId === patientId;
+    for (const event of recentEvents) {
+      if (event.seq > resumeSeq! && matchesSubscription(event)) enqueue(client, event);
+    }
+  }
+
+  client.subscriptions.add(patientId);
+  await client.outbox;
+}
+
+async function handleMessage(
+  client: StreamClient,
+  raw: string,
+  verifyToken: (token: string) => StreamIdentity | null,
+): Promise<void> {
+  let parsed;
+  try {
+    parsed = vitalsStreamClientMessageSchema.safeParse(JSON.parse(raw));
+  } catch {
+    send(client, { type: "error", message: "Message is not valid JSON" });
+    return;
+  }
+  if (!parsed.success) {
+    send(client, { type: "error", message: "Unrecognised message" });
+    return;
+  }
+  const message = parsed.data;
+
+  if (message.type === "auth") {
+    client.identity = verifyToken(message.token);
+    if (!client.identity) {
+      client.socket.close(STREAM_CLOSE_UNAUTHORIZED, "Invalid or expired token");
+      return;
+    }
+    send(client, { type: "ready", streamId });
+    return;
+  }
+
+  if (!client.identity) {
+    client.socket.close(STREAM_CLOSE_UNAUTHORIZED, "Authentication required");
+    return;
+  }
+
+  if (message.type === "subscribe") {
+    if (!canSubscribe(client.identity, message.patientId)) {
+      send(client, { type: "error", message: `Access denied to ${message.patientId}` });
+      return;
+    }
+    await subscribe(client, message.patientId, message.streamId, message.lastSeq);
+  } else {
+    client.subscriptions.delete(message.patientId);
+  }
+}
+
+// Accepts WebSocket upgrades on VITALS_STREAM_PATH. Other upgrade requests (such as
+// Vite's HMR socket in development) are left to their own handlers.
+export function attachVitalsStream(httpServer: Server, verifyToken: (token: string) => StreamIdentity | null): void {
+  server = new WebSocketServer({ noServer: true });
+
+  httpServer.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    if (new URL(req.url || "/", "http://localhost").pathname !== VITALS_STREAM_PATH) return;
+    server!.handleUpgrade(req, socket, head, (socket) => server!.emit("connection", socket, req));
+  });
+
+  server.on("connection", (socket: WebSocket) => {
+    const client: StreamClient = { socket, identity: null, subscriptions: new Set(), alive: true, outbox: Promise.resolve() };
+    clients.add(client);
+
+    const authTimer = setTimeout(() => {
+      if (!client.identity) socket.close(STREAM_CLOSE_UNAUTHORIZED, "Authentication timed out");
+    }, AUTH_TIMEOUT_MS);
+
+    socket.on("pong", () => {
+      client.alive = true;
+    });
+    socket.on("message", (data) => {
+      handleMessage(client, data.toString(), verifyToken)
+        .catch((error) => log(`Error handling stream message: ${error.message}`, "stream", "error"));
+    });
+    socket.on("close", () => {
+      clearTimeout(authTimer);
+      clients.delete(client);
+    });
+  });
+
+  // Drops connections that stopped answering pings, e.g. after a network change
+  const heartbeat = setInterval(() => {
+    clients.forEach((client) => {
+      if (!client.alive) {
+        client.socket.terminate();
+        return;
+      }
+      if (closeIfExpired(client)) return;
+      client.alive = false;
+      client.socket.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  server.on("close", () => clearInterval(heartbeat));
+}
+
+// Open sockets would otherwise keep httpServer.close() waiting during shutdown
+export function closeVitalsStream(): void {
+  clients.forEach((client) => client.socket.close(1001, "Server shutting down"));
+  server?.close();
+}
@@ -0,0 +1,140 @@
+import { deflateSync, inflateSync } from "zlib";
+import { storage } from "./storage";
+import { IngestionError, processNewObservations, resolveBootReference, resolveReadingTime } from "./ingestion";
+import { derivePpgVitals } from "./ppg-processing";
+import { publishWaveforms } from "./vitals-stream";
+import {
+  MAX_WAVEFORM_CHUNK_SAMPLES,
+  waveformChannels,
+  type Device,
+  type PpgAnalysis,
+  type RecentWaveforms,
+  type WaveformChannel,
+  type WaveformChunk,
+  type WaveformChunkData,
+  type WaveformStrip,
+} from "@shared/schema";
+
+// How much signal the dashboard shows, and how old the last sample may be before a
+// channel counts as "no signal"
+export const WAVEFORM_WINDOW_MS = 10 * 1000;
+export const WAVEFORM_STALE_AFTER_MS = parseInt(process.env.WAVEFORM_STALE_AFTER_SECONDS || "30", 10) * 1000;
+
+// Consecutive PPG samples differ by little, so deltas deflate far better than the raw values
+export function encodeSamples(samples: number[]): string {
+  const deltas = new Int32Array(samples.length);
+  let previous = 0;
+  samples.forEach((sample, index) => {
+    deltas[index] = sample - previous;
+    previous = sample;
+  });
+  return deflateSync(Buffer.from(deltas.buffer)).toString("base64");
+}
+
+export function decodeSamples(encoded: string): number[] {
+  const bytes = inflateSync(Buffer.from(encoded, "base64"));
+  const deltas = new Int32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4);
+  const samples: number[] = [];
+  let previous = 0;
+  deltas.forEach((delta) => {
+    previous += delta;
+    samples.push(previous);
+  });
+  return samples;
+}
+
+function chunkEndMs(chunk: WaveformChunk): number {
+  return chunk.startedAt.getTime() + (chunk.sampleCount / chunk.sampleRateHz) * 1000;
+}
+
+// Stores a chunk of PPG samples for the patient the device was bound to when the
+// first sample was taken, and derives vitals from it. A chunk is identified by its
+// device, channel and start time: a retried upload returns what was stored the first
+// time and derives nothing again.
+export async function ingestWaveformChunk(
+  device: Device,
+  data: WaveformChunkData,
+  receivedAt: Date,
+): Promise<{ chunks: WaveformChunk[]; analysis: PpgAnalysis | null; duplicate: boolean }> {
+  const startedAt = resolveReadingTime(
+    { epoch_ms: data.start_epoch_ms, uptime_ms: data.start_uptime_ms },
+    resolveBootReference(data, receivedAt),
+    receivedAt,
+  );
+
+  const assignment = await storage.getActiveDeviceAssignment(device.id, startedAt);
+  if (!assignment) {
+    throw new IngestionError(409, `Device ${device.deviceId} is not assigned to a patient at ${startedAt.toISOString()}`);
+  }
+
+  const channelSamples: [WaveformChannel, number[] | undefined][] = [["ppg_ir", data.ir], ["ppg_red", data.red]];
+  const chunks: WaveformChunk[] = [];
+  const stored = new Set<WaveformChannel>();
+  for (const [channel, samples] of channelSamples) {
+    if (!samples) continue;
+    const existing = await storage.getWaveformChunk(device.id, channel, startedAt);
+    if (existing) {
+      chunks.push(existing);
+      continue;
+    }
+    stored.add(channel);
+    chunks.push(await storage.createWaveformChunk({
+      userId: assignment.userId,
+      deviceId: device.id,
+      channel,
+      sampleRateHz: data.sample_rate_hz,
+      startedAt,
+      sampleCount: samples.length,
+      samples: encodeSamples(samples),
+    }));
+  }
+
+  if (stored.size === 0) {
+    return { chunks, analysis: (await storage.getPpgAnalysis(device.id, startedAt)) ?? null, duplicate: true };
+  }
+
+  // Heart rate and SpO2 need the IR channel; red alone is only stored
+  const analysis = data.ir && stored.has("ppg_ir")
+    ? await derivePpgVitals(
+        { userId: assignment.userId, deviceId: device.id, startedAt, sampleRateHz: data.sample_rate_hz },
+        data.ir,
+        data.red,
+      )
+    : null;
+
+  publishWaveforms(assignment.userId, await getRecentWaveforms(assignment.userId));
+  // Derived heart rate and SpO2 may have updated the snapshot, the alarms and NEWS2
+  if (analysis) await processNewObservations(assignment.userId);
+
+  return { chunks, analysis, duplicate: false };
+}
+
+// Last WAVEFORM_WINDOW_MS of each channel, or null if its latest sample is stale
+export async function getRecentWaveforms(userId: string, now: Date = new Date()): Promise<RecentWaveforms> {
+  const strips = await Promise.all(waveformChannels.map(async (channel): Promise<WaveformStrip | null> => {
+    const latest = await storage.getLatestWaveformChunk(userId, channel);
+    if (!latest || chunkEndMs(latest) < now.getTime() - WAVEFORM_STALE_AFTER_MS) {
+      return null;
+    }
+
+    // Only chunks from the same device at the same rate can be joined into one trace.
+    // Earlier chunks may still overlap the window, so look back one chunk length further.
+    const endMs = chunkEndMs(latest);
+    const maxChunkMs = (MAX_WAVEFORM_CHUNK_SAMPLES / latest.sampleRateHz) * 1000;
+    const chunks = (await storage.getWaveformChunks(userId, channel, new Date(endMs - WAVEFORM_WINDOW_MS - maxChunkMs)))
+      .filter((chunk) => chunk.deviceId === latest.deviceId && chunk.sampleRateHz === latest.sampleRateHz);
+
+    const windowSamples = Math.ceil((WAVEFORM_WINDOW_MS / 1000) * latest.sampleRateHz);
+    const samples = chunks.flatMap((chunk) => decodeSamples(chunk.samples)).slice(-windowSamples);
+
+    return {
+      channel,
+      sampleRateHz: latest.sampleRateHz,
+      startedAt: new Date(endMs - (samples.length / latest.sampleRateHz) * 1000).toISOString(),
+      endedAt: new Date(endMs).toISOString(),
+      samples,
+    };
+  }));
+
+  return Object.fromEntries(waveformChannels.map((channel, index) => [channel, strips[index]])) as RecentWaveforms;
+}
@@ -0,0 +1,83 @@
+import { VITAL_METRIC_CODES, type VitalMetric, type VitalsSnapshot } from "./schema";
+import { toCanonical } from "./units";
+
+// How concerning a measured value is. Unlike validation (shared/validation.ts), which
+// decides whether a value can be trusted, this only looks at what the value says
+// about the patient.
+export type VitalSeverity = "normal" | "warning" | "critical";
+
+// Values below warningBelow or above warningAbove need attention; below criticalBelow
+// or above criticalAbove they need it now. In canonical units, loosely following the
+// NEWS2 bands (critical where a parameter alone scores 3).
+export interface ClinicalRange {
+  criticalBelow: number;
+  warningBelow: number;
+  warningAbove: number;
+  criticalAbove: number;
+}
+
+export const clinicalRanges: Record<VitalMetric, ClinicalRange> = {
+  heart_rate: { criticalBelow: 41, warningBelow: 51, warningAbove: 90, criticalAbove: 130 },
+  spo2: { criticalBelow: 92, warningBelow: 96, warningAbove: 100, criticalAbove: 100 },
+  systolic_bp: { criticalBelow: 91, warningBelow: 111, warningAbove: 219, criticalAbove: 219 },
+  diastolic_bp: { criticalBelow: 40, warningBelow: 50, warningAbove: 100, criticalAbove: 120 },
+  temperature: { criticalBelow: 35.1, warningBelow: 36.1, warningAbove: 38, criticalAbove: 39 },
+  respiratory_rate: { criticalBelow: 9, warningBelow: 12, warningAbove: 20, criticalAbove: 24 },
+};
+
+const severityRank: Record<VitalSeverity, number> = { normal: 0, warning: 1, critical: 2 };
+
+export function worstSeverity(severities: VitalSeverity[]): VitalSeverity {
+  return severities.reduce<VitalSeverity>((worst, severity) => (severityRank[severity] > severityRank[worst] ? severity : worst), "normal");
+}
+
+// Classifies a value given in the metric's canonical unit
+export function classifyVital(metric: VitalMetric, value: number): VitalSeverity {
+  const range = clinicalRanges[metric];
+  if (value < range.criticalBelow || value > range.criticalAbove) return "critical";
+  if (value < range.warningBelow || value > range.warningAbove) return "warning";
+  return "normal";
+}
+
+// Severity of each measured metric in a snapshot and of the snapshot as a whole.
+// Snapshots from the API are in the viewer's display units, so values are
+// converted back using the unit each one carries.
+export function classifySnapshot(snapshot: VitalsSnapshot): {
+  severity: VitalSeverity;
+  metrics: Partial<Record<VitalMetric, VitalSeverity>>;
+} {
+  const metrics: Partial<Record<VitalMetric, VitalSeverity>> = {};
+  for (const metric of VITAL_METRIC_CODES) {
+    const entry = snapshot.metrics[metric];
+    if (entry) metrics[metric] = classifyVital(metric, toCanonical(metric, entry.value, entry.unit));
+  }
+  return { severity: worstSeverity(Object.values(metrics)), metrics };
+}
+
+// Values older than this no longer describe how the patient is doing now, unless the
+// patient is expected to report more often (snapshot.staleAfterSeconds)
+export const SNAPSHOT_STALE_AFTER_MS = 5 * 60 * 1000;
+
+// Whether a value observed at observedAt is too old to show as current
+export function isStale(snapshot: VitalsSnapshot, observedAt: string, now: Date = new Date()): boolean {
+  return now.getTime() - new Date(observedAt).getTime() > snapshot.staleAfterSeconds * 1000;
+}
+
+export type MonitoringState = VitalSeverity | "stale" | "no-data";
+
+const monitoringRank: Record<MonitoringState, number> = { "no-data": 0, normal: 1, stale: 2, warning: 3, critical: 4 };
+
+// Overall state of a monitored patient, judged from current values only
+export function monitoringState(snapshot: VitalsSnapshot, now: Date = new Date()): MonitoringState {
+  if (!snapshot.lastObservedAt) return "no-data";
+  if (isStale(snapshot, snapshot.lastObservedAt, now)) return "stale";
+  return classifySnapshot(snapshot).severity;
+}
+
+// Order for a monitoring wall: most urgent first, then most recently heard from
+export function compareByUrgency(a: VitalsSnapshot, b: VitalsSnapshot, now: Date = new Date()): number {
+  return (
+    monitoringRank[monitoringState(b, now)] - monitoringRank[monitoringState(a, now)] ||
+    (b.lastObservedAt ?? "").localeCompare(a.lastObservedAt ?? "")
+  );
+}
@@ -0,0 +1,78 @@
+import type { News2Band, News2Parameter, News2Score, VitalMetric } from "./schema";
+
+// National Early Warning Score 2 (Royal College of Physicians, 2017). Values are in
+// canonical units and SpO2 uses scale 1. Consciousness (ACVPU) is not recorded by
+// this system and is scored as alert.
+
+type News2Metric = Extract<VitalMetric, News2Parameter>;
+
+export const NEWS2_METRICS: News2Metric[] = ["respiratory_rate", "spo2", "systolic_bp", "heart_rate", "temperature"];
+
+// Sub-score for values up to and including each bound, lowest bound first
+const scoreBands: Record<News2Metric, [number, number][]> = {
+  respiratory_rate: [[8, 3], [11, 1], [20, 0], [24, 2], [Infinity, 3]],
+  spo2: [[91, 3], [93, 2], [95, 1], [Infinity, 0]],
+  systolic_bp: [[90, 3], [100, 2], [110, 1], [219, 0], [Infinity, 3]],
+  heart_rate: [[40, 3], [50, 1], [90, 0], [110, 1], [130, 2], [Infinity, 3]],
+  temperature: [[35, 3], [36, 1], [38, 0], [39, 1], [Infinity, 2]],
+};
+
+const SUPPLEMENTAL_OXYGEN_SCORE = 2;
+
+export const news2BandLabels: Record<News2Band, string> = {
+  low: "Low",
+  "low-medium": "Low-medium",
+  medium: "Medium",
+  high: "High",
+};
+
+export function scoreNews2Parameter(metric: News2Metric, value: number): number {
+  return scoreBands[metric].find(([upTo]) => value <= upTo)![1];
+}
+
+// Band from the aggregate, raised to low-medium when any single parameter scores 3
+export function news2Band(score: number, parameters: Partial<Record<News2Parameter, number>>): News2Band {
+  if (score >= 7) return "high";
+  if (score >= 5) return "medium";
+  if (Object.values(parameters).some((subScore) => subScore === 3)) return "low-medium";
+  return "low";
+}
+
+function clinicalResponse(score: number, band: News2Band): string {
+  switch (band) {
+    case "high":
+      return "Emergency response: immediate assessment by a clinical team with critical care competencies";
+    case "medium":
+      return "Urgent response: urgent review by a clinician skilled in assessing acutely ill patients";
+    case "low-medium":
+      return "Urgent ward-based response: review by a clinician to decide the change in care";
+    default:
+      return score === 0
+        ? "Routine monitoring: at least every 12 hours"
+        : "Ward-based response: assessment by a registered nurse, monitoring at least every 4-6 hours";
+  }
+}
+
+export function calculateNews2(values: Partial<Record<VitalMetric, number>>, supplementalOxygen: boolean | null): News2Score {
+  const parameters: Partial<Record<News2Parameter, number>> = {};
+  const missing: News2Parameter[] = [];
+
+  for (const metric of NEWS2_METRICS) {
+    const value = values[metric];
+    if (value === undefined) {
+      missing.push(metric);
+    } else {
+      parameters[metric] = scoreNews2Parameter(metric, value);
+    }
+  }
+
+  if (supplementalOxygen === null) {
+    missing.push("supplemental_oxygen");
+  } else {
+    parameters.supplemental_oxygen = supplementalOxygen ? SUPPLEMENTAL_OXYGEN_SCORE : 0;
+  }
+
+  const score = Object.values(parameters).reduce((sum, subScore) => sum + subScore, 0);
+  const band = news2Band(score, parameters);
+  return { score, band, response: clinicalResponse(score, band), parameters, missing, supplementalOxygen };
+}
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, real } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, real, bigint, boolean, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -13,6 +13,12 @@ export const users = pgTable("users", {
   customBloodGroup: text("custom_blood_group"),
   gender: text("gender").notNull(),
   role: text("role").notNull().default("patient"), // "patient" or "admin"
+  temperatureUnit: text("temperature_unit").notNull().default("celsius"), // Display unit, see shared/units.ts
+  pressureUnit: text("pressure_unit").notNull().default("mmHg"),
+  assignedClinicianId: varchar("assigned_clinician_id"), // Admin responsible for a patient, first in line for escalations
+  dataGapAlarmEnabled: boolean("data_gap_alarm_enabled").notNull().default(true), // Raise a technical alarm when readings stop
+  expectedIntervalSeconds: integer("expected_interval_seconds"), // Time between readings while monitored; null when not watched
+  dataWatchdogSavedAt: timestamp("data_watchdog_saved_at"), // When the watchdog settings last changed
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -30,15 +36,26 @@ export const ecgData = pgTable("ecg_data", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id),
   recordId: varchar("record_id").references(() => patientRecords.id),
-  timestamp: timestamp("timestamp").notNull().defaultNow(),
+  deviceId: varchar("device_id"), // Registered device that produced the reading, if any
+  idempotencyKey: text("idempotency_key").unique(), // Dedup key scoped to the device or patient ("device:<id>:..." / "user:<id>:...")
+  timestamp: timestamp("timestamp").notNull().defaultNow(), // When the reading was taken
   
-  // Vital signs
-  heartRate: integer("heart_rate").notNull(), // BPM
-  spo2: integer("spo2").notNull(), // %
-  systolicBP: integer("systolic_bp").notNull(),
-  diastolicBP: integer("diastolic_bp").notNull(),
-  temperature: real("temperature").notNull(), // °C
+  // Vital signs - null when the metric was not measured in this reading
+  heartRate: integer("heart_rate"), // BPM
+  spo2: integer("spo2"), // %
+  systolicBP: integer("systolic_bp"),
+  diastolicBP: integer("diastolic_bp"),
+  temperature: real("temperature"), // °C
   respiratoryRate: integer("respiratory_rate"), // breaths/min
+  supplementalOxygen: boolean("supplemental_oxygen"), // Patient on supplemental oxygen (NEWS2 "air or oxygen"); null when not recorded
+  
+  // Plausibility check result, see shared/validation.ts
+  validationStatus: text("validation_status").notNull().default("accepted"), // "accepted", "flagged" or "rejected"
+  validationReason: text("validation_reason"),
+  // Sensor state the device reported with the values, kept so they can be validated again
+  fingerDetected: boolean("finger_detected"),
+  bodyContact: boolean("body_contact"),
+  sampleCount: integer("sample_count"),
   
   // ECG waveform parameters (stored as JSON strings for simplicity)
   plethWaveform: text("pleth_waveform"), // JSON array
@@ -49,9 +66,297 @@ export const ecgData = pgTable("ecg_data", {
   etco2Waveform: text("etco2_waveform"),
 });
 
+// One measured value of one metric. Only metrics that were actually measured are stored.
+export const observations = pgTable("observations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  readingId: varchar("reading_id").references(() => ecgData.id), // Reading the value was submitted with
+  deviceId: varchar("device_id"), // Registered device that measured it, if any
+  metric: text("metric").notNull(), // Metric code, see vitalMetrics
+  value: real("value").notNull(),
+  unit: text("unit").notNull(),
+  source: text("source").notNull(), // "device", "manual" or "derived" (computed from raw PPG)
+  observedAt: timestamp("observed_at").notNull(),
+  validationStatus: text("validation_status").notNull().default("accepted"), // Only accepted values feed the snapshot
+  validationReason: text("validation_reason"),
+  rawValue: real("raw_value"), // Value as the device measured it, before calibration; null for manual and derived values
+  calibrationId: varchar("calibration_id"), // Device calibration applied to rawValue, if any
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Raw sensor samples from a device, one row per channel per uploaded chunk
+export const waveformChunks = pgTable("waveform_chunks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  deviceId: varchar("device_id").notNull(),
+  channel: text("channel").notNull(), // See waveformChannels
+  sampleRateHz: real("sample_rate_hz").notNull(),
+  startedAt: timestamp("started_at").notNull(), // Time of the first sample
+  sampleCount: integer("sample_count").notNull(),
+  samples: text("samples").notNull(), // Delta-encoded int32, deflated, base64
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [unique().on(table.deviceId, table.channel, table.startedAt)]); // A retried upload is stored once
+
+// Heart rate, SpO2 and perfusion index computed on the server from one PPG chunk
+export const ppgAnalyses = pgTable("ppg_analyses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  deviceId: varchar("device_id").notNull(),
+  startedAt: timestamp("started_at").notNull(),
+  durationMs: integer("duration_ms").notNull(),
+  heartRate: real("heart_rate"), // Null when too few clean beats were found
+  spo2: real("spo2"), // Null without a red channel or with an implausible ratio
+  perfusionIndex: real("perfusion_index"), // Pulsatile / static IR, in percent
+  signalQuality: real("signal_quality").notNull(), // 0 (unusable) to 1 (clean)
+  beatCount: integer("beat_count").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Registered monitoring devices (ESP32 units and similar)
+export const devices = pgTable("devices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  deviceId: text("device_id").notNull().unique(), // Hardware identifier sent by the firmware
+  name: text("name").notNull(),
+  model: text("model"),
+  groupName: text("group_name"), // Optional device group, used for shared configuration
+  status: text("status").notNull().default("active"), // "active" or "retired"
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Device-to-patient bindings, valid between effectiveFrom and effectiveTo
+export const deviceAssignments = pgTable("device_assignments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  deviceId: varchar("device_id").notNull().references(() => devices.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  effectiveFrom: timestamp("effective_from").notNull().defaultNow(),
+  effectiveTo: timestamp("effective_to"), // null while the binding is open-ended
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Per-device signing secrets used to HMAC-sign ingestion payloads
+export const deviceCredentials = pgTable("device_credentials", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  deviceId: varchar("device_id").notNull().references(() => devices.id),
+  keyId: text("key_id").notNull().unique(), // Sent by the device so the server can pick the secret
+  secret: text("secret").notNull(),
+  status: text("status").notNull().default("active"), // "active" or "revoked"
+  createdAt: timestamp("created_at").defaultNow(),
+  expiresAt: timestamp("expires_at"), // Set when a newer key replaces this one (rotation grace period)
+  revokedAt: timestamp("revoked_at"),
+  lastUsedAt: timestamp("last_used_at"),
+});
+
+// Nonces already seen per device, kept until the signature timestamp window has passed
+export const deviceNonces = pgTable("device_nonces", {
+  deviceId: varchar("device_id").notNull().references(() => devices.id),
+  nonce: text("nonce").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+}, (table) => [unique().on(table.deviceId, table.nonce)]);
+
+// Device telemetry sent alongside readings (signal, memory, uptime), one row per sample
+export const deviceTelemetry = pgTable("device_telemetry", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  deviceId: varchar("device_id").notNull().references(() => devices.id),
+  sampledAt: timestamp("sampled_at").notNull(), // When the device took the sample
+  receivedAt: timestamp("received_at").notNull().defaultNow(),
+  uptimeMs: bigint("uptime_ms", { mode: "number" }),
+  wifiRssi: integer("wifi_rssi"), // dBm
+  freeHeap: integer("free_heap"), // bytes
+  sensorType: text("sensor_type"),
+  dataQuality: text("data_quality"),
+  sampleCount: integer("sample_count"),
+  rebooted: boolean("rebooted").notNull().default(false), // Uptime went backwards since the previous sample
+});
+
+// Requests from a registered device that were rejected (auth failures, invalid readings)
+export const deviceIngestionErrors = pgTable("device_ingestion_errors", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  deviceId: varchar("device_id").notNull().references(() => devices.id),
+  occurredAt: timestamp("occurred_at").notNull().defaultNow(),
+  status: integer("status").notNull(), // HTTP status returned to the device
+  message: text("message").notNull(),
+});
+
+// Short-lived single-use codes a patient hands to a new device to claim it
+export const pairingCodes = pgTable("pairing_codes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: text("code").notNull(), // Numeric code entered on the device
+  userId: varchar("user_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  deviceId: varchar("device_id").references(() => devices.id), // Device provisioned with the code
+});
+
+// Calibration coefficients for one metric of one device, in the metric's canonical
+// unit: calibrated = raw * gain + offset. Entries are never edited; a correction is
+// recorded as a new entry, so the table is also the calibration history.
+export const deviceCalibrations = pgTable("device_calibrations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  deviceId: varchar("device_id").notNull().references(() => devices.id),
+  metric: text("metric").notNull(), // Metric code, see vitalMetrics
+  offset: real("offset").notNull().default(0),
+  gain: real("gain").notNull().default(1),
+  effectiveFrom: timestamp("effective_from").notNull(), // Applies to readings taken from this time on
+  notes: text("notes"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Remote configuration overrides for a device group or a single device
+export const deviceConfigs = pgTable("device_configs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  scope: text("scope").notNull(), // "group" or "device"
+  target: text("target").notNull(), // Group name, or devices.id for device scope
+  settings: text("settings").notNull(), // JSON object of DeviceSettings overrides
+  version: integer("version").notNull().default(1), // Incremented on every change
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [unique().on(table.scope, table.target)]);
+
+// Configuration versions (ETags) reported back by devices after polling
+export const deviceConfigAcks = pgTable("device_config_acks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  deviceId: varchar("device_id").notNull().references(() => devices.id),
+  etag: text("etag").notNull(),
+  status: text("status").notNull(), // "applied" or "rejected"
+  message: text("message"),
+  ackedAt: timestamp("acked_at").defaultNow(),
+});
+
+// Vital-sign alarms raised by the alarm engine (server/alarms.ts). A patient has at
+// most one open (active or acknowledged) alarm per metric.
+export const alarms = pgTable("alarms", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  metric: text("metric").notNull(), // Metric code, see vitalMetrics, or DATA_GAP_METRIC for a technical alarm
+  condition: text("condition").notNull(), // "low" or "high": which limit was crossed; "no_data" or "device_offline" for data gaps
+  priority: text("priority").notNull(), // "low", "medium" or "high"
+  threshold: real("threshold").notNull(), // Limit in force when the alarm fired
+  triggerValue: real("trigger_value").notNull(),
+  lastValue: real("last_value").notNull(), // Most recent value while the alarm was open
+  unit: text("unit").notNull(),
+  status: text("status").notNull().default("active"), // "active", "acknowledged" or "resolved"
+  onsetAt: timestamp("onset_at").notNull(), // When the value first crossed the limit
+  triggeredAt: timestamp("triggered_at").notNull(), // When the alarm fired, after the limit's delay
+  acknowledgedAt: timestamp("acknowledged_at"),
+  acknowledgedBy: varchar("acknowledged_by").references(() => users.id),
+  resolvedAt: timestamp("resolved_at"),
+  escalationPolicyId: varchar("escalation_policy_id"), // Policy the alarm is escalating under, once its first step ran
+  escalationLevel: integer("escalation_level").notNull().default(0), // Number of policy steps carried out
+});
+
+// Per-patient alarm limit overrides; metrics and fields not listed use the defaults
+export const alarmLimits = pgTable("alarm_limits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().unique().references(() => users.id),
+  limits: text("limits").notNull(), // JSON object of AlarmLimitOverrides
+  updatedBy: varchar("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// NEWS2 score history, one row each time a patient's score or its inputs change
+export const news2Scores = pgTable("news2_scores", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  score: integer("score").notNull(), // Aggregate of the parameters that were available
+  band: text("band").notNull(), // "low", "low-medium", "medium" or "high"
+  parameters: text("parameters").notNull(), // JSON object of sub-score per scored parameter
+  missing: text("missing").notNull(), // JSON array of parameters without a value
+  supplementalOxygen: boolean("supplemental_oxygen"),
+  calculatedAt: timestamp("calculated_at").notNull(),
+});
+
+// How a user wants to be told about alarms (server/notifications.ts). Users without a
+// row get the defaults: email to their account address for high priority alarms.
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().unique().references(() => users.id),
+  enabled: boolean("enabled").notNull().default(true),
+  minPriority: text("min_priority").notNull().default("high"), // Lowest alarm priority that is sent
+  emailEnabled: boolean("email_enabled").notNull().default(true),
+  email: text("email"), // null for the account email
+  smsEnabled: boolean("sms_enabled").notNull().default(false),
+  phone: text("phone"), // null for the account phone
+  webhookEnabled: boolean("webhook_enabled").notNull().default(false),
+  webhookUrl: text("webhook_url"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Notification outbox: one message to one destination over one channel, retried with
+// backoff until it is sent or runs out of attempts
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id), // Recipient
+  alarmId: varchar("alarm_id").references(() => alarms.id), // null for test messages
+  channel: text("channel").notNull(), // "email", "sms" or "webhook"
+  destination: text("destination").notNull(), // Address, phone number or URL
+  subject: text("subject").notNull(),
+  message: text("message").notNull(),
+  payload: text("payload").notNull(), // JSON body posted to webhooks
+  status: text("status").notNull().default("pending"), // "pending", "sent" or "failed"
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").notNull(),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  sentAt: timestamp("sent_at"),
+});
+
+// Who is told when an alarm stays unacknowledged (server/escalation.ts). An alarm
+// follows the enabled policy covering its priority; steps run in order, each after
+// its delay from the previous one, until the alarm is acknowledged or resolves.
+export const escalationPolicies = pgTable("escalation_policies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  priorities: text("priorities").notNull(), // JSON array of the alarm priorities the policy covers
+  steps: text("steps").notNull(), // JSON array of EscalationStep
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Weekly on-call rotation: members take turns a week at a time from rotationStart
+export const onCallSchedules = pgTable("on_call_schedules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  rotationStart: timestamp("rotation_start").notNull(), // Start of the first member's first week
+  members: text("members").notNull(), // JSON array of user ids in rotation order
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Someone covering a schedule for a period instead of the rotation
+export const onCallOverrides = pgTable("on_call_overrides", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  scheduleId: varchar("schedule_id").notNull().references(() => onCallSchedules.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  reason: text("reason"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Every escalation step carried out for an alarm, one row per person it reached
+// (or one row saying why it reached no one)
+export const alarmEscalations = pgTable("alarm_escalations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  alarmId: varchar("alarm_id").notNull().references(() => alarms.id),
+  policyId: varchar("policy_id").notNull().references(() => escalationPolicies.id),
+  step: integer("step").notNull(), // 1-based position in the policy
+  target: text("target").notNull(), // "assigned_clinician", "on_call", "admins" or "user"
+  userId: varchar("user_id").references(() => users.id), // Person notified, null when nobody could be
+  outcome: text("outcome").notNull(), // "notified", "no_channel" or "no_recipient"
+  detail: text("detail"),
+  createdAt: timestamp("created_at").notNull(),
+});
+
 // Zod schemas for validation
 const baseInsertUserSchema = createInsertSchema(users).omit({
   id: true,
+  temperatureUnit: true,
+  pressureUnit: true,
+  assignedClinicianId: true,
+  dataGapAlarmEnabled: true,
+  expectedIntervalSeconds: true,
+  dataWatchdogSavedAt: true,
   createdAt: true,
 }).extend({
   email: z.string().email("Invalid email format"),
@@ -85,9 +390,228 @@ export const insertPatientRecordSchema = createInsertSchema(patientRecords).omit
 
 export const insertEcgDataSchema = createInsertSchema(ecgData).omit({
   id: true,
+}).extend({
+  // Measurement time; defaults to the time of storage when omitted
+  timestamp: z.coerce.date().optional(),
+  // May be fractional when entered in another unit (e.g. kPa, or SpO2 as a fraction);
+  // converted and rounded to the integer storage unit on ingestion
+  spo2: z.number().nullish(),
+  systolicBP: z.number().nullish(),
+  diastolicBP: z.number().nullish(),
+});
+
+// Readings entered through the API by a patient or admin: the measurement time, the
+// device and the validation result are set by the server, never by the caller
+export const manualEcgDataSchema = insertEcgDataSchema.omit({
   timestamp: true,
+  deviceId: true,
+  validationStatus: true,
+  validationReason: true,
+  fingerDetected: true,
+  bodyContact: true,
+  sampleCount: true,
+  idempotencyKey: true,
 });
 
+export const insertObservationSchema = createInsertSchema(observations).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertDeviceSchema = createInsertSchema(devices).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  deviceId: z.string().trim().min(1, "Device ID is required"),
+  name: z.string().trim().min(1, "Device name is required"),
+  model: z.string().trim().optional().nullable(),
+  groupName: z.string().trim().optional().nullable().transform((value) => value || null),
+  status: z.enum(["active", "retired"]).default("active"),
+});
+
+export const updateDeviceSchema = insertDeviceSchema.partial();
+
+export const insertDeviceAssignmentSchema = createInsertSchema(deviceAssignments).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  effectiveFrom: z.coerce.date().optional(),
+  effectiveTo: z.coerce.date().optional().nullable(),
+});
+
+// Body accepted by the admin assign endpoint (deviceId comes from the URL)
+export const assignDeviceSchema = z.object({
+  userId: z.string().min(1, "Patient is required"),
+  effectiveFrom: z.coerce.date().optional(),
+  effectiveTo: z.coerce.date().optional().nullable(),
+}).refine((data) => !data.effectiveFrom || !data.effectiveTo || data.effectiveTo > data.effectiveFrom, {
+  message: "effectiveTo must be after effectiveFrom",
+  path: ["effectiveTo"],
+});
+
+export const unassignDeviceSchema = z.object({
+  effectiveTo: z.coerce.date().optional(),
+});
+
+export const issueDeviceCredentialSchema = z.object({
+  revokePrevious: z.boolean().default(false),
+});
+
+const metricCodeSchema = z.string().refine((metric) => metric in vitalMetrics, "Unknown metric");
+
+export const createDeviceCalibrationSchema = z.object({
+  metric: metricCodeSchema,
+  offset: z.number().finite().default(0),
+  gain: z.number().positive("gain must be positive").default(1),
+  effectiveFrom: z.coerce.date().optional(),
+  notes: z.string().trim().max(500).optional(),
+});
+
+// Time window of a device's past readings to recalculate with the calibrations now on record
+export const reapplyCalibrationSchema = z.object({
+  metric: metricCodeSchema.optional(),
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+}).refine((data) => data.to > data.from, {
+  message: "to must be after from",
+  path: ["to"],
+});
+
+// Raw sample channels a device can upload
+export const waveformChannels = ["ppg_ir", "ppg_red"] as const;
+
+export const MAX_WAVEFORM_CHUNK_SAMPLES = 4000;
+
+const waveformSamplesSchema = z.array(z.number().int().min(0).max(2 ** 31 - 1)).min(1).max(MAX_WAVEFORM_CHUNK_SAMPLES);
+
+// Chunk of MAX30105 PPG samples. The start time is either start_epoch_ms or
+// start_uptime_ms together with the uptime_ms (or boot_epoch_ms) at send time.
+export const waveformChunkSchema = z.object({
+  device_id: z.string().min(1, "device_id is required"),
+  sample_rate_hz: z.number().positive().max(1000),
+  start_epoch_ms: z.number().optional(),
+  start_uptime_ms: z.number().nonnegative().optional(),
+  uptime_ms: z.number().nonnegative().optional(),
+  boot_epoch_ms: z.number().optional(),
+  ir: waveformSamplesSchema.optional(),
+  red: waveformSamplesSchema.optional(),
+}).refine((data) => data.ir || data.red, {
+  message: "At least one of ir or red samples is required",
+}).refine((data) => !data.ir || !data.red || data.ir.length === data.red.length, {
+  message: "ir and red must have the same number of samples",
+});
+
+// First call from an unprovisioned device
+export const provisionDeviceSchema = z.object({
+  pairing_code: z.string().trim().regex(/^\d{6}$/, "pairing_code must be 6 digits"),
+  hardware_id: z.string().trim().regex(/^[A-Za-z0-9_.:-]{3,64}$/, "hardware_id may only contain letters, digits and _ . : -").optional(),
+  model: z.string().trim().max(100).optional(),
+});
+
+// Runtime settings the firmware applies from the configuration endpoint
+export const deviceSettingsSchema = z.object({
+  vitals_sampling_duration_ms: z.number().int().min(1000).max(60000),
+  sensor_read_interval_ms: z.number().int().min(20).max(5000),
+  touch_threshold_temp_c: z.number().min(20).max(45),
+  touch_threshold_ir: z.number().int().min(0).max(262143),
+  pending_flush_interval_ms: z.number().int().min(1000).max(600000),
+  config_poll_interval_ms: z.number().int().min(10000).max(86400000),
+});
+
+// Group and device documents only hold the settings they override
+export const deviceSettingsOverrideSchema = deviceSettingsSchema.partial().strict();
+
+export const deviceConfigAckSchema = z.object({
+  etag: z.string().min(1, "etag is required"),
+  status: z.enum(["applied", "rejected"]).default("applied"),
+  message: z.string().max(500).optional(),
+});
+
+export const alarmPriorities = ["low", "medium", "high"] as const;
+
+// When and how loudly a metric alarms, in the metric's canonical unit. The alarm fires
+// once the value has stayed below low or above high for delaySeconds, and clears only
+// once it is back inside the limit by at least hysteresis.
+export const alarmLimitSchema = z.object({
+  enabled: z.boolean(),
+  low: z.number().finite().nullable(), // null for no lower limit
+  high: z.number().finite().nullable(), // null for no upper limit
+  priority: z.enum(alarmPriorities),
+  delaySeconds: z.number().int().min(0).max(3600),
+  hysteresis: z.number().finite().min(0),
+});
+
+// A patient's overrides only hold the metrics and fields that differ from the defaults
+export const alarmLimitOverridesSchema = z.record(metricCodeSchema, alarmLimitSchema.partial().strict());
+
+export const notificationChannels = ["email", "sms", "webhook"] as const;
+
+// Full replacement of a user's notification preferences. A blank email or phone falls
+// back to the account's.
+export const notificationPreferencesSchema = z.object({
+  enabled: z.boolean(),
+  minPriority: z.enum(alarmPriorities),
+  emailEnabled: z.boolean(),
+  email: z.string().email("Invalid email address").nullable(),
+  smsEnabled: z.boolean(),
+  phone: z.string().regex(/^\+?\d{7,15}$/, "Phone number must be 7 to 15 digits").nullable(),
+  webhookEnabled: z.boolean(),
+  webhookUrl: z.string().url("Invalid webhook URL").regex(/^https?:\/\//, "Webhook URL must use http or https").nullable(),
+}).strict().refine((preferences) => !preferences.webhookEnabled || preferences.webhookUrl !== null, {
+  message: "A webhook URL is required to enable webhook notifications",
+  path: ["webhookUrl"],
+});
+
+export const escalationTargets = ["assigned_clinician", "on_call", "admins", "user"] as const;
+
+// One step of a policy: who to notify, delayMinutes after the previous step (after the
+// alarm fired for the first step). on_call needs a schedule and user a user.
+export const escalationStepSchema = z.object({
+  delayMinutes: z.number().int().min(0).max(24 * 60),
+  target: z.enum(escalationTargets),
+  scheduleId: z.string().min(1).nullable().default(null),
+  userId: z.string().min(1).nullable().default(null),
+}).strict().refine((step) => step.target !== "on_call" || step.scheduleId !== null, {
+  message: "An on-call step needs a schedule",
+  path: ["scheduleId"],
+}).refine((step) => step.target !== "user" || step.userId !== null, {
+  message: "A user step needs a user",
+  path: ["userId"],
+});
+
+export const escalationPolicySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  enabled: z.boolean().default(true),
+  priorities: z.array(z.enum(alarmPriorities)).min(1, "Pick at least one alarm priority"),
+  steps: z.array(escalationStepSchema).min(1, "A policy needs at least one step").max(10),
+}).strict();
+
+export const onCallScheduleSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  rotationStart: z.coerce.date(),
+  members: z.array(z.string().min(1)).min(1, "A rotation needs at least one member"),
+}).strict();
+
+export const onCallOverrideSchema = z.object({
+  userId: z.string().min(1, "User is required"),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  reason: z.string().trim().max(200).optional(),
+}).refine((data) => data.endsAt > data.startsAt, {
+  message: "endsAt must be after startsAt",
+  path: ["endsAt"],
+});
+
+export const assignClinicianSchema = z.object({
+  clinicianId: z.string().min(1).nullable(),
+});
+
+// Watchdog settings of one patient; patients without an interval are not watched
+export const dataWatchdogSettingsSchema = z.object({
+  enabled: z.boolean(),
+  expectedIntervalSeconds: z.number().int().min(1).max(86400).nullable(),
+}).strict();
+
 // TypeScript types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type RegisterFormData = z.infer<typeof registerFormSchema>;
@@ -95,7 +619,296 @@ export type User = typeof users.$inferSelect;
 export type InsertPatientRecord = z.infer<typeof insertPatientRecordSchema>;
 export type PatientRecord = typeof patientRecords.$inferSelect;
 export type InsertEcgData = z.infer<typeof insertEcgDataSchema>;
+export type ManualEcgData = z.infer<typeof manualEcgDataSchema>;
 export type EcgData = typeof ecgData.$inferSelect;
+export type InsertObservation = z.infer<typeof insertObservationSchema>;
+export type Observation = typeof observations.$inferSelect;
+export type WaveformChunk = typeof waveformChunks.$inferSelect;
+export type InsertWaveformChunk = typeof waveformChunks.$inferInsert;
+export type WaveformChannel = typeof waveformChannels[number];
+export type WaveformChunkData = z.infer<typeof waveformChunkSchema>;
+export type PpgAnalysis = typeof ppgAnalyses.$inferSelect;
+export type InsertPpgAnalysis = typeof ppgAnalyses.$inferInsert;
+export type InsertDevice = z.infer<typeof insertDeviceSchema>;
+export type UpdateDevice = z.infer<typeof updateDeviceSchema>;
+export type Device = typeof devices.$inferSelect;
+export type InsertDeviceAssignment = z.infer<typeof insertDeviceAssignmentSchema>;
+export type DeviceAssignment = typeof deviceAssignments.$inferSelect;
+export type AssignDeviceData = z.infer<typeof assignDeviceSchema>;
+export type DeviceCredential = typeof deviceCredentials.$inferSelect;
+export type DeviceCalibration = typeof deviceCalibrations.$inferSelect;
+export type InsertDeviceCalibration = typeof deviceCalibrations.$inferInsert;
+export type CreateDeviceCalibrationData = z.infer<typeof createDeviceCalibrationSchema>;
+export type ReapplyCalibrationData = z.infer<typeof reapplyCalibrationSchema>;
+export type InsertDeviceCredential = typeof deviceCredentials.$inferInsert;
+export type PublicDeviceCredential = Omit<DeviceCredential, "secret">;
+export type PairingCode = typeof pairingCodes.$inferSelect;
+export type InsertPairingCode = typeof pairingCodes.$inferInsert;
+export type ProvisionDeviceData = z.infer<typeof provisionDeviceSchema>;
+export type DeviceSettings = z.infer<typeof deviceSettingsSchema>;
+export type DeviceSettingsOverride = z.infer<typeof deviceSettingsOverrideSchema>;
+export type DeviceConfig = typeof deviceConfigs.$inferSelect;
+export type DeviceConfigAck = typeof deviceConfigAcks.$inferSelect;
+export type InsertDeviceConfigAck = typeof deviceConfigAcks.$inferInsert;
+export type DeviceConfigAckData = z.infer<typeof deviceConfigAckSchema>;
+export type DeviceTelemetry = typeof deviceTelemetry.$inferSelect;
+export type InsertDeviceTelemetry = typeof deviceTelemetry.$inferInsert;
+export type DeviceIngestionError = typeof deviceIngestionErrors.$inferSelect;
+export type InsertDeviceIngestionError = typeof deviceIngestionErrors.$inferInsert;
+export type Alarm = typeof alarms.$inferSelect;
+export type InsertAlarm = typeof alarms.$inferInsert;
+export type AlarmPriority = typeof alarmPriorities[number];
+export type AlarmLimit = z.infer<typeof alarmLimitSchema>;
+export type AlarmLimitOverrides = Partial<Record<VitalMetric, Partial<AlarmLimit>>>;
+export type AlarmLimitsRecord = typeof alarmLimits.$inferSelect;
+export type News2ScoreRecord = typeof news2Scores.$inferSelect;
+export type InsertNews2ScoreRecord = typeof news2Scores.$inferInsert;
+export type NotificationChannel = typeof notificationChannels[number];
+export type NotificationPreferencesData = z.infer<typeof notificationPreferencesSchema>;
+export type NotificationPreferencesRecord = typeof notificationPreferences.$inferSelect;
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = typeof notifications.$inferInsert;
+export type EscalationTarget = typeof escalationTargets[number];
+export type EscalationStep = z.infer<typeof escalationStepSchema>;
+export type EscalationPolicyData = z.infer<typeof escalationPolicySchema>;
+export type EscalationPolicyRecord = typeof escalationPolicies.$inferSelect;
+export type OnCallScheduleData = z.infer<typeof onCallScheduleSchema>;
+export type OnCallScheduleRecord = typeof onCallSchedules.$inferSelect;
+export type OnCallOverrideData = z.infer<typeof onCallOverrideSchema>;
+export type OnCallOverride = typeof onCallOverrides.$inferSelect;
+export type InsertOnCallOverride = typeof onCallOverrides.$inferInsert;
+export type AlarmEscalation = typeof alarmEscalations.$inferSelect;
+export type InsertAlarmEscalation = typeof alarmEscalations.$inferInsert;
+export type DataWatchdogSettings = z.infer<typeof dataWatchdogSettingsSchema>;
+
+// Vital sign metrics: code -> display label, unit and the reading column it is taken from
+export const vitalMetrics = {
+  heart_rate: { label: "Heart Rate", unit: "bpm", column: "heartRate" },
+  spo2: { label: "SpO2", unit: "%", column: "spo2" },
+  systolic_bp: { label: "Systolic BP", unit: "mmHg", column: "systolicBP" },
+  diastolic_bp: { label: "Diastolic BP", unit: "mmHg", column: "diastolicBP" },
+  temperature: { label: "Temperature", unit: "°C", column: "temperature" },
+  respiratory_rate: { label: "Respiratory Rate", unit: "breaths/min", column: "respiratoryRate" },
+} as const satisfies Record<string, { label: string; unit: string; column: keyof EcgData }>;
+
+export type VitalMetric = keyof typeof vitalMetrics;
+
+export const VITAL_METRIC_CODES = Object.keys(vitalMetrics) as VitalMetric[];
+
+// Where a metric has been heading, from a least-squares fit of its recent values
+export interface VitalTrend {
+  direction: "rising" | "falling" | "stable"; // Stable unless the change is significant for the metric
+  change: number; // Fitted change across the period, in the unit of the value
+  periodMinutes: number; // From the first to the last value used
+  points: number;
+}
+
+// Most recent value of a metric as reported by the snapshot API
+export interface SnapshotValue {
+  value: number;
+  unit: string;
+  source: string;
+  deviceId: string | null;
+  observedAt: string;
+  ageSeconds: number; // How old the value was when the snapshot was taken
+  trend: VitalTrend | null; // null with too few values to tell
+}
+
+// Clinical response bands of the National Early Warning Score (see shared/news2.ts)
+export type News2Band = "low" | "low-medium" | "medium" | "high";
+
+export type News2Parameter = "respiratory_rate" | "spo2" | "supplemental_oxygen" | "systolic_bp" | "heart_rate" | "temperature";
+
+// NEWS2 of a patient's latest values. Parameters without a value add nothing to the
+// score and are listed in missing, so an incomplete score can understate the risk.
+export interface News2Score {
+  score: number;
+  band: News2Band;
+  response: string; // Recommended clinical response for the band
+  parameters: Partial<Record<News2Parameter, number>>; // Sub-score of each parameter that was scored
+  missing: News2Parameter[];
+  supplementalOxygen: boolean | null;
+}
+
+// A stored NEWS2 score, as returned by the history endpoints
+export interface News2HistoryEntry extends Omit<News2Score, "response"> {
+  calculatedAt: string;
+}
+
+// Latest observation per metric merged into one view; null for metrics never measured
+export interface VitalsSnapshot {
+  userId: string;
+  generatedAt: string;
+  lastObservedAt: string | null;
+  metrics: Record<VitalMetric, SnapshotValue | null>;
+  news2: News2Score;
+  staleAfterSeconds: number; // Values older than this are no longer current, see shared/clinical-ranges.ts
+}
+
+// Recent samples of one channel, decoded and joined in time order
+export interface WaveformStrip {
+  channel: WaveformChannel;
+  sampleRateHz: number;
+  startedAt: string;
+  endedAt: string;
+  samples: number[];
+}
+
+// Latest strip per channel; null when the channel has no recent data
+export type RecentWaveforms = Record<WaveformChannel, WaveformStrip | null>;
+
+// One value in a short trend line
+export interface TrendPoint {
+  observedAt: string;
+  value: number;
+}
+
+// A monitored patient on the admin central station: latest values plus recent trends
+// of the metrics the bedside devices measure
+export interface CentralStationTile {
+  patient: Pick<User, "id" | "email" | "gender" | "bloodGroup">;
+  deviceId: string | null; // Hardware id of the device bound to the patient now, if any
+  snapshot: VitalsSnapshot;
+  trends: Partial<Record<VitalMetric, TrendPoint[]>>;
+}
+
+// Messages a browser sends on the /api/stream WebSocket. The first must be "auth".
+// Admins may subscribe to ALL_PATIENTS; lastSeq and streamId resume after a reconnect.
+export const ALL_PATIENTS = "*";
+
+export const vitalsStreamClientMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("auth"), token: z.string().min(1) }),
+  z.object({
+    type: z.literal("subscribe"),
+    patientId: z.string().min(1),
+    streamId: z.string().optional(),
+    lastSeq: z.number().int().nonnegative().optional(),
+  }),
+  z.object({ type: z.literal("unsubscribe"), patientId: z.string().min(1) }),
+]);
+
+export type VitalsStreamClientMessage = z.infer<typeof vitalsStreamClientMessageSchema>;
+
+// A change to a patient's live data; seq increases across all patients within a stream
+export type VitalsStreamEvent =
+  | { type: "vitals"; seq: number; patientId: string; snapshot: VitalsSnapshot }
+  | { type: "waveforms"; seq: number; patientId: string; waveforms: RecentWaveforms };
+
+// resumed is false when missed events could not be replayed and the client should refetch
+export type VitalsStreamServerMessage =
+  | { type: "ready"; streamId: string }
+  | { type: "subscribed"; patientId: string; resumed: boolean }
+  | { type: "error"; message: string }
+  | VitalsStreamEvent;
+
+// Server-derived values next to what the device itself reported for the same window
+export interface PpgComparison extends PpgAnalysis {
+  reportedHeartRate: number | null;
+  reportedSpo2: number | null;
+}
+
+// Pairing code as shown to the patient who generated it
+export interface PairingCodeStatus {
+  id: string;
+  code: string;
+  status: "pending" | "used" | "expired";
+  expiresAt: string;
+  device: Pick<Device, "id" | "deviceId" | "name"> | null;
+}
+
+// Configuration a device receives, merged from defaults, its group and its own overrides
+export interface ResolvedDeviceConfig {
+  etag: string;
+  settings: DeviceSettings;
+  groupName: string | null;
+  groupOverrides: DeviceSettingsOverride;
+  deviceOverrides: DeviceSettingsOverride;
+}
+
+// Rollout state of a device: the config it should run and the last one it acknowledged
+export interface DeviceConfigStatus {
+  etag: string;
+  acknowledgedEtag: string | null;
+  acknowledgedAt: string | null;
+  inSync: boolean;
+}
+
+// Point in a device telemetry trend
+export interface TelemetryPoint {
+  sampledAt: string;
+  value: number;
+}
+
+// Health summary of one device for the admin device-health view
+export interface DeviceHealth {
+  device: Device;
+  status: "online" | "silent" | "never_seen" | "retired";
+  lastSeenAt: string | null;
+  silentForSeconds: number | null;
+  latest: Pick<DeviceTelemetry, "uptimeMs" | "wifiRssi" | "freeHeap" | "sensorType" | "dataQuality" | "sampleCount"> | null;
+  rssiTrend: TelemetryPoint[];
+  heapTrend: TelemetryPoint[];
+  rebootsLast24h: number;
+  lastRebootAt: string | null;
+  errorsLast24h: number;
+  lastError: Pick<DeviceIngestionError, "occurredAt" | "status" | "message"> | null;
+  // Requests naming the device that failed authentication; counted, never stored
+  authFailuresLast24h: number;
+  lastAuthFailure: Pick<DeviceIngestionError, "occurredAt" | "status" | "message"> | null;
+}
+
+// Alarm limits in force for a patient, with the defaults and the patient's overrides
+export interface ResolvedAlarmLimits {
+  limits: Record<VitalMetric, AlarmLimit>;
+  defaults: Record<VitalMetric, AlarmLimit>;
+  overrides: AlarmLimitOverrides;
+  updatedAt: string | null;
+}
+
+// An escalation policy with its priorities and steps parsed
+export interface EscalationPolicy extends EscalationPolicyData {
+  id: string;
+  updatedAt: string | null;
+}
+
+// An on-call schedule with its overrides (newest first) and who is on call right now
+export interface OnCallSchedule {
+  id: string;
+  name: string;
+  rotationStart: string;
+  members: string[]; // User ids in rotation order
+  overrides: OnCallOverride[];
+  onCallUserId: string | null;
+  onCallUntil: string | null; // When the current shift or override ends
+}
+
+// Metric of the technical alarm raised when a patient's readings stop
+export const DATA_GAP_METRIC = "data_gap";
+
+// Whether a patient's readings are arriving as expected. Without an expected interval
+// (none set and no device bound) the patient is not watched.
+export interface DataWatchdogStatus {
+  settings: DataWatchdogSettings;
+  expectedIntervalSeconds: number | null;
+  alarmAfterSeconds: number | null; // Silence that raises the no-data alarm
+  lastObservedAt: string | null;
+  // Since the last reading or the binding of the device, whichever is later; for a patient
+  // who never reported without a device, since the settings were saved
+  silentForSeconds: number | null;
+  stale: boolean;
+  deviceId: string | null; // Hardware id of the bound device
+  deviceLastSeenAt: string | null;
+}
+
+// A user's notification preferences, the account details blank fields fall back to
+// and the channels this server is configured to deliver on
+export interface NotificationSettings {
+  preferences: NotificationPreferencesData;
+  accountEmail: string;
+  accountPhone: string;
+  availableChannels: NotificationChannel[];
+  updatedAt: string | null;
+}
 
 // Login schema
 export const loginSchema = z.object({
@@ -0,0 +1,128 @@
+import { z } from "zod";
+import { vitalMetrics, type VitalMetric } from "./schema";
+
+// Values are always stored in the canonical unit of their metric (vitalMetrics[metric].unit):
+// °C, mmHg, %, bpm and breaths/min. Incoming values are converted to it on ingestion
+// and converted to the viewer's preferred units when sent back out.
+
+export const temperatureUnits = ["celsius", "fahrenheit"] as const;
+export const pressureUnits = ["mmHg", "kPa"] as const;
+
+export type TemperatureUnit = typeof temperatureUnits[number];
+export type PressureUnit = typeof pressureUnits[number];
+
+export interface UnitPreferences {
+  temperatureUnit: TemperatureUnit;
+  pressureUnit: PressureUnit;
+}
+
+export const updateUnitPreferencesSchema = z.object({
+  temperatureUnit: z.enum(temperatureUnits),
+  pressureUnit: z.enum(pressureUnits),
+}).partial().strict();
+
+export const DEFAULT_UNIT_PREFERENCES: UnitPreferences = {
+  temperatureUnit: "celsius",
+  pressureUnit: "mmHg",
+};
+
+export const unitSymbols: Record<TemperatureUnit | PressureUnit, string> = {
+  celsius: "°C",
+  fahrenheit: "°F",
+  mmHg: "mmHg",
+  kPa: "kPa",
+};
+
+const MMHG_PER_KPA = 7.50062;
+
+export class UnitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnitError";
+  }
+}
+
+const PRESSURE_METRICS: VitalMetric[] = ["systolic_bp", "diastolic_bp"];
+
+// Accepted spellings of each input unit, mapped to a converter to the canonical unit
+const inputConversions: Partial<Record<VitalMetric, Record<string, (value: number) => number>>> = {
+  temperature: {
+    c: (value) => value,
+    celsius: (value) => value,
+    centigrade: (value) => value,
+    f: (value) => ((value - 32) * 5) / 9,
+    fahrenheit: (value) => ((value - 32) * 5) / 9,
+    k: (value) => value - 273.15,
+    kelvin: (value) => value - 273.15,
+  },
+  spo2: {
+    "%": (value) => value,
+    percent: (value) => value,
+    fraction: (value) => value * 100,
+    ratio: (value) => value * 100,
+  },
+  systolic_bp: {
+    mmhg: (value) => value,
+    kpa: (value) => value * MMHG_PER_KPA,
+  },
+  diastolic_bp: {
+    mmhg: (value) => value,
+    kpa: (value) => value * MMHG_PER_KPA,
+  },
+};
+
+function normalizeUnitName(unit: string): string {
+  return unit.trim().toLowerCase().replace(/^degrees?\s*/, "").replace(/^°/, "");
+}
+
+// Converts an incoming value to the metric's canonical unit. Without a unit the
+// value is taken as canonical, except SpO2 strictly between 0 and 1, which can only
+// be a fraction; a bare 1 stays a percent so validation rejects it as implausible.
+export function toCanonical(metric: VitalMetric, value: number, unit?: string | null): number {
+  if (!unit || !unit.trim()) {
+    return metric === "spo2" && value > 0 && value < 1 ? value * 100 : value;
+  }
+
+  const name = normalizeUnitName(unit);
+  if (name === vitalMetrics[metric].unit.toLowerCase()) return value;
+
+  const convert = inputConversions[metric]?.[name];
+  if (!convert) {
+    throw new UnitError(`Unsupported unit "${unit}" for ${metric}`);
+  }
+  return convert(value);
+}
+
+// Unit a metric is shown in for the given preferences
+export function displayUnit(metric: VitalMetric, preferences: UnitPreferences): string {
+  if (metric === "temperature") return unitSymbols[preferences.temperatureUnit];
+  if (PRESSURE_METRICS.includes(metric)) return unitSymbols[preferences.pressureUnit];
+  return vitalMetrics[metric].unit;
+}
+
+// Converts a stored (canonical) value to the preferred unit, rounded for display
+export function fromCanonical(metric: VitalMetric, value: number, preferences: UnitPreferences): number {
+  if (metric === "temperature" && preferences.temperatureUnit === "fahrenheit") {
+    return Math.round(((value * 9) / 5 + 32) * 10) / 10;
+  }
+  if (PRESSURE_METRICS.includes(metric) && preferences.pressureUnit === "kPa") {
+    return Math.round((value / MMHG_PER_KPA) * 10) / 10;
+  }
+  return value;
+}
+
+// Converts a difference between two canonical values, e.g. a change over time
+export function differenceFromCanonical(metric: VitalMetric, difference: number, preferences: UnitPreferences): number {
+  if (metric === "temperature" && preferences.temperatureUnit === "fahrenheit") {
+    return Math.round(((difference * 9) / 5) * 10) / 10;
+  }
+  if (PRESSURE_METRICS.includes(metric) && preferences.pressureUnit === "kPa") {
+    return Math.round((difference / MMHG_PER_KPA) * 10) / 10;
+  }
+  return difference;
+}
+
+// Precision of stored values: temperature to 0.01 °C, every other metric as a whole number
+export function roundForStorage(metric: VitalMetric, value: number): number {
+  return metric === "temperature" ? Math.round(value * 100) / 100 : Math.round(value);
+}
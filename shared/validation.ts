@@ -0,0 +1,133 @@
+import type { VitalMetric } from "./schema";
+
+// Outcome of validating a reading or one of its values. Rejected values are
+// physiologically impossible or were taken without sensor contact; flagged values
+// are possible but suspicious. Both are kept for audit but hidden from the
+// snapshot, charts and analysis (flagged ones can be shown on request).
+export type ValidationStatus = "accepted" | "flagged" | "rejected";
+
+// Values outside [rejectBelow, rejectAbove] cannot come from a patient; values
+// outside [flagBelow, flagAbove] are possible but rare enough to need review
+export interface PlausibilityLimit {
+  rejectBelow: number;
+  rejectAbove: number;
+  flagBelow: number;
+  flagAbove: number;
+  maxChangePerMinute: number; // Larger jumps from the previous accepted value are flagged
+}
+
+export const plausibilityLimits: Record<VitalMetric, PlausibilityLimit> = {
+  heart_rate: { rejectBelow: 20, rejectAbove: 300, flagBelow: 30, flagAbove: 220, maxChangePerMinute: 40 },
+  spo2: { rejectBelow: 50, rejectAbove: 100, flagBelow: 70, flagAbove: 100, maxChangePerMinute: 10 },
+  systolic_bp: { rejectBelow: 40, rejectAbove: 300, flagBelow: 70, flagAbove: 250, maxChangePerMinute: 60 },
+  diastolic_bp: { rejectBelow: 20, rejectAbove: 200, flagBelow: 40, flagAbove: 150, maxChangePerMinute: 40 },
+  temperature: { rejectBelow: 25, rejectAbove: 44, flagBelow: 34, flagAbove: 42, maxChangePerMinute: 1 },
+  respiratory_rate: { rejectBelow: 2, rejectAbove: 80, flagBelow: 6, flagAbove: 50, maxChangePerMinute: 20 },
+};
+
+// Previous values older than this are too far apart for a rate-of-change check
+export const RATE_OF_CHANGE_WINDOW_MS = 15 * 60 * 1000;
+
+// Sampled vitals built from fewer sensor reads than this are flagged
+export const MIN_SAMPLE_COUNT = 10;
+
+// Metrics measured by the pulse oximeter (need a finger) and the skin thermometer (need contact)
+const FINGER_METRICS: VitalMetric[] = ["heart_rate", "spo2"];
+const CONTACT_METRICS: VitalMetric[] = ["temperature"];
+
+// Sensor state the device reported alongside the values; absent fields are not checked
+export interface ReadingContext {
+  fingerDetected?: boolean;
+  bodyContact?: boolean;
+  sampleCount?: number;
+}
+
+export interface PreviousValue {
+  value: number;
+  observedAt: Date | string;
+}
+
+export interface MetricValidation {
+  status: ValidationStatus;
+  reason: string | null;
+}
+
+export interface ReadingValidation {
+  status: ValidationStatus; // Worst status of any value
+  reason: string | null; // All reasons, joined
+  metrics: Partial<Record<VitalMetric, MetricValidation>>;
+}
+
+const severity: Record<ValidationStatus, number> = { accepted: 0, flagged: 1, rejected: 2 };
+
+export function worstStatus(statuses: ValidationStatus[]): ValidationStatus {
+  return statuses.reduce<ValidationStatus>((worst, status) => (severity[status] > severity[worst] ? status : worst), "accepted");
+}
+
+function validateMetric(
+  metric: VitalMetric,
+  value: number,
+  context: ReadingContext,
+  previous: PreviousValue | undefined,
+  observedAt: Date,
+): MetricValidation {
+  const limit = plausibilityLimits[metric];
+
+  if (FINGER_METRICS.includes(metric) && context.fingerDetected === false) {
+    return { status: "rejected", reason: `${metric} measured without a finger on the sensor` };
+  }
+  if (CONTACT_METRICS.includes(metric) && context.bodyContact === false) {
+    return { status: "rejected", reason: `${metric} measured without body contact` };
+  }
+  if (value < limit.rejectBelow || value > limit.rejectAbove) {
+    return { status: "rejected", reason: `${metric} ${value} is outside the plausible range ${limit.rejectBelow}-${limit.rejectAbove}` };
+  }
+
+  const reasons: string[] = [];
+  if (value < limit.flagBelow || value > limit.flagAbove) {
+    reasons.push(`${metric} ${value} is outside the expected range ${limit.flagBelow}-${limit.flagAbove}`);
+  }
+  if (context.sampleCount !== undefined && FINGER_METRICS.includes(metric) && context.sampleCount < MIN_SAMPLE_COUNT) {
+    reasons.push(`${metric} is based on only ${context.sampleCount} samples`);
+  }
+  if (previous) {
+    const elapsedMs = observedAt.getTime() - new Date(previous.observedAt).getTime();
+    if (elapsedMs > 0 && elapsedMs <= RATE_OF_CHANGE_WINDOW_MS) {
+      // Readings seconds apart are compared as if a minute apart, so sensor noise is not flagged
+      const change = Math.abs(value - previous.value) / Math.max(1, elapsedMs / 60000);
+      if (change > limit.maxChangePerMinute) {
+        reasons.push(`${metric} changed from ${previous.value} to ${value} faster than ${limit.maxChangePerMinute} per minute`);
+      }
+    }
+  }
+
+  return reasons.length > 0 ? { status: "flagged", reason: reasons.join("; ") } : { status: "accepted", reason: null };
+}
+
+// Checks every value of a reading against plausibility limits, the sensor context
+// and the patient's previous accepted value of the same metric
+export function validateReading(
+  values: Partial<Record<VitalMetric, number>>,
+  context: ReadingContext,
+  previous: Partial<Record<VitalMetric, PreviousValue>>,
+  observedAt: Date,
+): ReadingValidation {
+  const metrics: Partial<Record<VitalMetric, MetricValidation>> = {};
+  for (const [metric, value] of Object.entries(values) as [VitalMetric, number][]) {
+    metrics[metric] = validateMetric(metric, value, context, previous[metric], observedAt);
+  }
+
+  const results = Object.values(metrics) as MetricValidation[];
+  const reasons = results.map((result) => result.reason).filter((reason): reason is string => !!reason);
+
+  return {
+    status: worstStatus(results.map((result) => result.status)),
+    reason: reasons.length > 0 ? reasons.join("; ") : null,
+    metrics,
+  };
+}
+
+// Whether a stored value should appear in charts and analysis
+export function isVisible(status: string, includeFlagged = false): boolean {
+  return status === "accepted" || (includeFlagged && status === "flagged");
+}